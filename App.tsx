@@ -1,12 +1,41 @@
 
-import React, { useState } from 'react';
-import { ViewState, Product, Invoice } from './types';
-import { INITIAL_PRODUCTS, MOCK_INVOICES } from './constants';
+import React, { useState, useEffect } from 'react';
+import { ViewState, Product, Invoice, StockMovement, Backorder, StoreSettings, Promotion, CashSession, Supplier, PurchaseOrder, StockTransfer, StockCount, UserAccount, Customer, CustomerPayment, LoyaltyEntry } from './types';
+import { INITIAL_PRODUCTS, MOCK_INVOICES, DEFAULT_USER, DEFAULT_SETTINGS, MAIN_LOCATION_ID } from './constants';
+import { loadStoreData, initializeStore, restoreBackup, StoreData, productRepository, promotionRepository, cashSessionRepository, supplierRepository, purchaseOrderRepository, stockCountRepository, userRepository, customerRepository, customerPaymentRepository, saveRecords, saveSettings, RecordChanges } from './services/repositories';
+import { STORES } from './services/db';
+import { applyMovements, createMovement, movementsForInvoice, reconcileWithLedger, reverseMovements } from './services/stockLedger';
+import { canVoid, formatFolio, nextFolio, voidInvoice } from './services/invoices';
+import { closeSession, getOpenSession, openSession } from './services/cashRegister';
+import { BackupData, RestoreMode } from './services/backup';
+import { addPurchasedProducts } from './services/suppliers';
+import { ReceiveInput, closeOrderShort, receiveOrder, revertReceipt } from './services/purchaseOrders';
+import { createBackorders, fulfillBackorders } from './services/stockPolicy';
+import { MinStockChange } from './services/replenishment';
+import { allocateFefo } from './services/lots';
+import { TransferInput, createTransfer, getLocationBalances, productsAtLocation } from './services/locations';
+import { StartCountInput, postCount, startCount } from './services/stockCounts';
+import { CustomerInput, PaymentInput, createCustomerPayment, getCustomerBalances, saveCustomer } from './services/customers';
+import { expirePoints, loyaltyEntriesForSale, reverseLoyalty } from './services/loyalty';
+import { ROLE_LABELS, UserInput, can, initials, saveUser, stampUser, verifyPin } from './services/users';
 import Dashboard from './components/Dashboard';
 import Inventory from './components/Inventory';
 import Billing from './components/Billing';
 import ProductAnalytics from './components/ProductAnalytics';
-import { LayoutDashboard, Package, Store, Menu, X, Receipt, LineChart } from 'lucide-react';
+import Promotions from './components/Promotions';
+import CashRegister from './components/CashRegister';
+import Suppliers from './components/Suppliers';
+import PurchaseOrders from './components/PurchaseOrders';
+import Replenishment from './components/Replenishment';
+import Lots from './components/Lots';
+import Transfers from './components/Transfers';
+import StockCounts from './components/StockCounts';
+import Customers from './components/Customers';
+import Reports from './components/Reports';
+import Settings from './components/Settings';
+import FirstRunSetup from './components/FirstRunSetup';
+import UserLogin from './components/UserLogin';
+import { LayoutDashboard, Package, Store, Menu, X, Receipt, LineChart, Loader2, FileBarChart, Settings as SettingsIcon, Tags, Wallet, Truck, ClipboardList, RefreshCw, CalendarClock, ArrowLeftRight, ClipboardCheck, LogOut, BookUser } from 'lucide-react';
 
 // Extract NavItem component to avoid re-creation on every render
 interface NavItemProps {
@@ -31,48 +60,466 @@ const NavItem: React.FC<NavItemProps> = ({ view, icon: Icon, label, isActive, on
   </button>
 );
 
+// Replaces items with the same id and appends new ones
+const mergeById = <T extends { id: string }>(items: T[], changes: T[]): T[] => {
+  const changed = new Map(changes.map(c => [c.id, c]));
+  const merged = items.map(item => changed.get(item.id) || item);
+  const existing = new Set(items.map(item => item.id));
+  return [...merged, ...changes.filter(c => !existing.has(c.id))];
+};
+
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
-  const [products, setProducts] = useState<Product[]>(INITIAL_PRODUCTS);
-  const [invoices, setInvoices] = useState<Invoice[]>(MOCK_INVOICES);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [stockMovements, setStockMovements] = useState<StockMovement[]>([]);
+  const [backorders, setBackorders] = useState<Backorder[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [cashSessions, setCashSessions] = useState<CashSession[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [stockCounts, setStockCounts] = useState<StockCount[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerPayments, setCustomerPayments] = useState<CustomerPayment[]>([]);
+  const [loyaltyEntries, setLoyaltyEntries] = useState<LoyaltyEntry[]>([]);
+  const [currentUser, setCurrentUser] = useState<UserAccount | null>(null);
+  const [settings, setSettings] = useState<StoreSettings>(DEFAULT_SETTINGS);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [status, setStatus] = useState<'LOADING' | 'SETUP' | 'READY'>('LOADING');
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Movements and documents are attributed to whoever is logged in
+  const userName = currentUser?.name || DEFAULT_USER;
+
+  const persist = (operation: Promise<void>) => {
+    operation.catch(error => {
+      console.error('Error saving data:', error);
+      setStorageError('No se pudieron guardar los últimos cambios.');
+    });
+  };
+
+  const applyStoreData = (data: StoreData) => {
+    // The ledger is the source of truth for stock: fix any cached value that drifted
+    const ledger = reconcileWithLedger(data.products, data.stockMovements, DEFAULT_USER);
+    const expiredPoints = expirePoints(data.loyaltyEntries, DEFAULT_USER);
+    setProducts(ledger.products);
+    setInvoices(data.invoices);
+    setStockMovements([...data.stockMovements, ...ledger.openingMovements]);
+    setBackorders(data.backorders);
+    setPromotions(data.promotions);
+    setCashSessions(data.cashSessions);
+    setSuppliers(data.suppliers);
+    setPurchaseOrders(data.purchaseOrders);
+    setTransfers(data.transfers);
+    setStockCounts(data.stockCounts);
+    setUsers(data.users);
+    setCustomers(data.customers);
+    setCustomerPayments(data.customerPayments);
+    setLoyaltyEntries([...data.loyaltyEntries, ...expiredPoints]);
+    setSettings(data.settings);
+    setStatus(data.initialized ? 'READY' : 'SETUP');
+    persist(saveRecords({
+      [STORES.PRODUCTS]: ledger.corrected,
+      [STORES.STOCK_MOVEMENTS]: ledger.openingMovements,
+      [STORES.LOYALTY_ENTRIES]: expiredPoints,
+    }));
+  };
+
+  // Load persisted data once on startup
+  useEffect(() => {
+    loadStoreData()
+      .then(applyStoreData)
+      .catch(error => {
+        // Storage unavailable (e.g. private browsing): keep working in memory with demo data
+        console.error('Error loading stored data:', error);
+        setStorageError('No se pudo abrir la base de datos local. Los cambios no se guardarán.');
+        const ledger = reconcileWithLedger(INITIAL_PRODUCTS, [], DEFAULT_USER);
+        setProducts(ledger.products);
+        setInvoices(MOCK_INVOICES);
+        setStockMovements(ledger.openingMovements);
+        setStatus('READY');
+      });
+  }, []);
+
+  const handleInitialize = async (withDemoData: boolean) => {
+    try {
+      const data = await initializeStore(withDemoData);
+      setProducts(data.products);
+      setInvoices(data.invoices);
+      setStockMovements(data.stockMovements);
+    } catch (error) {
+      console.error('Error initializing store:', error);
+      setStorageError('No se pudo preparar la base de datos local. Los cambios no se guardarán.');
+      const ledger = reconcileWithLedger(withDemoData ? INITIAL_PRODUCTS : [], [], DEFAULT_USER);
+      setProducts(ledger.products);
+      setInvoices(withDemoData ? MOCK_INVOICES : []);
+      setStockMovements(ledger.openingMovements);
+    }
+    setStatus('READY');
+  };
+
+  // Appends movements to the ledger, updates cached stock and saves both (plus any extra records) atomically
+  const recordStockMovements = (newMovements: StockMovement[], extra: RecordChanges = {}, baseProducts = products) => {
+    // Units leaving stock are taken from the lots that expire first
+    const movements = allocateFefo(newMovements, stockMovements);
+    const updatedProducts = applyMovements(baseProducts, movements);
+    const touchedIds = new Set(movements.map(m => m.productId));
+    setProducts(updatedProducts);
+    setStockMovements([...stockMovements, ...movements]);
+    persist(saveRecords({
+      ...extra,
+      [STORES.PRODUCTS]: [
+        ...(extra[STORES.PRODUCTS] || []).filter(p => !touchedIds.has(p.id)),
+        ...updatedProducts.filter(p => touchedIds.has(p.id)),
+      ],
+      [STORES.STOCK_MOVEMENTS]: movements,
+    }));
+  };
 
   // CRUD Operations
   const handleAddProduct = (newProduct: Product) => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return;
+    const opening = newProduct.currentStock !== 0
+      ? [createMovement({ productId: newProduct.id, type: 'OPENING', quantity: newProduct.currentStock, user: userName, unitCost: newProduct.cost })]
+      : [];
     setProducts([...products, newProduct]);
+    setStockMovements([...stockMovements, ...opening]);
+    persist(saveRecords({ [STORES.PRODUCTS]: [newProduct], [STORES.STOCK_MOVEMENTS]: opening }));
   };
 
-  const handleUpdateProduct = (updatedProduct: Product) => {
-    setProducts(products.map(p => p.id === updatedProduct.id ? updatedProduct : p));
+  const handleUpdateProduct = (updatedProduct: Product, stockReason?: string, locationId = MAIN_LOCATION_ID): string | undefined => {
+    const previous = products.find(p => p.id === updatedProduct.id);
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return 'No tienes permiso para editar productos.';
+    if (previous && previous.price !== updatedProduct.price && !can(currentUser, 'EDIT_PRICES')) {
+      return 'No tienes permiso para cambiar precios.';
+    }
+    const delta = previous ? updatedProduct.currentStock - previous.currentStock : 0;
+    if (!previous || delta === 0) {
+      setProducts(products.map(p => p.id === updatedProduct.id ? updatedProduct : p));
+      persist(productRepository.put(updatedProduct));
+      return undefined;
+    }
+
+    // Stock edits from the product form become a manual adjustment in the ledger
+    const adjustment = createMovement({
+      productId: updatedProduct.id,
+      type: 'ADJUSTMENT',
+      quantity: delta,
+      user: userName,
+      reason: stockReason || 'Ajuste desde ficha de producto',
+      ...(locationId !== MAIN_LOCATION_ID ? { locationId } : {}),
+    });
+    const base = products.map(p => p.id === updatedProduct.id ? { ...updatedProduct, currentStock: previous.currentStock } : p);
+    recordStockMovements([adjustment], {}, base);
+    return undefined;
+  };
+
+  // Bulk import: new products open with their stock and stock changes on existing ones become adjustments
+  const handleImportProducts = (imported: Product[]) => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return;
+    const repriced = imported.some(p => products.some(previous => previous.id === p.id && previous.price !== p.price));
+    if (repriced && !can(currentUser, 'EDIT_PRICES')) return;
+    const movements = imported.flatMap(product => {
+      const previous = products.find(p => p.id === product.id);
+      const delta = product.currentStock - (previous?.currentStock ?? 0);
+      if (delta === 0) return [];
+      return [createMovement({
+        productId: product.id,
+        type: previous ? 'ADJUSTMENT' : 'OPENING',
+        quantity: delta,
+        user: userName,
+        ...(previous ? { reason: 'Importación de catálogo' } : { unitCost: product.cost }),
+      })];
+    });
+    // Stock starts from the current ledger balance and the movements bring it to the imported value
+    const updates = new Map(imported.map(p => [p.id, p]));
+    const base = [
+      ...products.map(p => updates.has(p.id) ? { ...updates.get(p.id)!, currentStock: p.currentStock } : p),
+      ...imported.filter(p => !products.some(existing => existing.id === p.id)).map(p => ({ ...p, currentStock: 0 })),
+    ];
+    recordStockMovements(movements, { [STORES.PRODUCTS]: imported }, base);
   };
 
   const handleDeleteProduct = (id: string) => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return;
     setProducts(products.filter(p => p.id !== id));
+    persist(productRepository.remove(id));
+  };
+
+  const handleRecordMovement = (movement: StockMovement) => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return;
+    recordStockMovements([movement]);
+  };
+
+  // Transfers only move stock between locations, so product totals and costs stay the same
+  const handleCreateTransfer = (input: TransferInput): string | undefined => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return 'No tienes permiso para trasladar stock.';
+    const result = createTransfer(input, { products, movements: stockMovements, transfers, user: userName });
+    if (result.error || !result.transfer || !result.movements) return result.error;
+    setTransfers([...transfers, result.transfer]);
+    recordStockMovements(result.movements, { [STORES.TRANSFERS]: [result.transfer] });
+    return undefined;
+  };
+
+  const handleStartStockCount = (input: StartCountInput): string | undefined => {
+    const result = startCount(input, { products, movements: stockMovements, counts: stockCounts, user: userName });
+    if (result.error || !result.count) return result.error;
+    handleSaveStockCount(result.count);
+    return undefined;
+  };
+
+  const handleSaveStockCount = (count: StockCount) => {
+    setStockCounts(mergeById(stockCounts, [count]));
+    persist(stockCountRepository.put(count));
+  };
+
+  // Posting a count turns its variances into adjustments, saved together with the closed count
+  const handlePostStockCount = (countId: string): string | undefined => {
+    const count = stockCounts.find(c => c.id === countId);
+    if (!count) return 'La toma de inventario ya no existe.';
+    const result = postCount(count, userName);
+    if (result.error || !result.count || !result.movements) return result.error;
+    setStockCounts(mergeById(stockCounts, [result.count]));
+    recordStockMovements(result.movements, { [STORES.STOCK_COUNTS]: [result.count] });
+    return undefined;
   };
 
   // Billing Logic
-  const handleAddInvoice = (newInvoice: Invoice) => {
-    // 1. Add Invoice to history
+  const handleAddInvoice = (issued: Invoice, extra: RecordChanges = {}) => {
+    // A total that failed to compute would corrupt the ledger and every report built on it
+    if (!Number.isFinite(issued.totalAmount)) return;
+
+    // 1. Add Invoice to history, stamped with who issued it
+    const newInvoice = stampUser(issued, currentUser);
     setInvoices([...invoices, newInvoice]);
 
-    // 2. Update Stock based on invoice type
-    const updatedProducts = products.map(p => {
-        const itemInInvoice = newInvoice.items.find(i => i.productId === p.id);
-        if (itemInInvoice) {
-            const quantityChange = itemInInvoice.quantity;
-            if (newInvoice.type === 'SALE') {
-                return { ...p, currentStock: Math.max(0, p.currentStock - quantityChange) };
-            } else { // PURCHASE / RESTOCK
-                return { 
-                  ...p, 
-                  currentStock: p.currentStock + quantityChange, 
-                  lastRestocked: newInvoice.date 
-                };
-            }
-        }
-        return p;
+    // 2. Record units sold beyond stock of BACKORDER products, or close backorders a purchase covers
+    const movements = movementsForInvoice(newInvoice, userName);
+    const invoiceLocation = newInvoice.locationId || MAIN_LOCATION_ID;
+    const changedBackorders = newInvoice.type === 'SALE'
+      ? createBackorders(newInvoice, productsAtLocation(products, getLocationBalances(stockMovements), invoiceLocation))
+      : fulfillBackorders(
+        backorders,
+        productsAtLocation(products, getLocationBalances([...stockMovements, ...movements]), invoiceLocation),
+        invoiceLocation
+      );
+    setBackorders(mergeById(backorders, changedBackorders));
+
+    // 3. Products bought from a supplier join their catalogue
+    const supplier = suppliers.find(s => s.id === newInvoice.supplierId);
+    const updatedSupplier = supplier ? addPurchasedProducts(supplier, newInvoice) : undefined;
+    if (updatedSupplier) setSuppliers(mergeById(suppliers, [updatedSupplier]));
+
+    // 4. Sales to a known customer earn and spend loyalty points
+    const pointEntries = loyaltyEntriesForSale(newInvoice, products, settings.loyalty, userName);
+    if (pointEntries.length > 0) setLoyaltyEntries([...loyaltyEntries, ...pointEntries]);
+
+    // 5. Update Stock based on invoice type, through the ledger
+    recordStockMovements(movements, {
+      ...extra,
+      [STORES.INVOICES]: [newInvoice],
+      [STORES.BACKORDERS]: changedBackorders,
+      [STORES.SUPPLIERS]: updatedSupplier ? [updatedSupplier] : [],
+      [STORES.LOYALTY_ENTRIES]: pointEntries,
     });
-    setProducts(updatedProducts);
+  };
+
+  // Voiding issues a credit note and reverses exactly the stock the invoice moved
+  const handleVoidInvoice = (invoiceId: string, reason: string) => {
+    const original = invoices.find(i => i.id === invoiceId);
+    if (!original || !canVoid(original) || !can(currentUser, 'VOID_INVOICES')) return;
+
+    const voidResult = voidInvoice(original, reason);
+    const { voided } = voidResult;
+    // Refunds of paid sales come out of the register that is open now
+    const openCashSession = getOpenSession(cashSessions);
+    const creditNote: Invoice = stampUser({
+      ...voidResult.creditNote,
+      folio: nextFolio(invoices, 'CREDIT_NOTE'),
+      ...(voidResult.creditNote.payments && openCashSession ? { cashSessionId: openCashSession.id } : {}),
+    }, currentUser);
+    const reversal = reverseMovements(
+      stockMovements.filter(m => m.invoiceId === original.id),
+      userName,
+      `Nota de crédito ${formatFolio(creditNote)}: ${reason}`,
+      creditNote.id
+    );
+    const cancelledBackorders = backorders
+      .filter(b => b.invoiceId === original.id && b.status === 'OPEN')
+      .map(b => ({ ...b, status: 'CANCELLED' as const, closedAt: new Date().toISOString() }));
+    // Units of a voided order receipt are pending again
+    const order = purchaseOrders.find(o => o.id === original.purchaseOrderId);
+    const reopenedOrder = order ? revertReceipt(order, original.id) : undefined;
+    const pointReversals = reverseLoyalty(loyaltyEntries, original.id, creditNote.id, settings.loyalty, userName);
+    setInvoices([...invoices.map(i => i.id === voided.id ? voided : i), creditNote]);
+    setBackorders(mergeById(backorders, cancelledBackorders));
+    if (reopenedOrder) setPurchaseOrders(mergeById(purchaseOrders, [reopenedOrder]));
+    if (pointReversals.length > 0) setLoyaltyEntries([...loyaltyEntries, ...pointReversals]);
+    recordStockMovements(reversal, {
+      [STORES.INVOICES]: [voided, creditNote],
+      [STORES.BACKORDERS]: cancelledBackorders,
+      [STORES.PURCHASE_ORDERS]: reopenedOrder ? [reopenedOrder] : [],
+      [STORES.LOYALTY_ENTRIES]: pointReversals,
+    });
+  };
+
+  const handleOpenCashSession = (openingFloat: number) => {
+    if (getOpenSession(cashSessions)) return;
+    const session = openSession(openingFloat, userName);
+    setCashSessions([...cashSessions, session]);
+    persist(cashSessionRepository.put(session));
+  };
+
+  const handleCloseCashSession = (countedCash: number, notes: string) => {
+    const current = getOpenSession(cashSessions);
+    if (!current) return undefined;
+    const closed = closeSession(current, invoices, countedCash, userName, notes, customerPayments);
+    setCashSessions(mergeById(cashSessions, [closed]));
+    persist(cashSessionRepository.put(closed));
+    return closed;
+  };
+
+  // A promotion lowers what products sell for, so it needs the same permission as a price change
+  const handleSavePromotion = (promotion: Promotion) => {
+    if (!can(currentUser, 'EDIT_PRICES')) return;
+    setPromotions(mergeById(promotions, [promotion]));
+    persist(promotionRepository.put(promotion));
+  };
+
+  const handleDeletePromotion = (id: string) => {
+    if (!can(currentUser, 'EDIT_PRICES')) return;
+    setPromotions(promotions.filter(p => p.id !== id));
+    persist(promotionRepository.remove(id));
+  };
+
+  const handleSaveSupplier = (supplier: Supplier) => {
+    setSuppliers(mergeById(suppliers, [supplier]).sort((a, b) => a.name.localeCompare(b.name)));
+    persist(supplierRepository.put(supplier));
+  };
+
+  // Past purchases keep their supplierId; they simply stop showing a name
+  const handleDeleteSupplier = (id: string) => {
+    setSuppliers(suppliers.filter(s => s.id !== id));
+    persist(supplierRepository.remove(id));
+  };
+
+  // Only managers set credit limits; anyone else keeps the customer's current one
+  const handleSaveCustomer = (input: CustomerInput, customerId?: string): string | undefined => {
+    const existing = customers.find(c => c.id === customerId);
+    const checked = can(currentUser, 'MANAGE_CREDIT') ? input : { ...input, creditLimit: existing?.creditLimit };
+    const result = saveCustomer(checked, customers, existing);
+    if (result.error || !result.customer) return result.error;
+    setCustomers(mergeById(customers, [result.customer]).sort((a, b) => a.name.localeCompare(b.name)));
+    persist(customerRepository.put(result.customer));
+    return undefined;
+  };
+
+  const handleRecordCustomerPayment = (input: PaymentInput) => {
+    const result = createCustomerPayment(input, {
+      balance: getCustomerBalances(invoices, customerPayments).get(input.customerId) || 0,
+      payments: customerPayments,
+      cashSessionId: getOpenSession(cashSessions)?.id,
+      user: userName,
+    });
+    if (result.payment) {
+      setCustomerPayments([...customerPayments, result.payment]);
+      persist(customerPaymentRepository.put(result.payment));
+    }
+    return result;
+  };
+
+  const handleSavePurchaseOrder = (order: PurchaseOrder) => {
+    setPurchaseOrders(mergeById(purchaseOrders, [order]));
+    persist(purchaseOrderRepository.put(order));
+  };
+
+  const handleDeletePurchaseOrder = (id: string) => {
+    setPurchaseOrders(purchaseOrders.filter(o => o.id !== id));
+    persist(purchaseOrderRepository.remove(id));
+  };
+
+  // Only what actually arrived enters stock, through a purchase invoice linked to the order
+  const handleReceivePurchaseOrder = (orderId: string, received: ReceiveInput[], closeShort: boolean, locationId: string): string | undefined => {
+    const order = purchaseOrders.find(o => o.id === orderId);
+    if (!order) return 'La orden ya no existe.';
+    const result = receiveOrder(order, received, closeShort, { products, invoices, taxSettings: settings.tax, user: userName, locationId });
+    if (result.error || !result.order || !result.invoice) return result.error;
+    setPurchaseOrders(mergeById(purchaseOrders, [result.order]));
+    handleAddInvoice(result.invoice, { [STORES.PURCHASE_ORDERS]: [result.order] });
+    return undefined;
+  };
+
+  const handleClosePurchaseOrder = (orderId: string) => {
+    const order = purchaseOrders.find(o => o.id === orderId);
+    if (order?.status === 'PARTIAL') handleSavePurchaseOrder(closeOrderShort(order));
+  };
+
+  // Accepting computed reorder points; minStock is just a threshold, so no stock movement is involved
+  const handleApplyMinStock = (changes: MinStockChange[]) => {
+    if (!can(currentUser, 'MANAGE_PRODUCTS')) return;
+    const minStocks = new Map(changes.map(c => [c.productId, c.minStock]));
+    const updated = products.filter(p => minStocks.has(p.id)).map(p => ({ ...p, minStock: minStocks.get(p.id)! }));
+    setProducts(mergeById(products, updated));
+    persist(saveRecords({ [STORES.PRODUCTS]: updated }));
+  };
+
+  const backupData: BackupData = { products, invoices, stockMovements, backorders, promotions, cashSessions, suppliers, purchaseOrders, transfers, stockCounts, users, customers, customerPayments, loyaltyEntries, settings };
+
+  // The restored data is read back from the database so it goes through the same checks as a normal startup.
+  // Restored accounts may differ, so the session only survives if the same user is still active.
+  const handleRestoreBackup = async (data: BackupData, mode: RestoreMode): Promise<string | undefined> => {
+    if (!can(currentUser, 'MANAGE_BACKUPS')) return 'No tienes permiso para restaurar respaldos.';
+    await restoreBackup(data, mode);
+    // Past this point the database already holds the backup, so a failure can't be reported as "nothing changed"
+    let restored: StoreData;
+    try {
+      restored = await loadStoreData();
+    } catch (error) {
+      console.error('Error loading restored data:', error);
+      return 'El respaldo se restauró, pero no se pudo cargar. Recarga la página para ver los datos restaurados.';
+    }
+    applyStoreData(restored);
+    setCurrentUser(restored.users.find(u => u.id === currentUser?.id && u.active) || null);
+    return undefined;
+  };
+
+  const handleLogin = async (userId: string, pin: string): Promise<string | undefined> => {
+    const user = users.find(u => u.id === userId && u.active);
+    if (!user || !(await verifyPin(user, pin))) return 'PIN incorrecto.';
+    setCurrentUser(user);
+    if ((currentView === ViewState.SETTINGS && !can(user, 'MANAGE_SETTINGS'))
+      || (currentView === ViewState.TRANSFERS && !can(user, 'MANAGE_PRODUCTS'))) setCurrentView(ViewState.DASHBOARD);
+    return undefined;
+  };
+
+  // The first account of the store is always an owner
+  const handleCreateOwner = async (name: string, pin: string): Promise<string | undefined> => {
+    if (users.some(u => u.active)) return 'Ya existen usuarios: ingresa con tu PIN.';
+    const result = await saveUser({ name, role: 'OWNER', pin }, users);
+    if (result.error || !result.user) return result.error;
+    setUsers([...users, result.user]);
+    persist(userRepository.put(result.user));
+    setCurrentUser(result.user);
+    return undefined;
+  };
+
+  const handleSaveUser = async (input: UserInput, userId?: string): Promise<string | undefined> => {
+    if (!can(currentUser, 'MANAGE_USERS')) return 'No tienes permiso para administrar usuarios.';
+    const result = await saveUser(input, users, users.find(u => u.id === userId));
+    if (result.error || !result.user) return result.error;
+    setUsers(mergeById(users, [result.user]));
+    persist(userRepository.put(result.user));
+    if (result.user.id === currentUser?.id) setCurrentUser(result.user);
+    return undefined;
+  };
+
+  const handleUpdateSettings = (updated: StoreSettings): string | undefined => {
+    if (!can(currentUser, 'MANAGE_SETTINGS')) return 'No tienes permiso para cambiar la configuración.';
+    setSettings(updated);
+    persist(saveSettings(updated));
+    return undefined;
   };
 
   const handleNavClick = (view: ViewState) => {
@@ -80,6 +527,22 @@ const App: React.FC = () => {
     setIsSidebarOpen(false);
   };
 
+  if (status === 'LOADING') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center text-emerald-600">
+        <Loader2 size={40} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === 'SETUP') {
+    return <FirstRunSetup onInitialize={handleInitialize} />;
+  }
+
+  if (!currentUser) {
+    return <UserLogin users={users} onCreateOwner={handleCreateOwner} onLogin={handleLogin} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex">
       {/* Mobile Sidebar Overlay */}
@@ -128,6 +591,71 @@ const App: React.FC = () => {
               isActive={currentView === ViewState.BILLING}
               onClick={() => handleNavClick(ViewState.BILLING)}
             />
+            <NavItem 
+              view={ViewState.CASH_REGISTER} 
+              icon={Wallet} 
+              label="Caja" 
+              isActive={currentView === ViewState.CASH_REGISTER}
+              onClick={() => handleNavClick(ViewState.CASH_REGISTER)}
+            />
+            <NavItem 
+              view={ViewState.CUSTOMERS} 
+              icon={BookUser} 
+              label="Clientes" 
+              isActive={currentView === ViewState.CUSTOMERS}
+              onClick={() => handleNavClick(ViewState.CUSTOMERS)}
+            />
+            <NavItem 
+              view={ViewState.SUPPLIERS} 
+              icon={Truck} 
+              label="Proveedores" 
+              isActive={currentView === ViewState.SUPPLIERS}
+              onClick={() => handleNavClick(ViewState.SUPPLIERS)}
+            />
+            <NavItem 
+              view={ViewState.PURCHASE_ORDERS} 
+              icon={ClipboardList} 
+              label="Órdenes de compra" 
+              isActive={currentView === ViewState.PURCHASE_ORDERS}
+              onClick={() => handleNavClick(ViewState.PURCHASE_ORDERS)}
+            />
+            <NavItem 
+              view={ViewState.REPLENISHMENT} 
+              icon={RefreshCw} 
+              label="Reposición" 
+              isActive={currentView === ViewState.REPLENISHMENT}
+              onClick={() => handleNavClick(ViewState.REPLENISHMENT)}
+            />
+            <NavItem 
+              view={ViewState.LOTS} 
+              icon={CalendarClock} 
+              label="Vencimientos" 
+              isActive={currentView === ViewState.LOTS}
+              onClick={() => handleNavClick(ViewState.LOTS)}
+            />
+            {can(currentUser, 'MANAGE_PRODUCTS') && (
+              <NavItem 
+                view={ViewState.TRANSFERS} 
+                icon={ArrowLeftRight} 
+                label="Traslados" 
+                isActive={currentView === ViewState.TRANSFERS}
+                onClick={() => handleNavClick(ViewState.TRANSFERS)}
+              />
+            )}
+            <NavItem 
+              view={ViewState.STOCK_COUNTS} 
+              icon={ClipboardCheck} 
+              label="Toma de inventario" 
+              isActive={currentView === ViewState.STOCK_COUNTS}
+              onClick={() => handleNavClick(ViewState.STOCK_COUNTS)}
+            />
+            <NavItem 
+              view={ViewState.PROMOTIONS} 
+              icon={Tags} 
+              label="Promociones" 
+              isActive={currentView === ViewState.PROMOTIONS}
+              onClick={() => handleNavClick(ViewState.PROMOTIONS)}
+            />
             <NavItem 
               view={ViewState.ANALYTICS} 
               icon={LineChart} 
@@ -135,6 +663,22 @@ const App: React.FC = () => {
               isActive={currentView === ViewState.ANALYTICS}
               onClick={() => handleNavClick(ViewState.ANALYTICS)}
             />
+            <NavItem 
+              view={ViewState.REPORTS} 
+              icon={FileBarChart} 
+              label="Reportes" 
+              isActive={currentView === ViewState.REPORTS}
+              onClick={() => handleNavClick(ViewState.REPORTS)}
+            />
+            {can(currentUser, 'MANAGE_SETTINGS') && (
+              <NavItem 
+                view={ViewState.SETTINGS} 
+                icon={SettingsIcon} 
+                label="Configuración" 
+                isActive={currentView === ViewState.SETTINGS}
+                onClick={() => handleNavClick(ViewState.SETTINGS)}
+              />
+            )}
           </nav>
 
           <div className="mt-auto pt-6 border-t border-gray-100 text-xs text-gray-400 text-center">
@@ -155,12 +699,32 @@ const App: React.FC = () => {
           </button>
 
           <div className="ml-auto flex items-center gap-4">
+            {storageError ? (
+              <div className="flex items-center gap-2" title={storageError}>
+                <span className="w-2 h-2 rounded-full bg-red-500"></span>
+                <span className="text-sm font-medium text-red-600">Sin guardar</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-green-500"></span>
+                <span className="text-sm font-medium text-gray-600">Datos guardados</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-green-500"></span>
-              <span className="text-sm font-medium text-gray-600">Sistema Online</span>
-            </div>
-            <div className="w-8 h-8 rounded-full bg-emerald-100 border border-emerald-200 flex items-center justify-center text-emerald-700 font-bold text-sm">
-              BF
+              <div className="w-8 h-8 rounded-full bg-emerald-100 border border-emerald-200 flex items-center justify-center text-emerald-700 font-bold text-sm">
+                {initials(currentUser.name)}
+              </div>
+              <div className="hidden sm:block leading-tight">
+                <div className="text-sm font-medium text-gray-800">{currentUser.name}</div>
+                <div className="text-xs text-gray-400">{ROLE_LABELS[currentUser.role]}</div>
+              </div>
+              <button
+                onClick={() => setCurrentUser(null)}
+                title="Cambiar usuario"
+                className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                <LogOut size={18} />
+              </button>
             </div>
           </div>
         </header>
@@ -169,11 +733,17 @@ const App: React.FC = () => {
         <div className="flex-1 overflow-auto p-4 sm:p-6 lg:p-8">
           <div className="max-w-6xl mx-auto">
             {currentView === ViewState.DASHBOARD && (
-              <Dashboard products={products} invoices={invoices} />
+              <Dashboard products={products} invoices={invoices} stockMovements={stockMovements} settings={settings} />
             )}
             {currentView === ViewState.INVENTORY && (
               <Inventory 
                 products={products}
+                stockMovements={stockMovements}
+                backorders={backorders}
+                settings={settings}
+                currentUser={currentUser}
+                onRecordMovement={handleRecordMovement}
+                onImportProducts={handleImportProducts}
                 onAddProduct={handleAddProduct}
                 onUpdateProduct={handleUpdateProduct}
                 onDeleteProduct={handleDeleteProduct}
@@ -183,7 +753,109 @@ const App: React.FC = () => {
               <Billing 
                 products={products}
                 invoices={invoices}
+                stockMovements={stockMovements}
+                settings={settings}
+                promotions={promotions}
+                suppliers={suppliers}
+                customers={customers}
+                customerPayments={customerPayments}
+                loyaltyEntries={loyaltyEntries}
+                cashSession={getOpenSession(cashSessions)}
+                currentUser={currentUser}
                 onAddInvoice={handleAddInvoice}
+                onVoidInvoice={handleVoidInvoice}
+              />
+            )}
+            {currentView === ViewState.CASH_REGISTER && (
+              <CashRegister 
+                sessions={cashSessions}
+                invoices={invoices}
+                customerPayments={customerPayments}
+                onOpenSession={handleOpenCashSession}
+                onCloseSession={handleCloseCashSession}
+              />
+            )}
+            {currentView === ViewState.CUSTOMERS && (
+              <Customers 
+                customers={customers}
+                invoices={invoices}
+                customerPayments={customerPayments}
+                loyaltyEntries={loyaltyEntries}
+                loyaltySettings={settings.loyalty}
+                receiptSettings={settings.receipt}
+                cashSession={getOpenSession(cashSessions)}
+                currentUser={currentUser}
+                onSaveCustomer={handleSaveCustomer}
+                onRecordPayment={handleRecordCustomerPayment}
+              />
+            )}
+            {currentView === ViewState.SUPPLIERS && (
+              <Suppliers 
+                suppliers={suppliers}
+                products={products}
+                invoices={invoices}
+                onSaveSupplier={handleSaveSupplier}
+                onDeleteSupplier={handleDeleteSupplier}
+              />
+            )}
+            {currentView === ViewState.PURCHASE_ORDERS && (
+              <PurchaseOrders 
+                orders={purchaseOrders}
+                suppliers={suppliers}
+                products={products}
+                invoices={invoices}
+                onSaveOrder={handleSavePurchaseOrder}
+                onDeleteOrder={handleDeletePurchaseOrder}
+                onReceiveOrder={handleReceivePurchaseOrder}
+                onCloseOrder={handleClosePurchaseOrder}
+                locationSettings={settings.locations}
+              />
+            )}
+            {currentView === ViewState.REPLENISHMENT && (
+              <Replenishment 
+                products={products}
+                invoices={invoices}
+                suppliers={suppliers}
+                orders={purchaseOrders}
+                settings={settings.replenishment}
+                onApplyMinStock={can(currentUser, 'MANAGE_PRODUCTS') ? handleApplyMinStock : undefined}
+              />
+            )}
+            {currentView === ViewState.LOTS && (
+              <Lots 
+                products={products}
+                stockMovements={stockMovements}
+                locationSettings={settings.locations}
+                currentUser={currentUser}
+                onRecordMovement={handleRecordMovement}
+              />
+            )}
+            {currentView === ViewState.TRANSFERS && can(currentUser, 'MANAGE_PRODUCTS') && (
+              <Transfers 
+                products={products}
+                stockMovements={stockMovements}
+                transfers={transfers}
+                locationSettings={settings.locations}
+                onCreateTransfer={handleCreateTransfer}
+              />
+            )}
+            {currentView === ViewState.STOCK_COUNTS && (
+              <StockCounts 
+                products={products}
+                stockCounts={stockCounts}
+                locationSettings={settings.locations}
+                onStartCount={handleStartStockCount}
+                onSaveCount={handleSaveStockCount}
+                onPostCount={handlePostStockCount}
+              />
+            )}
+            {currentView === ViewState.PROMOTIONS && (
+              <Promotions 
+                products={products}
+                promotions={promotions}
+                currentUser={currentUser}
+                onSavePromotion={handleSavePromotion}
+                onDeletePromotion={handleDeletePromotion}
               />
             )}
             {currentView === ViewState.ANALYTICS && (
@@ -192,6 +864,29 @@ const App: React.FC = () => {
                 invoices={invoices}
               />
             )}
+            {currentView === ViewState.REPORTS && (
+              <Reports 
+                products={products}
+                invoices={invoices}
+                stockCounts={stockCounts}
+                customers={customers}
+                customerPayments={customerPayments}
+                settings={settings}
+              />
+            )}
+            {currentView === ViewState.SETTINGS && can(currentUser, 'MANAGE_SETTINGS') && (
+              <Settings 
+                products={products}
+                stockMovements={stockMovements}
+                settings={settings}
+                onUpdateSettings={handleUpdateSettings}
+                backupData={backupData}
+                onRestoreBackup={handleRestoreBackup}
+                users={users}
+                currentUser={currentUser}
+                onSaveUser={handleSaveUser}
+              />
+            )}
           </div>
         </div>
       </main>
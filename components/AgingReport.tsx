@@ -0,0 +1,91 @@
+import React from 'react';
+import { Customer, CustomerPayment, Invoice } from '../types';
+import { AGING_BUCKETS, buildAgingReport } from '../services/customers';
+
+interface AgingReportProps {
+  customers: Customer[];
+  invoices: Invoice[];
+  customerPayments: CustomerPayment[];
+}
+
+const BUCKET_COLORS = ['text-gray-700', 'text-amber-600', 'text-orange-600', 'text-red-600'];
+
+const AgingReport: React.FC<AgingReportProps> = ({ customers, invoices, customerPayments }) => {
+  const rows = buildAgingReport(customers, invoices, customerPayments);
+  const totals = AGING_BUCKETS.map((_, i) => rows.reduce((sum, row) => sum + row.buckets[i], 0));
+  const total = totals.reduce((sum, t) => sum + t, 0);
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100 text-center text-gray-400 animate-fade-in">
+        Ningún cliente tiene deuda pendiente.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {AGING_BUCKETS.map((label, i) => (
+          <div key={label} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className={`text-xl font-bold ${BUCKET_COLORS[i]}`}>${totals[i].toLocaleString()}</p>
+            <p className="text-xs text-gray-400">{total > 0 ? `${(totals[i] / total * 100).toFixed(1)}%` : '-'}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Cliente</th>
+                {AGING_BUCKETS.map(label => (
+                  <th key={label} className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">{label}</th>
+                ))}
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Más antigua</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.customer.id}>
+                  <td className="px-6 py-3 text-gray-700">
+                    {row.customer.name}
+                    {row.customer.phone && <div className="text-xs text-gray-400">{row.customer.phone}</div>}
+                  </td>
+                  {row.buckets.map((amount, i) => (
+                    <td key={i} className={`px-6 py-3 text-right ${amount > 0 ? BUCKET_COLORS[i] : 'text-gray-300'}`}>
+                      {amount > 0 ? `$${amount.toLocaleString()}` : '-'}
+                    </td>
+                  ))}
+                  <td className="px-6 py-3 text-right font-medium text-gray-800">
+                    ${row.balance.toLocaleString()}
+                    {row.overLimit && <div className="text-xs font-normal text-red-600">Sobre el límite</div>}
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-600">{row.oldestDays} días</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50 border-t border-gray-200 font-medium">
+              <tr>
+                <td className="px-6 py-3 text-gray-700">Total</td>
+                {totals.map((amount, i) => (
+                  <td key={i} className="px-6 py-3 text-right text-gray-800">${amount.toLocaleString()}</td>
+                ))}
+                <td className="px-6 py-3 text-right text-gray-900">${total.toLocaleString()}</td>
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400">
+        Los abonos se aplican a las compras fiadas más antiguas; lo que queda pendiente se agrupa por la fecha de la compra.
+      </p>
+    </div>
+  );
+};
+
+export default AgingReport;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { BackupArchive, BackupData, RestoreMode, createBackup, diffBackup, downloadBackup, parseBackup } from '../services/backup';
+import { Download, Upload, X, AlertTriangle, ShieldCheck, Loader2 } from 'lucide-react';
+
+interface BackupRestoreProps {
+  data: BackupData;
+  onRestore: (data: BackupData, mode: RestoreMode) => Promise<string | undefined>;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ data, onRestore }) => {
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const diff = archive ? diffBackup(archive.data, data) : [];
+
+  const handleDownload = async () => {
+    downloadBackup(await createBackup(data));
+    setMessage('Respaldo descargado.');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage('');
+    const parsed = await parseBackup(await file.text());
+    setErrors(parsed.errors);
+    setArchive(parsed.archive || null);
+    setMode('MERGE');
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setIsRestoring(true);
+    try {
+      const error = await onRestore(archive.data, mode);
+      setArchive(null);
+      if (error) setErrors([error]);
+      else setMessage('Respaldo restaurado correctamente.');
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setErrors(['No se pudo restaurar el respaldo. Los datos actuales no se modificaron.']);
+    }
+    setIsRestoring(false);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+        <ShieldCheck size={20} className="text-gray-400" />
+        Respaldo
+      </h3>
+      <p className="text-sm text-gray-500">
+        Descarga todos los datos del local (productos, facturas, kardex, promociones, caja, proveedores, órdenes de compra, traslados, tomas de inventario, usuarios, clientes, abonos, puntos y configuración) en un solo archivo para llevarlos a otro equipo o recuperarte de un error.
+      </p>
+      <p className="text-sm text-amber-700 flex items-start gap-2">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        El archivo incluye el hash del PIN de cada usuario, y con él un PIN de 4 a 6 dígitos se adivina en segundos. Guárdalo donde solo tengan acceso los dueños.
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleDownload}
+          className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+        >
+          <Download size={18} />
+          Descargar respaldo
+        </button>
+        <label className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors cursor-pointer">
+          <Upload size={18} />
+          Restaurar desde archivo
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      {message && <p className="text-sm text-emerald-600">{message}</p>}
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+          {errors.map((error, i) => <p key={i}>{error}</p>)}
+        </div>
+      )}
+
+      {archive && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">Restaurar respaldo</h3>
+              <button onClick={() => setArchive(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Respaldo del {new Date(archive.createdAt).toLocaleString('es-CL')}. Suma de verificación correcta.
+              </p>
+
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Datos</th>
+                    <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Nuevos</th>
+                    <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Modificados</th>
+                    <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Iguales</th>
+                    <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Solo en este equipo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {diff.map(row => (
+                    <tr key={row.key}>
+                      <td className="px-4 py-2 text-gray-700">{row.label}</td>
+                      <td className="px-4 py-2 text-right text-green-600">{row.added}</td>
+                      <td className="px-4 py-2 text-right text-blue-600">{row.changed}</td>
+                      <td className="px-4 py-2 text-right text-gray-500">{row.unchanged}</td>
+                      <td className={`px-4 py-2 text-right ${mode === 'REPLACE' && row.removed > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {row.removed}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className={`p-3 rounded-lg border cursor-pointer ${mode === 'MERGE' ? 'border-emerald-500 bg-emerald-50' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2 font-medium text-gray-800">
+                    <input type="radio" checked={mode === 'MERGE'} onChange={() => setMode('MERGE')} className="accent-emerald-600" />
+                    Combinar
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Agrega lo nuevo y sobrescribe por id lo modificado. Conserva los datos que solo existen aquí y la configuración actual.</p>
+                </label>
+                <label className={`p-3 rounded-lg border cursor-pointer ${mode === 'REPLACE' ? 'border-red-500 bg-red-50' : 'border-gray-200'}`}>
+                  <div className="flex items-center gap-2 font-medium text-gray-800">
+                    <input type="radio" checked={mode === 'REPLACE'} onChange={() => setMode('REPLACE')} className="accent-red-600" />
+                    Reemplazar todo
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Borra los datos de este equipo y deja exactamente lo que trae el respaldo, incluida la configuración.</p>
+                </label>
+              </div>
+
+              {mode === 'REPLACE' && (
+                <div className="p-3 border rounded-lg text-sm flex items-center gap-2 bg-amber-50 border-amber-200 text-amber-800">
+                  <AlertTriangle size={16} />
+                  Descarga un respaldo de los datos actuales antes de reemplazarlos.
+                </div>
+              )}
+
+              <div className="pt-2 flex justify-end gap-3">
+                <button
+                  onClick={() => setArchive(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={isRestoring}
+                  className={`px-4 py-2 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2 disabled:opacity-50 ${
+                    mode === 'REPLACE' ? 'bg-red-600 hover:bg-red-700' : 'bg-emerald-600 hover:bg-emerald-700'
+                  }`}
+                >
+                  {isRestoring && <Loader2 size={18} className="animate-spin" />}
+                  {mode === 'REPLACE' ? 'Reemplazar datos' : 'Combinar datos'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupRestore;
@@ -1,71 +1,365 @@
 
 import React, { useState } from 'react';
-import { Product, Invoice, InvoiceItem, InvoiceType } from '../types';
-import { Plus, Trash2, ShoppingCart, Truck, CheckCircle } from 'lucide-react';
+import { Product, ProductPack, Invoice, InvoiceType, StoreSettings, Promotion, Discount, DiscountType, CashSession, Payment, PaymentMethod, Supplier, InvoiceItem, StockMovement, UserAccount, Customer, CustomerPayment, LoyaltyEntry } from '../types';
+import { canVoid, formatFolio, isVoided, nextFolio, shortId } from '../services/invoices';
+import { checkStock, checkCartStock, StockCheckSeverity } from '../services/stockPolicy';
+import { findByCode, parseScanInput } from '../services/productCodes';
+import { UNIT_SYMBOLS, describeItemQuantity, formatQuantity, getUnit, isValidQuantity, quantityStep, roundQuantity, toBaseQuantity } from '../services/units';
+import { formatRate, pricesIncludeTax, summarizeItems, summarizeSubtotal } from '../services/tax';
+import { CartLine, describeDiscount, priceCart } from '../services/pricing';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, settlePayments } from '../services/cashRegister';
+import { getSupplierCatalog } from '../services/suppliers';
+import { componentDemand, isKit, kitAvailability } from '../services/kits';
+import { findNegativeBalances, getLocationBalances, productsAtLocation } from '../services/locations';
+import { can } from '../services/users';
+import { accountAmount, checkCredit, getCustomerBalances } from '../services/customers';
+import { getPointsBalance, pointsEarned, pointsForAmount, pointsValue } from '../services/loyalty';
+import ReceiptModal from './ReceiptModal';
+import { Plus, Trash2, ShoppingCart, Truck, CheckCircle, Ban, X, AlertTriangle, Barcode, Percent, Tag, Wallet, Printer } from 'lucide-react';
 
 interface BillingProps {
   products: Product[];
   invoices: Invoice[];
+  stockMovements: StockMovement[];
+  settings: StoreSettings;
+  promotions: Promotion[];
+  suppliers: Supplier[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  loyaltyEntries: LoyaltyEntry[];
+  cashSession?: CashSession;
+  currentUser: UserAccount;
   onAddInvoice: (invoice: Invoice) => void;
+  onVoidInvoice: (invoiceId: string, reason: string) => void;
 }
 
-const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) => {
+interface StockNotice {
+  severity: StockCheckSeverity;
+  message: string;
+}
+
+const NOTICE_STYLES: Record<StockCheckSeverity, string> = {
+  OK: '',
+  ERROR: 'bg-red-50 border-red-200 text-red-700',
+  WARNING: 'bg-amber-50 border-amber-200 text-amber-800',
+  BACKORDER: 'bg-blue-50 border-blue-200 text-blue-700',
+};
+
+const TYPE_BADGES: Record<InvoiceType, { label: string; className: string }> = {
+  SALE: { label: 'VENTA', className: 'bg-blue-100 text-blue-700' },
+  PURCHASE: { label: 'COMPRA', className: 'bg-orange-100 text-orange-700' },
+  CREDIT_NOTE: { label: 'NOTA CRÉDITO', className: 'bg-gray-200 text-gray-700' },
+};
+
+interface DiscountInputProps {
+  discount?: Discount;
+  onChange: (discount: Discount | undefined) => void;
+}
+
+// Percentage or fixed-amount discount editor; an empty value removes the discount
+const DiscountInput: React.FC<DiscountInputProps> = ({ discount, onChange }) => {
+  const type: DiscountType = discount?.type || 'PERCENT';
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={type}
+        onChange={e => onChange({ type: e.target.value as DiscountType, value: discount?.value || 0 })}
+        className="px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+      >
+        <option value="PERCENT">%</option>
+        <option value="AMOUNT">$</option>
+      </select>
+      <input
+        type="number"
+        min="0"
+        max={type === 'PERCENT' ? 100 : undefined}
+        value={discount?.value || ''}
+        placeholder="0"
+        onChange={e => onChange(e.target.value === '' ? undefined : { type, value: Number(e.target.value) })}
+        className="w-24 px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+      />
+    </div>
+  );
+};
+
+const Billing: React.FC<BillingProps> = ({ products, invoices, stockMovements, settings, promotions, suppliers, customers, customerPayments, loyaltyEntries, cashSession, currentUser, onAddInvoice, onVoidInvoice }) => {
   const [activeTab, setActiveTab] = useState<'NEW' | 'HISTORY'>('NEW');
   const [invoiceType, setInvoiceType] = useState<InvoiceType>('SALE');
+  const [supplierId, setSupplierId] = useState('');
+  const [customerId, setCustomerId] = useState('');
+  const [locationId, setLocationId] = useState(settings.locations.saleLocationId);
   const [selectedProduct, setSelectedProduct] = useState<string>('');
+  const [selectedPackId, setSelectedPackId] = useState('');
   const [currentQty, setCurrentQty] = useState<number>(1);
-  const [currentItems, setCurrentItems] = useState<InvoiceItem[]>([]);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [invoiceDiscount, setInvoiceDiscount] = useState<Discount | undefined>(undefined);
+  const [discountEditId, setDiscountEditId] = useState<string | null>(null);
+  const [scanInput, setScanInput] = useState('');
+  const [stockNotices, setStockNotices] = useState<StockNotice[]>([]);
+  const [tenders, setTenders] = useState<Payment[]>([{ method: 'CASH', amount: 0 }]);
+  const [voidingInvoice, setVoidingInvoice] = useState<Invoice | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [receiptInvoice, setReceiptInvoice] = useState<Invoice | null>(null);
+  const [lotInputs, setLotInputs] = useState<Record<string, { lot: string; expiryDate: string }>>({});
 
-  const handleAddItem = () => {
-    const product = products.find(p => p.id === selectedProduct);
-    if (!product) return;
+  // Purchases default to the last cost paid to the selected supplier
+  const supplier = invoiceType === 'PURCHASE' ? suppliers.find(s => s.id === supplierId) : undefined;
+  const supplierCosts = new Map<string, number>();
+  if (supplier) {
+    getSupplierCatalog(supplier, products, invoices).forEach(entry => {
+      if (entry.lastCost !== undefined) supplierCosts.set(entry.product.id, entry.lastCost);
+    });
+  }
+  const purchaseCost = (product: Product) => supplierCosts.get(product.id) ?? product.cost;
+
+  const customer = invoiceType === 'SALE' ? customers.find(c => c.id === customerId) : undefined;
+  const customerBalances = getCustomerBalances(invoices, customerPayments);
+  const customerPoints = customer ? getPointsBalance(loyaltyEntries, customer.id) : 0;
+
+  // Sales can only take what the selected location holds
+  const locationProducts = productsAtLocation(products, getLocationBalances(stockMovements), locationId);
 
-    const existingItemIndex = currentItems.findIndex(item => item.productId === product.id);
-    const unitPrice = invoiceType === 'SALE' ? product.price : product.cost;
+  // Promotions, discounts and taxes are recalculated from the raw cart on every render
+  const currentItems = priceCart(cart, products, {
+    type: invoiceType === 'SALE' ? 'SALE' : 'PURCHASE',
+    promotions,
+    taxSettings: settings.tax,
+    invoiceDiscount,
+    now: new Date(),
+  });
+
+  const resetCart = () => {
+    setCart([]);
+    setInvoiceDiscount(undefined);
+    setDiscountEditId(null);
+    setStockNotices([]);
+    setTenders([{ method: 'CASH', amount: 0 }]);
+    setLotInputs({});
+  };
+
+  // Adds a product to the cart, merging with an existing line. Quantities in packs are converted to base
+  // units. Returns false if rejected.
+  const addToCart = (product: Product, enteredQuantity: number, pack?: ProductPack): boolean => {
+    if (!(enteredQuantity > 0)) {
+      setStockNotices([{ severity: 'ERROR', message: 'La cantidad debe ser mayor a cero.' }]);
+      return false;
+    }
+    if (pack ? !Number.isInteger(enteredQuantity) : !isValidQuantity(product, enteredQuantity)) {
+      setStockNotices([{ severity: 'ERROR', message: `${product.name} se registra en unidades enteras.` }]);
+      return false;
+    }
+    if (invoiceType === 'PURCHASE' && isKit(product)) {
+      setStockNotices([{ severity: 'ERROR', message: `${product.name} es un kit: registra la compra de sus componentes.` }]);
+      return false;
+    }
+    const quantity = toBaseQuantity(enteredQuantity, pack);
+
+    const existingItemIndex = cart.findIndex(line => line.productId === product.id);
+    const unitPrice = invoiceType === 'SALE' ? product.price : purchaseCost(product);
+
+    // Sales are validated on everything the cart takes from each product, including what is already
+    // in it and the components of kits
+    if (invoiceType === 'SALE') {
+      const demand = componentDemand([...cart, { productId: product.id, quantity }], locationProducts);
+      const checks = (isKit(product) ? product.components!.map(c => c.productId) : [product.id])
+        .map(id => locationProducts.find(p => p.id === id))
+        .filter((p): p is Product => p !== undefined)
+        .map(p => checkStock(p, demand.get(p.id) || 0));
+      const error = checks.find(check => check.severity === 'ERROR');
+      if (error) {
+        setStockNotices([{ severity: error.severity, message: error.message! }]);
+        return false;
+      }
+      setStockNotices(checks.filter(check => check.message).map(check => ({ severity: check.severity, message: check.message! })));
+    } else {
+      setStockNotices([]);
+    }
 
     if (existingItemIndex >= 0) {
-      const updatedItems = [...currentItems];
-      updatedItems[existingItemIndex].quantity += currentQty;
-      updatedItems[existingItemIndex].total = updatedItems[existingItemIndex].quantity * unitPrice;
-      setCurrentItems(updatedItems);
+      const updatedCart = [...cart];
+      const { packName, packFactor, ...line } = updatedCart[existingItemIndex];
+      // A line mixing packs and loose units is shown in base units only
+      const samePack = pack ? packName === pack.name : !packName;
+      updatedCart[existingItemIndex] = {
+        ...line,
+        quantity: roundQuantity(line.quantity + quantity),
+        ...(samePack && packName ? { packName, packFactor } : {}),
+      };
+      setCart(updatedCart);
     } else {
-      setCurrentItems([
-        ...currentItems,
-        {
-          productId: product.id,
-          productName: product.name,
-          quantity: currentQty,
-          unitPrice: unitPrice,
-          total: currentQty * unitPrice
-        }
-      ]);
+      setCart([...cart, { productId: product.id, quantity, unitPrice, ...(pack ? { packName: pack.name, packFactor: pack.factor } : {}) }]);
     }
-    setCurrentQty(1);
-    setSelectedProduct('');
+    return true;
   };
 
-  const handleRemoveItem = (index: number) => {
-    setCurrentItems(currentItems.filter((_, i) => i !== index));
+  // Packs are entered whole; otherwise the product's unit decides whether fractions are allowed
+  const selected = products.find(p => p.id === selectedProduct);
+  const entryUnit = selected && !selectedPackId ? selected : {};
+
+  const handleAddItem = () => {
+    if (!selected) return;
+    if (addToCart(selected, currentQty, selected.packs?.find(p => p.id === selectedPackId))) {
+      setCurrentQty(1);
+      setSelectedProduct('');
+      setSelectedPackId('');
+    }
+  };
+
+  // Keyboard-wedge scanners type the code followed by Enter
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const { code, quantity } = parseScanInput(scanInput);
+    if (!code) return;
+
+    const match = findByCode(products, code);
+    if (!match) {
+      setStockNotices([{ severity: 'ERROR', message: `No hay ningún producto con el código ${code}.` }]);
+    } else {
+      addToCart(match.product, quantity, match.pack);
+    }
+    setScanInput('');
+  };
+
+  const handleRemoveItem = (productId: string) => {
+    setCart(cart.filter(line => line.productId !== productId));
+    setDiscountEditId(null);
+    setStockNotices([]);
+  };
+
+  // Purchases are registered at what the supplier actually charged. Lines entered in packs are priced per
+  // pack and stored per base unit.
+  const handleLineCost = (productId: string, unitPrice: number) => {
+    setCart(cart.map(line => line.productId === productId ? { ...line, unitPrice: Math.max(unitPrice, 0) } : line));
+  };
+
+  const handleLineLot = (productId: string, changes: Partial<{ lot: string; expiryDate: string }>) => {
+    setLotInputs({ ...lotInputs, [productId]: { lot: '', expiryDate: '', ...lotInputs[productId], ...changes } });
+  };
+
+  // Purchase lines carry the lot they bring in
+  const withLot = (item: InvoiceItem): InvoiceItem => {
+    const input = lotInputs[item.productId];
+    if (invoiceType !== 'PURCHASE' || !input) return item;
+    return {
+      ...item,
+      ...(input.lot.trim() ? { lot: input.lot.trim() } : {}),
+      ...(input.expiryDate ? { expiryDate: input.expiryDate } : {}),
+    };
+  };
+
+  const needsExpiry = (productId: string) =>
+    invoiceType === 'PURCHASE' && !!products.find(p => p.id === productId)?.tracksExpiry && !lotInputs[productId]?.expiryDate;
+
+  const handleLineDiscount = (productId: string, discount: Discount | undefined) => {
+    setCart(cart.map(line => line.productId === productId ? { ...line, discount } : line));
+  };
+
+  const updateTender = (index: number, changes: Partial<Payment>) => {
+    setTenders(tenders.map((t, i) => i === index ? { ...t, ...changes } : t));
   };
 
   const handleSaveInvoice = () => {
-    if (currentItems.length === 0) return;
+    if (currentItems.length === 0 || !Number.isFinite(totals.totalAmount)) return;
+    if (invoiceType === 'SALE' && (!cashSession || settlement.error || settlement.remaining > 0 || accountError || pointsError)) return;
+
+    // Stock may have changed since the items were added, so check again before confirming
+    if (invoiceType === 'SALE') {
+      const issues = checkCartStock(currentItems, locationProducts);
+      const errors = issues.filter(i => i.severity === 'ERROR');
+      if (errors.length > 0) {
+        setStockNotices(errors.map(i => ({ severity: i.severity, message: i.message! })));
+        return;
+      }
+      const warnings = issues.filter(i => i.severity === 'WARNING');
+      if (warnings.length > 0 && !confirm(`${warnings.map(i => i.message).join('\n')}\n\n¿Confirmar la venta de todos modos?`)) {
+        return;
+      }
+    }
+
+    if (credit?.exceeded && !confirm(`${credit.message}\n\n¿Fiar de todos modos?`)) return;
+
+    // Perishables can't enter stock without knowing when they expire
+    const missingExpiry = currentItems.filter(item => needsExpiry(item.productId));
+    if (missingExpiry.length > 0) {
+      setStockNotices(missingExpiry.map(item => ({ severity: 'ERROR', message: `Ingresa la fecha de vencimiento de ${item.productName}.` })));
+      return;
+    }
 
-    const totalAmount = currentItems.reduce((sum, item) => sum + item.total, 0);
     const newInvoice: Invoice = {
       id: crypto.randomUUID(),
       type: invoiceType,
       date: new Date().toISOString().split('T')[0],
-      items: currentItems,
-      totalAmount
+      folio: nextFolio(invoices, invoiceType),
+      items: currentItems.map(withLot),
+      ...summarizeItems(currentItems),
+      ...(invoiceDiscount && invoiceDiscount.value > 0 ? { discount: invoiceDiscount } : {}),
+      ...(supplier ? { supplierId: supplier.id } : {}),
+      ...(customer ? { customerId: customer.id } : {}),
+      locationId,
+      ...(invoiceType === 'SALE' && cashSession ? {
+        payments: settlement.payments,
+        cashTendered: settlement.cashTendered,
+        change: settlement.change,
+        cashSessionId: cashSession.id,
+      } : {})
     };
 
     onAddInvoice(newInvoice);
-    setCurrentItems([]);
-    alert(invoiceType === 'SALE' ? 'Venta registrada con éxito' : 'Reposición registrada con éxito');
+    resetCart();
+    setCustomerId('');
+    setReceiptInvoice(newInvoice);
   };
 
-  const totalInvoice = currentItems.reduce((sum, item) => sum + item.total, 0);
+  const handleConfirmVoid = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!voidingInvoice || !voidReason.trim()) return;
+    // Voiding a purchase takes its units back out of where they were received, even if they were sold since
+    const reversal = stockMovements
+      .filter(m => m.invoiceId === voidingInvoice.id)
+      .map(m => ({ ...m, quantity: -m.quantity }));
+    const negatives = findNegativeBalances(reversal, stockMovements, products, settings.locations);
+    if (negatives.length > 0 && !confirm(`El stock quedaría negativo:\n${negatives.join('\n')}\n\n¿Anular de todos modos?`)) return;
+    onVoidInvoice(voidingInvoice.id, voidReason.trim());
+    setVoidingInvoice(null);
+    setVoidReason('');
+  };
+
+  const totals = summarizeItems(currentItems);
+  const { subtotal, discountAmount } = summarizeSubtotal(currentItems);
+
+  // A single payment row left blank means the exact total with that method
+  const effectiveTenders = tenders.length === 1 && !tenders[0].amount
+    ? [{ ...tenders[0], amount: totals.totalAmount }]
+    : tenders;
+  const settlement = settlePayments(totals.totalAmount, effectiveTenders);
+
+  // Whatever is left on account is added to the customer's balance
+  const onAccount = accountAmount(settlement.payments);
+  const accountError = onAccount > 0 && !customer ? 'Selecciona el cliente para vender fiado.' : undefined;
+  const paidWithPoints = settlement.payments.filter(p => p.method === 'POINTS').reduce((sum, p) => sum + p.amount, 0);
+  const pointsError = paidWithPoints <= 0 ? undefined
+    : !customer ? 'Selecciona el cliente para pagar con puntos.'
+    : pointsForAmount(paidWithPoints, settings.loyalty) > customerPoints
+      ? `${customer.name} tiene ${customerPoints.toLocaleString()} puntos, que valen $${pointsValue(customerPoints, settings.loyalty).toLocaleString()}.`
+      : undefined;
+  const pointsToEarn = customer ? pointsEarned(currentItems, totals.totalAmount, paidWithPoints, products, settings.loyalty) : 0;
+  const credit = customer && onAccount > 0 ? checkCredit(customer, customerBalances.get(customer.id) || 0, onAccount) : undefined;
+
+  // Tax grouped by rate for the summary card
+  const taxByRate = new Map<number, number>();
+  currentItems.forEach(item => {
+    const rate = item.taxRate ?? 0;
+    taxByRate.set(rate, (taxByRate.get(rate) || 0) + (item.taxAmount ?? 0));
+  });
+
+  const supplierName = (id: string) => suppliers.find(s => s.id === id)?.name || 'Proveedor eliminado';
+  const customerName = (id: string) => customers.find(c => c.id === id)?.name || 'Cliente eliminado';
+
+  const folioOf = (id: string) => {
+    const invoice = invoices.find(i => i.id === id);
+    return invoice ? formatFolio(invoice) : shortId(id);
+  };
 
   // Sort invoices reverse chronologically
   const sortedHistory = [...invoices].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -101,7 +395,7 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
             <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
               <div className="flex gap-4 mb-6">
                 <button
-                  onClick={() => { setInvoiceType('SALE'); setCurrentItems([]); }}
+                  onClick={() => { setInvoiceType('SALE'); setLocationId(settings.locations.saleLocationId); resetCart(); }}
                   className={`flex-1 py-3 px-4 rounded-xl border-2 flex items-center justify-center gap-2 transition-all ${
                     invoiceType === 'SALE' 
                       ? 'border-blue-500 bg-blue-50 text-blue-700 font-bold' 
@@ -112,7 +406,7 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
                   Registrar Venta
                 </button>
                 <button
-                  onClick={() => { setInvoiceType('PURCHASE'); setCurrentItems([]); }}
+                  onClick={() => { setInvoiceType('PURCHASE'); setLocationId(settings.locations.receivingLocationId); resetCart(); }}
                   className={`flex-1 py-3 px-4 rounded-xl border-2 flex items-center justify-center gap-2 transition-all ${
                     invoiceType === 'PURCHASE' 
                       ? 'border-orange-500 bg-orange-50 text-orange-700 font-bold' 
@@ -124,27 +418,122 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
                 </button>
               </div>
 
+              {invoiceType === 'PURCHASE' && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Proveedor</label>
+                  <select
+                    value={supplierId}
+                    onChange={(e) => { setSupplierId(e.target.value); resetCart(); }}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  >
+                    <option value="">Sin proveedor</option>
+                    {suppliers.map(s => (
+                      <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
+                  </select>
+                  {supplier && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Los costos sugeridos son los de la última compra a {supplier.name}. Entrega en {supplier.leadTimeDays} días.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {invoiceType === 'SALE' && customers.some(c => c.active) && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                  <select
+                    value={customerId}
+                    onChange={(e) => setCustomerId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  >
+                    <option value="">Sin cliente</option>
+                    {customers.filter(c => c.active || c.id === customerId).map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                  {customer && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Debe ${(customerBalances.get(customer.id) || 0).toLocaleString()}
+                      {customer.creditLimit !== undefined ? ` de un límite de $${customer.creditLimit.toLocaleString()}` : ' · Sin límite de crédito'}
+                      {customerPoints > 0 && ` · ${customerPoints.toLocaleString()} puntos ($${pointsValue(customerPoints, settings.loyalty).toLocaleString()})`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {settings.locations.locations.length > 1 && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {invoiceType === 'SALE' ? 'Vender desde' : 'Recibir en'}
+                  </label>
+                  <select
+                    value={locationId}
+                    onChange={(e) => { setLocationId(e.target.value); setStockNotices([]); }}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  >
+                    {settings.locations.locations.map(l => (
+                      <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Escanear código</label>
+                <div className="relative">
+                  <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+                  <input
+                    autoFocus
+                    type="text"
+                    value={scanInput}
+                    placeholder="Código de barras o SKU + Enter (ej: 3*7801000000075)"
+                    onChange={(e) => setScanInput(e.target.value)}
+                    onKeyDown={handleScanKeyDown}
+                    className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-lg font-mono focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none"
+                  />
+                </div>
+              </div>
+
               <div className="flex flex-col sm:flex-row gap-4 items-end">
                 <div className="flex-1 w-full">
                   <label className="block text-sm font-medium text-gray-700 mb-1">Producto</label>
                   <select
                     value={selectedProduct}
-                    onChange={(e) => setSelectedProduct(e.target.value)}
+                    onChange={(e) => { setSelectedProduct(e.target.value); setSelectedPackId(''); }}
                     className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                   >
                     <option value="">Seleccionar producto...</option>
-                    {products.map(p => (
+                    {locationProducts.filter(p => invoiceType === 'SALE' || !isKit(p)).map(p => (
                       <option key={p.id} value={p.id}>
-                        {p.name} - Stock: {p.currentStock} - ${invoiceType === 'SALE' ? p.price : p.cost}
+                        {p.name} - {isKit(p) ? `Kit: ${kitAvailability(p, locationProducts)} disponibles` : `Stock: ${formatQuantity(p.currentStock, getUnit(p))}`} - ${invoiceType === 'SALE' ? p.price : purchaseCost(p)}
                       </option>
                     ))}
                   </select>
                 </div>
+                {selected?.packs && selected.packs.length > 0 && (
+                  <div className="w-full sm:w-40">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Empaque</label>
+                    <select
+                      value={selectedPackId}
+                      onChange={(e) => setSelectedPackId(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                    >
+                      <option value="">Unidad</option>
+                      {selected.packs.map(pack => (
+                        <option key={pack.id} value={pack.id}>{pack.name} (x{pack.factor})</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div className="w-full sm:w-32">
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Cantidad</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Cantidad{selected && !selectedPackId && getUnit(selected) !== 'UNIT' ? ` (${UNIT_SYMBOLS[getUnit(selected)]})` : ''}
+                  </label>
                   <input
                     type="number"
-                    min="1"
+                    min={quantityStep(entryUnit)}
+                    step={quantityStep(entryUnit)}
                     value={currentQty}
                     onChange={(e) => setCurrentQty(Number(e.target.value))}
                     className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
@@ -159,6 +548,17 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
                   Agregar
                 </button>
               </div>
+
+              {stockNotices.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {stockNotices.map((notice, i) => (
+                    <div key={i} className={`p-3 border rounded-lg text-sm flex items-center gap-2 ${NOTICE_STYLES[notice.severity]}`}>
+                      <AlertTriangle size={16} />
+                      {notice.message}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Current Items List */}
@@ -169,27 +569,104 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
                     <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Producto</th>
                     <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Cant.</th>
                     <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Unit.</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Desc.</th>
                     <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
                     <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {currentItems.map((item, index) => (
-                    <tr key={index}>
-                      <td className="px-6 py-4 font-medium text-gray-800">{item.productName}</td>
-                      <td className="px-6 py-4 text-right text-gray-600">{item.quantity}</td>
-                      <td className="px-6 py-4 text-right text-gray-600">${item.unitPrice.toLocaleString()}</td>
-                      <td className="px-6 py-4 text-right font-medium text-gray-900">${item.total.toLocaleString()}</td>
-                      <td className="px-6 py-4 text-right">
-                        <button onClick={() => handleRemoveItem(index)} className="text-red-400 hover:text-red-600">
-                          <Trash2 size={18} />
-                        </button>
-                      </td>
-                    </tr>
+                  {currentItems.map((item) => (
+                    <React.Fragment key={item.productId}>
+                      <tr>
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-800">{item.productName}</div>
+                          {item.components && (
+                            <div className="text-xs text-gray-400">
+                              Incluye: {item.components.map(c => `${c.quantity} ${c.productName}`).join(', ')}
+                            </div>
+                          )}
+                          {invoiceType === 'PURCHASE' && (
+                            <div className="flex gap-2 mt-1">
+                              <input
+                                type="text"
+                                placeholder="Lote"
+                                value={lotInputs[item.productId]?.lot || ''}
+                                onChange={e => handleLineLot(item.productId, { lot: e.target.value })}
+                                className="w-24 px-2 py-1 border border-gray-200 rounded-md text-xs outline-none focus:ring-2 focus:ring-emerald-500"
+                              />
+                              <input
+                                type="date"
+                                title="Fecha de vencimiento"
+                                value={lotInputs[item.productId]?.expiryDate || ''}
+                                onChange={e => handleLineLot(item.productId, { expiryDate: e.target.value })}
+                                className={`px-2 py-1 border rounded-md text-xs outline-none focus:ring-2 focus:ring-emerald-500 ${
+                                  needsExpiry(item.productId) ? 'border-red-300' : 'border-gray-200'
+                                }`}
+                              />
+                            </div>
+                          )}
+                          {item.promotionName && (
+                            <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-pink-700">
+                              <Tag size={12} /> {item.promotionName}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right text-gray-600">{describeItemQuantity(item)}</td>
+                        <td className="px-6 py-4 text-right text-gray-600">
+                          {invoiceType === 'PURCHASE' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              value={Math.round(item.unitPrice * (item.packFactor || 1))}
+                              title={item.packName ? `Costo por ${item.packName}` : 'Costo unitario'}
+                              onChange={e => handleLineCost(item.productId, Number(e.target.value) / (item.packFactor || 1))}
+                              className="w-24 px-2 py-1 border border-gray-200 rounded-md text-sm text-right outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                          ) : (
+                            `$${item.unitPrice.toLocaleString()}`
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <button
+                            onClick={() => setDiscountEditId(discountEditId === item.productId ? null : item.productId)}
+                            title="Descuento de línea"
+                            className={`inline-flex items-center gap-1 text-sm ${item.discountAmount ? 'text-pink-600 font-medium' : 'text-gray-400 hover:text-gray-600'}`}
+                          >
+                            {item.discountAmount ? `-$${item.discountAmount.toLocaleString()}` : <Percent size={16} />}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 text-right font-medium text-gray-900">
+                          <div>${item.total.toLocaleString()}</div>
+                          {item.taxRate !== undefined && (
+                            <div className="text-xs font-normal text-gray-400">
+                              {item.taxRate === 0 ? 'Exento' : `IVA ${formatRate(item.taxRate)}: $${(item.taxAmount ?? 0).toLocaleString()}`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <button onClick={() => handleRemoveItem(item.productId)} className="text-red-400 hover:text-red-600">
+                            <Trash2 size={18} />
+                          </button>
+                        </td>
+                      </tr>
+                      {discountEditId === item.productId && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-6 py-3">
+                            <div className="flex items-center justify-end gap-3 text-sm text-gray-600">
+                              <span>Descuento manual{item.manualDiscount ? ` (${describeDiscount(item.manualDiscount)})` : ''}:</span>
+                              <DiscountInput
+                                discount={item.manualDiscount}
+                                onChange={discount => handleLineDiscount(item.productId, discount)}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   ))}
                   {currentItems.length === 0 && (
                     <tr>
-                      <td colSpan={5} className="px-6 py-12 text-center text-gray-400">
+                      <td colSpan={6} className="px-6 py-12 text-center text-gray-400">
                         No hay items agregados.
                       </td>
                     </tr>
@@ -206,22 +683,117 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
             <div className="space-y-3 mb-8">
               <div className="flex justify-between text-gray-600">
                 <span>Items</span>
-                <span>{currentItems.reduce((acc, i) => acc + i.quantity, 0)}</span>
+                <span>{roundQuantity(currentItems.reduce((acc, i) => acc + i.quantity, 0))}</span>
               </div>
               <div className="flex justify-between text-gray-600">
                 <span>Subtotal</span>
-                <span>${totalInvoice.toLocaleString()}</span>
+                <span>${subtotal.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center text-gray-600">
+                <span>Dcto. general</span>
+                <DiscountInput discount={invoiceDiscount} onChange={setInvoiceDiscount} />
               </div>
+              {discountAmount > 0 && (
+                <div className="flex justify-between text-pink-600">
+                  <span>Descuentos</span>
+                  <span>-${discountAmount.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-gray-600">
+                <span>Neto</span>
+                <span>${totals.netAmount.toLocaleString()}</span>
+              </div>
+              {Array.from(taxByRate.entries()).sort((a, b) => b[0] - a[0]).map(([rate, amount]) => (
+                <div key={rate} className="flex justify-between text-gray-600">
+                  <span>{rate === 0 ? 'Exento' : `IVA ${formatRate(rate)}`}</span>
+                  <span>${amount.toLocaleString()}</span>
+                </div>
+              ))}
               <div className="h-px bg-gray-200 my-2"></div>
               <div className="flex justify-between text-xl font-bold text-gray-900">
                 <span>Total</span>
-                <span>${totalInvoice.toLocaleString()}</span>
+                <span>${totals.totalAmount.toLocaleString()}</span>
               </div>
+              <p className="text-xs text-gray-400">
+                {invoiceType === 'SALE' ? 'Precios' : 'Costos'} {pricesIncludeTax(invoiceType === 'SALE' ? 'SALE' : 'PURCHASE', settings.tax) ? 'con' : 'sin'} impuesto incluido
+              </p>
             </div>
 
+            {invoiceType === 'SALE' && (
+              <div className="mb-6 space-y-3">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-sm font-semibold text-gray-600 uppercase tracking-wide flex items-center gap-2">
+                    <Wallet size={16} /> Pago
+                  </h4>
+                  <button
+                    onClick={() => setTenders([...tenders, { method: 'DEBIT', amount: settlement.remaining }])}
+                    className="text-xs text-emerald-700 hover:text-emerald-800 flex items-center gap-1"
+                  >
+                    <Plus size={14} /> Dividir pago
+                  </button>
+                </div>
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={tender.method}
+                      onChange={e => updateTender(index, { method: e.target.value as PaymentMethod })}
+                      className="flex-1 px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      {PAYMENT_METHODS.map(method => (
+                        <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      value={tender.amount || ''}
+                      placeholder={tenders.length === 1 ? totals.totalAmount.toString() : '0'}
+                      onChange={e => updateTender(index, { amount: Number(e.target.value) })}
+                      className="w-28 px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                    {tenders.length > 1 && (
+                      <button onClick={() => setTenders(tenders.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-600">
+                        <X size={16} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {settlement.remaining > 0 && currentItems.length > 0 && (
+                  <div className="flex justify-between text-sm text-red-600">
+                    <span>Falta por pagar</span>
+                    <span>${settlement.remaining.toLocaleString()}</span>
+                  </div>
+                )}
+                {settlement.change > 0 && (
+                  <div className="flex justify-between text-lg font-bold text-emerald-700">
+                    <span>Vuelto</span>
+                    <span>${settlement.change.toLocaleString()}</span>
+                  </div>
+                )}
+                {settlement.error && <p className="text-sm text-red-600">{settlement.error}</p>}
+                {accountError && <p className="text-sm text-red-600">{accountError}</p>}
+                {pointsError && <p className="text-sm text-red-600">{pointsError}</p>}
+                {pointsToEarn > 0 && (
+                  <p className="text-sm text-emerald-700">Esta venta suma {pointsToEarn.toLocaleString()} puntos a {customer!.name}.</p>
+                )}
+                {credit?.exceeded && (
+                  <div className="p-3 border rounded-lg text-sm flex items-center gap-2 bg-amber-50 border-amber-200 text-amber-800">
+                    <AlertTriangle size={16} />
+                    {credit.message}
+                  </div>
+                )}
+                {!cashSession && (
+                  <div className="p-3 border rounded-lg text-sm flex items-center gap-2 bg-amber-50 border-amber-200 text-amber-800">
+                    <AlertTriangle size={16} />
+                    No hay una caja abierta. Ábrela en la sección Caja para registrar ventas.
+                  </div>
+                )}
+              </div>
+            )}
+
             <button
               onClick={handleSaveInvoice}
-              disabled={currentItems.length === 0}
+              disabled={currentItems.length === 0 || !Number.isFinite(totals.totalAmount) || (invoiceType === 'SALE' && (!cashSession || !!settlement.error || settlement.remaining > 0 || !!accountError || !!pointsError))}
               className={`w-full py-4 rounded-xl flex items-center justify-center gap-2 font-bold text-white shadow-lg transition-all ${
                 invoiceType === 'SALE' 
                   ? 'bg-blue-600 hover:bg-blue-700 shadow-blue-200' 
@@ -245,28 +817,78 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase">Tipo</th>
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase">Detalle</th>
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase"></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {sortedHistory.map((inv) => (
-                <tr key={inv.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 text-gray-600">{inv.date}</td>
+                <tr key={inv.id} className={`hover:bg-gray-50 ${isVoided(inv) ? 'opacity-60' : ''}`}>
+                  <td className="px-6 py-4 text-gray-600">
+                    <div>{inv.date}</div>
+                    <div className="text-xs font-mono text-gray-400">#{formatFolio(inv)}</div>
+                  </td>
                   <td className="px-6 py-4">
-                    <span className={`px-2 py-1 rounded-full text-xs font-bold ${
-                      inv.type === 'SALE' ? 'bg-blue-100 text-blue-700' : 'bg-orange-100 text-orange-700'
-                    }`}>
-                      {inv.type === 'SALE' ? 'VENTA' : 'COMPRA'}
+                    <span className={`px-2 py-1 rounded-full text-xs font-bold ${TYPE_BADGES[inv.type].className}`}>
+                      {TYPE_BADGES[inv.type].label}
                     </span>
+                    {isVoided(inv) && (
+                      <span className="ml-1 px-2 py-1 rounded-full text-xs font-bold bg-red-100 text-red-700">ANULADA</span>
+                    )}
                   </td>
                   <td className="px-6 py-4">
-                    <div className="text-sm text-gray-800">
+                    <div className={`text-sm text-gray-800 ${isVoided(inv) ? 'line-through' : ''}`}>
                       {inv.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}
                     </div>
+                    {inv.supplierId && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Proveedor: {supplierName(inv.supplierId)}{inv.purchaseOrderId && inv.notes ? ` · ${inv.notes}` : ''}
+                      </div>
+                    )}
+                    {inv.customerId && (
+                      <div className="text-xs text-gray-500 mt-1">Cliente: {customerName(inv.customerId)}</div>
+                    )}
+                    {inv.userName && (
+                      <div className="text-xs text-gray-400 mt-1">Emitida por {inv.userName}</div>
+                    )}
+                    {inv.payments && inv.payments.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {inv.type === 'CREDIT_NOTE' ? 'Devolución' : 'Pago'}: {inv.payments.map(p => `${PAYMENT_METHOD_LABELS[p.method]} $${p.amount.toLocaleString()}`).join(' + ')}
+                        {inv.change ? ` · Vuelto $${inv.change.toLocaleString()}` : ''}
+                      </div>
+                    )}
+                    {inv.creditNoteId && (
+                      <div className="text-xs text-red-600 mt-1">
+                        Anulada por nota de crédito #{folioOf(inv.creditNoteId)}{inv.voidReason ? ` — ${inv.voidReason}` : ''}
+                      </div>
+                    )}
+                    {inv.originalInvoiceId && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Anula {TYPE_BADGES[invoices.find(i => i.id === inv.originalInvoiceId)?.type || 'SALE'].label.toLowerCase()} #{folioOf(inv.originalInvoiceId)}
+                      </div>
+                    )}
                   </td>
                   <td className={`px-6 py-4 text-right font-medium ${
-                    inv.type === 'SALE' ? 'text-green-600' : 'text-red-600'
+                    inv.type === 'CREDIT_NOTE' || isVoided(inv) ? 'text-gray-400' : inv.type === 'SALE' ? 'text-green-600' : 'text-red-600'
                   }`}>
-                    {inv.type === 'SALE' ? '+' : '-'}${inv.totalAmount.toLocaleString()}
+                    {inv.type === 'CREDIT_NOTE' ? '' : inv.type === 'SALE' ? '+' : '-'}${inv.totalAmount.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 text-right space-x-2">
+                    <button
+                      onClick={() => setReceiptInvoice(inv)}
+                      title="Reimprimir"
+                      className="text-gray-400 hover:text-gray-700 transition-colors"
+                    >
+                      <Printer size={18} />
+                    </button>
+                    {canVoid(inv) && can(currentUser, 'VOID_INVOICES') && (
+                      <button
+                        onClick={() => { setVoidingInvoice(inv); setVoidReason(''); }}
+                        title="Anular con nota de crédito"
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Ban size={18} />
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -275,6 +897,63 @@ const Billing: React.FC<BillingProps> = ({ products, invoices, onAddInvoice }) =
           </div>
         </div>
       )}
+
+      {receiptInvoice && (
+        <ReceiptModal
+          invoice={receiptInvoice}
+          invoices={invoices}
+          settings={settings.receipt}
+          onClose={() => setReceiptInvoice(null)}
+        />
+      )}
+
+      {voidingInvoice && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">
+                Anular {voidingInvoice.type === 'SALE' ? 'venta' : 'compra'} #{formatFolio(voidingInvoice)}
+              </h3>
+              <button onClick={() => setVoidingInvoice(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleConfirmVoid} className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Se emitirá una nota de crédito por ${voidingInvoice.totalAmount.toLocaleString()} y se
+                {voidingInvoice.type === 'SALE' ? ' devolverán al stock' : ' descontarán del stock'} los productos de esta factura.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                <input
+                  required
+                  type="text"
+                  value={voidReason}
+                  placeholder="Ej: error de digitación"
+                  onChange={e => setVoidReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 outline-none"
+                />
+              </div>
+              <div className="pt-2 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setVoidingInvoice(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <Ban size={18} />
+                  Anular
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { CashSession, CustomerPayment, Invoice } from '../types';
+import { PAYMENT_METHOD_LABELS, getOpenSession, summarizeSession } from '../services/cashRegister';
+import { shortId } from '../services/invoices';
+import PrintArea from './PrintArea';
+import ZReport from './ZReport';
+import { Wallet, Lock, Printer } from 'lucide-react';
+
+interface CashRegisterProps {
+  sessions: CashSession[];
+  invoices: Invoice[];
+  customerPayments: CustomerPayment[];
+  onOpenSession: (openingFloat: number) => void;
+  onCloseSession: (countedCash: number, notes: string) => CashSession | undefined;
+}
+
+const formatDateTime = (iso?: string) => iso ? new Date(iso).toLocaleString('es-CL') : '-';
+
+const CashRegister: React.FC<CashRegisterProps> = ({ sessions, invoices, customerPayments, onOpenSession, onCloseSession }) => {
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
+  const [printingSession, setPrintingSession] = useState<CashSession | null>(null);
+
+  const current = getOpenSession(sessions);
+  const summary = current ? summarizeSession(current, invoices, customerPayments) : null;
+  const difference = summary && countedCash !== '' ? Number(countedCash) - summary.expectedCash : null;
+  const closedSessions = sessions
+    .filter(s => s.status === 'CLOSED')
+    .sort((a, b) => (b.closedAt || '').localeCompare(a.closedAt || ''));
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(openingFloat);
+    if (!(amount >= 0)) return;
+    onOpenSession(amount);
+    setOpeningFloat('');
+  };
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (countedCash === '' || !(Number(countedCash) >= 0)) return;
+    const closed = onCloseSession(Number(countedCash), closingNotes.trim());
+    setCountedCash('');
+    setClosingNotes('');
+    if (closed) setPrintingSession(closed);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Caja</h2>
+
+      {!current && (
+        <form onSubmit={handleOpen} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 max-w-md space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Wallet size={20} className="text-gray-400" />
+            Abrir caja
+          </h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Fondo inicial (efectivo)</label>
+            <input
+              required
+              type="number"
+              min="0"
+              value={openingFloat}
+              onChange={e => setOpeningFloat(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <button
+            type="submit"
+            className="w-full py-3 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors"
+          >
+            Abrir caja
+          </button>
+        </form>
+      )}
+
+      {current && summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-800">Sesión #{shortId(current.id)}</h3>
+                <p className="text-sm text-gray-500">Abierta {formatDateTime(current.openedAt)} por {current.openedBy}</p>
+              </div>
+              <span className="px-2 py-1 rounded-full text-xs font-bold bg-green-100 text-green-700">ABIERTA</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-500">Fondo inicial</p>
+                <p className="font-bold text-gray-800">${current.openingFloat.toLocaleString()}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-500">Ventas ({summary.salesCount})</p>
+                <p className="font-bold text-gray-800">${summary.salesTotal.toLocaleString()}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-gray-50">
+                <p className="text-xs text-gray-500">Devoluciones ({summary.refundsCount})</p>
+                <p className="font-bold text-red-600">-${summary.refundsTotal.toLocaleString()}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-emerald-50">
+                <p className="text-xs text-emerald-700">Efectivo esperado</p>
+                <p className="font-bold text-emerald-800">${summary.expectedCash.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Medio de pago</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Ventas</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Devoluciones</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Abonos</th>
+                  <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase text-right">Neto</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.byMethod.map(m => (
+                  <tr key={m.method}>
+                    <td className="px-4 py-2 text-gray-700">{PAYMENT_METHOD_LABELS[m.method]}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">${m.sales.toLocaleString()}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{m.refunds > 0 ? `-$${m.refunds.toLocaleString()}` : '-'}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{m.collections > 0 ? `$${m.collections.toLocaleString()}` : '-'}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-800">${m.net.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-400">
+              Las ventas fiadas no entran a la caja; los abonos de clientes ({summary.collectionsCount}) sí.
+            </p>
+          </div>
+
+          <form onSubmit={handleClose} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 h-fit space-y-4">
+            <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+              <Lock size={20} className="text-gray-400" />
+              Cerrar caja
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Efectivo contado</label>
+              <input
+                required
+                type="number"
+                min="0"
+                value={countedCash}
+                onChange={e => setCountedCash(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+            {difference !== null && (
+              <div className={`p-3 rounded-lg text-sm font-medium ${
+                difference === 0 ? 'bg-green-50 text-green-700' : difference > 0 ? 'bg-blue-50 text-blue-700' : 'bg-red-50 text-red-700'
+              }`}>
+                {difference === 0 ? 'La caja cuadra.' : `${difference > 0 ? 'Sobrante' : 'Faltante'}: $${Math.abs(difference).toLocaleString()}`}
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Observaciones</label>
+              <textarea
+                value={closingNotes}
+                onChange={e => setClosingNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+            <button
+              type="submit"
+              className="w-full py-3 bg-gray-800 hover:bg-gray-900 text-white rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <Printer size={18} />
+              Cerrar e imprimir Z
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Closed sessions */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <h3 className="text-lg font-bold text-gray-800">Cierres anteriores</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Sesión</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Cierre</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Esperado</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Contado</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Diferencia</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {closedSessions.map(session => (
+                <tr key={session.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3">
+                    <div className="font-mono text-gray-800">#{shortId(session.id)}</div>
+                    <div className="text-xs text-gray-400">Apertura {formatDateTime(session.openedAt)}</div>
+                  </td>
+                  <td className="px-6 py-3 text-gray-600">{formatDateTime(session.closedAt)}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">${(session.expectedCash ?? 0).toLocaleString()}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">${(session.countedCash ?? 0).toLocaleString()}</td>
+                  <td className={`px-6 py-3 text-right font-medium ${
+                    !session.difference ? 'text-gray-600' : session.difference > 0 ? 'text-blue-600' : 'text-red-600'
+                  }`}>
+                    {session.difference ? (session.difference > 0 ? '+' : '-') : ''}${Math.abs(session.difference ?? 0).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button onClick={() => setPrintingSession(session)} title="Imprimir Z" className="text-gray-400 hover:text-gray-700">
+                      <Printer size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {closedSessions.length === 0 && (
+          <div className="p-8 text-center text-gray-500">Aún no hay cierres de caja.</div>
+        )}
+      </div>
+
+      {printingSession && (
+        <PrintArea onDone={() => setPrintingSession(null)}>
+          <ZReport session={printingSession} invoices={invoices} customerPayments={customerPayments} />
+        </PrintArea>
+      )}
+    </div>
+  );
+};
+
+export default CashRegister;
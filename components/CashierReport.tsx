@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Invoice } from '../types';
+import { buildSalesByUser } from '../services/users';
+
+interface CashierReportProps {
+  invoices: Invoice[];
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const CashierReport: React.FC<CashierReportProps> = ({ invoices }) => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+
+  const rows = buildSalesByUser(invoices, from, to);
+  const total = rows.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col sm:flex-row gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <p className="text-xs text-gray-400 sm:ml-auto max-w-sm">
+          Montos con impuesto incluido. Las ventas anuladas se cuentan aparte y no suman al total.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Usuario</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Ventas</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Ticket promedio</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">% del total</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Anuladas</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.userId}>
+                  <td className="px-6 py-3 text-gray-700">{row.userName}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">{row.sales}</td>
+                  <td className="px-6 py-3 text-right font-medium text-gray-800">${row.total.toLocaleString()}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">${row.averageTicket.toLocaleString()}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">{total > 0 ? `${(row.total / total * 100).toFixed(1)}%` : '-'}</td>
+                  <td className={`px-6 py-3 text-right ${row.voided > 0 ? 'text-red-600' : 'text-gray-400'}`}>{row.voided}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-400">Sin ventas en el período.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CashierReport;
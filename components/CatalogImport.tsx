@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Product } from '../types';
+import { CATALOG_COLUMNS, ColumnMapping, ImportAction, buildImportPreview, guessMapping, readCatalogFile } from '../services/catalogIO';
+import { Upload, X, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface CatalogImportProps {
+  products: Product[];
+  canEditPrices: boolean;
+  onImport: (products: Product[]) => void;
+  onClose: () => void;
+}
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+  CREATE: { label: 'NUEVO', className: 'bg-green-100 text-green-700' },
+  UPDATE: { label: 'ACTUALIZA', className: 'bg-blue-100 text-blue-700' },
+  UNCHANGED: { label: 'SIN CAMBIOS', className: 'bg-gray-100 text-gray-600' },
+  ERROR: { label: 'ERROR', className: 'bg-red-100 text-red-700' },
+};
+
+// Rows rendered in the preview; the counters always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+const CatalogImport: React.FC<CatalogImportProps> = ({ products, canEditPrices, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState('');
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  const preview = mapping ? buildImportPreview(rows, mapping, products, canEditPrices) : null;
+  const toImport = preview ? preview.rows.filter(r => r.action === 'CREATE' || r.action === 'UPDATE') : [];
+  const visibleRows = preview
+    ? preview.rows.filter(r => !showErrorsOnly || r.action === 'ERROR').slice(0, PREVIEW_LIMIT)
+    : [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReadError('');
+    try {
+      const [headerRow, ...dataRows] = await readCatalogFile(file);
+      if (!headerRow) throw new Error('empty');
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessMapping(headerRow));
+    } catch (error) {
+      console.error('Error reading catalogue file:', error);
+      setReadError('No se pudo leer el archivo. Usa un CSV o una planilla Excel con encabezados en la primera fila.');
+      setMapping(null);
+    }
+  };
+
+  const handleImport = () => {
+    if (toImport.length === 0) return;
+    onImport(toImport.map(r => r.product!));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl max-h-[90vh] shadow-2xl flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50 rounded-t-2xl">
+          <h3 className="font-bold text-lg text-gray-800">Importar catálogo</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <label className="flex items-center justify-center gap-3 p-6 border-2 border-dashed border-gray-200 rounded-xl cursor-pointer hover:border-emerald-500 hover:bg-emerald-50 transition-colors">
+            <Upload size={24} className="text-gray-400" />
+            <span className="text-sm text-gray-600">
+              {fileName ? `${fileName} — ${rows.length} filas` : 'Selecciona un archivo CSV o Excel (.xlsx)'}
+            </span>
+            <input type="file" accept=".csv,.txt,.xlsx,.xls,.ods" onChange={handleFile} className="hidden" />
+          </label>
+          {readError && <p className="text-sm text-red-600">{readError}</p>}
+
+          {mapping && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-2">Columnas</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {CATALOG_COLUMNS.map(column => (
+                  <div key={column.field}>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">
+                      {column.header}{column.required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[column.field]}
+                      onChange={e => setMapping({ ...mapping, [column.field]: Number(e.target.value) })}
+                      className="w-full px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+                    >
+                      <option value={-1}>No importar</option>
+                      {headers.map((header, i) => (
+                        <option key={i} value={i}>{header || `Columna ${i + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Los productos existentes se reconocen por SKU o nombre. Varios códigos de barras van separados por "|". Un cambio de stock queda como ajuste en el kardex.
+              </p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="px-3 py-1 rounded-full bg-green-100 text-green-700 font-medium">{preview.creates} nuevos</span>
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">{preview.updates} actualizaciones</span>
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-600 font-medium">{preview.unchanged} sin cambios</span>
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-medium">{preview.errors} con errores</span>
+                <label className="ml-auto flex items-center gap-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showErrorsOnly}
+                    onChange={e => setShowErrorsOnly(e.target.checked)}
+                    className="accent-emerald-600"
+                  />
+                  Solo errores
+                </label>
+              </div>
+
+              <div className="border border-gray-100 rounded-xl overflow-hidden">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Fila</th>
+                      <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Acción</th>
+                      <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Producto</th>
+                      <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Detalle</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleRows.map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-4 py-2 text-gray-500 font-mono">{row.rowNumber}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-bold ${ACTION_BADGES[row.action].className}`}>
+                            {ACTION_BADGES[row.action].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-800">
+                          {row.product?.name || row.existing?.name || '-'}
+                          {row.product?.sku && <span className="ml-2 text-xs font-mono text-gray-400">{row.product.sku}</span>}
+                        </td>
+                        <td className="px-4 py-2 text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-600">{row.errors.join(' ')}</span>
+                          ) : row.action === 'UPDATE' ? (
+                            <span className="text-gray-600">Cambia: {row.changes.join(', ')}</span>
+                          ) : row.action === 'CREATE' ? (
+                            <span className="text-gray-600">${row.product!.price.toLocaleString()} · Stock {row.product!.currentStock}</span>
+                          ) : null}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-400">Se muestran las primeras {PREVIEW_LIMIT} filas.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-between items-center gap-3">
+          <span className="text-sm text-gray-500 flex items-center gap-2">
+            {preview && preview.errors > 0 && (
+              <>
+                <AlertTriangle size={16} className="text-amber-500" />
+                Las filas con errores no se importarán.
+              </>
+            )}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={toImport.length === 0}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <CheckCircle size={18} />
+              Importar {toImport.length} productos
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogImport;
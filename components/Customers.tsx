@@ -0,0 +1,500 @@
+import React, { useState } from 'react';
+import { CashSession, Customer, CustomerPayment, Invoice, LoyaltyEntry, LoyaltySettings, ReceiptSettings, UserAccount } from '../types';
+import { CustomerInput, CustomerPaymentResult, PaymentInput, getCustomerBalances, getCustomerStatement, formatPaymentFolio } from '../services/customers';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from '../services/cashRegister';
+import { formatFolio } from '../services/invoices';
+import { LOYALTY_ENTRY_LABELS, getPointsBalance, getPointsExpiringSoon, getPointsStatement, pointsValue } from '../services/loyalty';
+import { can } from '../services/users';
+import PrintArea from './PrintArea';
+import PaymentReceipt from './PaymentReceipt';
+import { Plus, Edit2, Save, X, Search, Phone, Users, Wallet, Printer, Star } from 'lucide-react';
+
+interface CustomersProps {
+  customers: Customer[];
+  invoices: Invoice[];
+  customerPayments: CustomerPayment[];
+  loyaltyEntries: LoyaltyEntry[];
+  loyaltySettings: LoyaltySettings;
+  receiptSettings: ReceiptSettings;
+  cashSession?: CashSession;
+  currentUser: UserAccount;
+  onSaveCustomer: (input: CustomerInput, customerId?: string) => string | undefined; // Returns an error message
+  onRecordPayment: (input: PaymentInput) => CustomerPaymentResult;
+}
+
+interface CustomerForm {
+  name: string;
+  phone: string;
+  rut: string;
+  address: string;
+  creditLimit: string; // Empty means no limit
+  notes: string;
+  active: boolean;
+}
+
+const toForm = (customer?: Customer): CustomerForm => ({
+  name: customer?.name || '',
+  phone: customer?.phone || '',
+  rut: customer?.rut || '',
+  address: customer?.address || '',
+  creditLimit: customer?.creditLimit !== undefined ? String(customer.creditLimit) : '',
+  notes: customer?.notes || '',
+  active: customer?.active ?? true,
+});
+
+// Money customers bring in; neither their account nor their points can pay it off
+const COLLECTION_METHODS = PAYMENT_METHODS.filter((m): m is PaymentInput['method'] => m !== 'ACCOUNT' && m !== 'POINTS');
+
+const Customers: React.FC<CustomersProps> = ({ customers, invoices, customerPayments, loyaltyEntries, loyaltySettings, receiptSettings, cashSession, currentUser, onSaveCustomer, onRecordPayment }) => {
+  // undefined: form closed; null: new customer; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+  const [form, setForm] = useState<CustomerForm>(toForm());
+  const [formError, setFormError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentInput['method']>('CASH');
+  const [paymentNotes, setPaymentNotes] = useState('');
+  const [paymentError, setPaymentError] = useState('');
+  const [printing, setPrinting] = useState<{ payment: CustomerPayment; balanceAfter: number } | null>(null);
+
+  const canManageCredit = can(currentUser, 'MANAGE_CREDIT');
+  const balances = getCustomerBalances(invoices, customerPayments);
+  const balanceOf = (id: string) => balances.get(id) || 0;
+
+  const listed = customers.filter(c =>
+    c.name.toLowerCase().includes(searchTerm.toLowerCase()) || (c.phone || '').includes(searchTerm) || (c.rut || '').includes(searchTerm)
+  );
+  const selected = customers.find(c => c.id === selectedId) || listed[0];
+  const selectedBalance = selected ? balanceOf(selected.id) : 0;
+  const statement = selected
+    ? getCustomerStatement(selected.id, invoices, customerPayments, inv => `Venta #${formatFolio(inv)}`).reverse()
+    : [];
+  const points = selected ? getPointsBalance(loyaltyEntries, selected.id) : 0;
+  const expiringPoints = selected ? getPointsExpiringSoon(loyaltyEntries, selected.id) : 0;
+  const pointsStatement = selected ? getPointsStatement(loyaltyEntries, selected.id).reverse() : [];
+  const invoiceFolio = (id?: string) => {
+    const invoice = invoices.find(i => i.id === id);
+    return invoice ? ` #${formatFolio(invoice)}` : '';
+  };
+  const totalOwed = customers.reduce((sum, c) => sum + Math.max(0, balanceOf(c.id)), 0);
+
+  const openForm = (customer?: Customer) => {
+    setEditingId(customer ? customer.id : null);
+    setForm(toForm(customer));
+    setFormError('');
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const saveError = onSaveCustomer({
+      name: form.name,
+      phone: form.phone,
+      rut: form.rut,
+      address: form.address,
+      creditLimit: form.creditLimit === '' ? undefined : Number(form.creditLimit),
+      notes: form.notes,
+      active: form.active,
+    }, editingId || undefined);
+    if (saveError) {
+      setFormError(saveError);
+      return;
+    }
+    setEditingId(undefined);
+  };
+
+  const handleRecordPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const result = onRecordPayment({ customerId: selected.id, amount: Number(paymentAmount), method: paymentMethod, notes: paymentNotes });
+    if (result.error) {
+      setPaymentError(result.error);
+      return;
+    }
+    setPaymentAmount('');
+    setPaymentNotes('');
+    setPaymentError('');
+    if (result.payment && confirm('Abono registrado. ¿Imprimir comprobante?')) {
+      setPrinting({ payment: result.payment, balanceAfter: selectedBalance - result.payment.amount });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Clientes</h2>
+          <p className="text-sm text-gray-500">Fiado por cobrar: ${totalOwed.toLocaleString()}</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+        >
+          <Plus size={20} />
+          Nuevo Cliente
+        </button>
+      </div>
+
+      {customers.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+          <Users size={32} className="text-gray-300" />
+          Aún no hay clientes. Regístralos para venderles fiado desde Facturación.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Directory */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden h-fit">
+            <div className="p-3 border-b border-gray-100 relative">
+              <Search className="absolute left-6 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+              <input
+                type="text"
+                value={searchTerm}
+                placeholder="Buscar por nombre, teléfono o RUT..."
+                onChange={e => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {listed.map(customer => {
+                const balance = balanceOf(customer.id);
+                const overLimit = customer.creditLimit !== undefined && balance > customer.creditLimit;
+                return (
+                  <li
+                    key={customer.id}
+                    onClick={() => { setSelectedId(customer.id); setPaymentError(''); }}
+                    className={`px-4 py-3 cursor-pointer transition-colors ${
+                      selected?.id === customer.id ? 'bg-emerald-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <div className={`font-medium ${customer.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>{customer.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {customer.creditLimit !== undefined ? `Límite $${customer.creditLimit.toLocaleString()}` : 'Sin límite'}
+                          {customer.active ? '' : ' · Inactivo'}
+                        </div>
+                      </div>
+                      <div className={`text-sm font-medium shrink-0 ${overLimit ? 'text-red-600' : balance > 0 ? 'text-gray-800' : 'text-gray-400'}`}>
+                        ${balance.toLocaleString()}
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            {listed.length === 0 && <p className="p-4 text-sm text-gray-500 text-center">Sin resultados.</p>}
+          </div>
+
+          {/* Detail */}
+          {selected && (
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <div className="flex flex-col sm:flex-row justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-gray-800">{selected.name}</h3>
+                      <button onClick={() => openForm(selected)} className="text-gray-400 hover:text-emerald-600 transition-colors">
+                        <Edit2 size={16} />
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-4 mt-1 text-sm text-gray-500">
+                      {selected.rut && <span className="font-mono">{selected.rut}</span>}
+                      {selected.phone && <span className="flex items-center gap-1"><Phone size={14} />{selected.phone}</span>}
+                      {selected.address && <span>{selected.address}</span>}
+                    </div>
+                    {selected.notes && <p className="text-xs text-gray-500 mt-2">{selected.notes}</p>}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-500">Saldo adeudado</p>
+                    <p className={`text-2xl font-bold ${
+                      selected.creditLimit !== undefined && selectedBalance > selected.creditLimit ? 'text-red-600' : 'text-gray-800'
+                    }`}>
+                      ${selectedBalance.toLocaleString()}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {selected.creditLimit !== undefined
+                        ? `Disponible $${Math.max(0, selected.creditLimit - selectedBalance).toLocaleString()} de $${selected.creditLimit.toLocaleString()}`
+                        : 'Sin límite de crédito'}
+                    </p>
+                    <p className="text-sm text-emerald-700 mt-2 flex items-center justify-end gap-1">
+                      <Star size={14} />
+                      {points.toLocaleString()} puntos (${pointsValue(points, loyaltySettings).toLocaleString()})
+                    </p>
+                    {expiringPoints > 0 && (
+                      <p className="text-xs text-amber-700">{expiringPoints.toLocaleString()} vencen en los próximos 30 días</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <form onSubmit={handleRecordPayment} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+                  <Wallet size={20} className="text-gray-400" />
+                  Registrar abono
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <input
+                    required
+                    type="number"
+                    min="1"
+                    value={paymentAmount}
+                    placeholder={selectedBalance > 0 ? selectedBalance.toString() : 'Monto'}
+                    onChange={e => setPaymentAmount(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                  <select
+                    value={paymentMethod}
+                    onChange={e => setPaymentMethod(e.target.value as PaymentInput['method'])}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                  >
+                    {COLLECTION_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={paymentNotes}
+                    placeholder="Observación (opcional)"
+                    onChange={e => setPaymentNotes(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                {paymentMethod === 'CASH' && !cashSession && (
+                  <p className="text-xs text-amber-700">No hay una caja abierta: los abonos en efectivo se registran en la caja.</p>
+                )}
+                {paymentError && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{paymentError}</div>
+                )}
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={selectedBalance <= 0}
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors disabled:opacity-50"
+                  >
+                    <Save size={18} />
+                    Registrar abono
+                  </button>
+                </div>
+              </form>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <h3 className="text-lg font-semibold text-gray-800 px-6 pt-6 pb-4">Estado de cuenta</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Fecha</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Detalle</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Cargo</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Abono</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Saldo</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {statement.map(entry => {
+                        const payment = customerPayments.find(p => p.id === entry.id);
+                        return (
+                          <tr key={entry.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-3 text-gray-600">{entry.date.slice(0, 10)}</td>
+                            <td className="px-6 py-3 text-gray-800">
+                              {entry.description}
+                              {payment && (
+                                <div className="text-xs text-gray-400">
+                                  {PAYMENT_METHOD_LABELS[payment.method]} · {payment.user}{payment.notes ? ` · ${payment.notes}` : ''}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-right text-red-600">{entry.charge > 0 ? `$${entry.charge.toLocaleString()}` : ''}</td>
+                            <td className="px-6 py-3 text-right text-emerald-600">{entry.credit > 0 ? `$${entry.credit.toLocaleString()}` : ''}</td>
+                            <td className="px-6 py-3 text-right font-medium text-gray-800">${entry.balance.toLocaleString()}</td>
+                            <td className="px-6 py-3 text-right">
+                              {payment && (
+                                <button
+                                  onClick={() => setPrinting({ payment, balanceAfter: entry.balance })}
+                                  title={`Imprimir ${formatPaymentFolio(payment)}`}
+                                  className="text-gray-400 hover:text-gray-700"
+                                >
+                                  <Printer size={16} />
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {statement.length === 0 && (
+                  <p className="px-6 pb-6 text-sm text-gray-500">Sin compras fiadas ni abonos.</p>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <h3 className="text-lg font-semibold text-gray-800 px-6 pt-6 pb-4">Puntos</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Fecha</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Movimiento</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Puntos</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Saldo</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Vence</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {pointsStatement.map(entry => (
+                        <tr key={entry.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-3 text-gray-600">{entry.date.slice(0, 10)}</td>
+                          <td className="px-6 py-3 text-gray-800">
+                            {LOYALTY_ENTRY_LABELS[entry.type]}{invoiceFolio(entry.invoiceId)}
+                            <div className="text-xs text-gray-400">{entry.user}</div>
+                          </td>
+                          <td className={`px-6 py-3 text-right font-medium ${entry.points > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                            {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-800">{entry.balance.toLocaleString()}</td>
+                          <td className="px-6 py-3 text-gray-500">{entry.expiresAt ? entry.expiresAt.slice(0, 10) : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {pointsStatement.length === 0 && (
+                  <p className="px-6 pb-6 text-sm text-gray-500">
+                    {loyaltySettings.enabled
+                      ? `Sin puntos todavía. Cada $${loyaltySettings.amountPerPoint.toLocaleString()} en compras suma un punto.`
+                      : 'El programa de puntos está desactivado.'}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Modal */}
+      {editingId !== undefined && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">
+                {editingId ? 'Editar Cliente' : 'Nuevo Cliente'}
+              </h3>
+              <button onClick={() => setEditingId(undefined)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                <input
+                  required
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+                  <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={e => setForm({ ...form, phone: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">RUT</label>
+                  <input
+                    type="text"
+                    value={form.rut}
+                    placeholder="12.345.678-5"
+                    onChange={e => setForm({ ...form, rut: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dirección</label>
+                  <input
+                    type="text"
+                    value={form.address}
+                    onChange={e => setForm({ ...form, address: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Límite de crédito</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.creditLimit}
+                    placeholder="Sin límite"
+                    disabled={!canManageCredit}
+                    title={canManageCredit ? undefined : 'Solo encargados y dueños cambian límites de crédito'}
+                    onChange={e => setForm({ ...form, creditLimit: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none disabled:bg-gray-100 disabled:text-gray-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                <textarea
+                  rows={2}
+                  value={form.notes}
+                  onChange={e => setForm({ ...form, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              {editingId && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.active}
+                    onChange={e => setForm({ ...form, active: e.target.checked })}
+                    className="w-4 h-4 accent-emerald-600"
+                  />
+                  Activo (los inactivos no aparecen en Facturación)
+                </label>
+              )}
+
+              {formError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{formError}</div>
+              )}
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(undefined)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <Save size={18} />
+                  Guardar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {printing && selected && (
+        <PrintArea onDone={() => setPrinting(null)}>
+          <style>{`@page { size: ${receiptSettings.paperWidth}mm auto; margin: 0; }`}</style>
+          <PaymentReceipt payment={printing.payment} customer={selected} balanceAfter={printing.balanceAfter} settings={receiptSettings} />
+        </PrintArea>
+      )}
+    </div>
+  );
+};
+
+export default Customers;
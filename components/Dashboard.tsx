@@ -1,42 +1,80 @@
 import React, { useState } from 'react';
-import { Product, Invoice, AiPrediction } from '../types';
+import { Product, Invoice, AiPrediction, StockMovement, StoreSettings } from '../types';
 import { getInventoryPrediction } from '../services/geminiService';
+import { getEffectiveInvoices } from '../services/invoices';
+import { COSTING_METHOD_LABELS, totalInventoryValue } from '../services/costing';
+import { lineCostOfSales } from '../services/profit';
+import { getLineTaxes } from '../services/tax';
+import { getExpiryAlerts } from '../services/lots';
+import { isKit } from '../services/kits';
+import { getLocationBalances, stockAt } from '../services/locations';
+import {
+  FORECAST_METHOD_LABELS, DEFAULT_FORECAST_METHOD, FORECAST_HISTORY_DAYS, ForecastMethod,
+  addDays, dailySeries, salesHistory, forecastSeries, backtestForecast,
+} from '../services/forecasting';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell, Legend } from 'recharts';
-import { Loader2, BrainCircuit, TrendingUp, PackageCheck, ArrowUpCircle, ArrowDownCircle, Scale, AlertTriangle, X, DollarSign } from 'lucide-react';
+import { Loader2, BrainCircuit, TrendingUp, PackageCheck, ArrowUpCircle, ArrowDownCircle, Scale, AlertTriangle, X, DollarSign, CalendarClock } from 'lucide-react';
+
+interface ChartPoint {
+  date: string;
+  sales: number | null;
+  purchases: number | null;
+  estimated: number | null;
+  band: [number, number] | null; // 95% forecast interval
+}
+
+const FORECAST_HORIZON = 7;
 
 interface DashboardProps {
   products: Product[];
   invoices: Invoice[];
+  stockMovements: StockMovement[];
+  settings: StoreSettings;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
+const Dashboard: React.FC<DashboardProps> = ({ products, invoices, stockMovements, settings }) => {
   const [prediction, setPrediction] = useState<AiPrediction | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [timeRange, setTimeRange] = useState<'WEEK' | 'MONTH' | 'YEAR'>('MONTH');
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>(DEFAULT_FORECAST_METHOD);
   const [showAlert, setShowAlert] = useState(true);
+  const [showExpiryAlert, setShowExpiryAlert] = useState(true);
+  const [stockLocationId, setStockLocationId] = useState('');
 
   // 1. Inventory Calculations
-  const lowStockProducts = products.filter(p => p.currentStock <= p.minStock);
+  // Kits have no stock of their own; their components carry the alerts
+  const stockedProducts = products.filter(p => !isKit(p));
+  const lowStockProducts = stockedProducts.filter(p => p.currentStock <= p.minStock);
+  const expiryAlerts = getExpiryAlerts(products, stockMovements, new Date().toISOString().split('T')[0]);
+  const expiredCount = expiryAlerts.filter(a => a.status === 'EXPIRED').length;
   
-  // Real Asset Value (Money tied up in inventory based on COST)
-  const totalInventoryCost = products.reduce((acc, p) => acc + (p.currentStock * p.cost), 0);
+  // Real Asset Value (Money tied up in inventory at what we actually paid)
+  const totalInventoryCost = totalInventoryValue(products, stockMovements, settings.costing.method);
   
   // Potential Revenue (If everything is sold at current PRICE)
   const totalPotentialRevenue = products.reduce((acc, p) => acc + (p.currentStock * p.price), 0);
 
-  // 2. Financial History Calculations (Cash Flow)
-  const totalSales = invoices
+  // 2. Financial History Calculations (Cash Flow), ignoring voided invoices and their credit notes
+  const effectiveInvoices = getEffectiveInvoices(invoices);
+
+  const totalSales = effectiveInvoices
     .filter(i => i.type === 'SALE')
     .reduce((acc, i) => acc + i.totalAmount, 0);
 
-  const totalPurchases = invoices
+  const totalPurchases = effectiveInvoices
     .filter(i => i.type === 'PURCHASE')
     .reduce((acc, i) => acc + i.totalAmount, 0);
 
   const netProfit = totalSales - totalPurchases;
   const isProfitPositive = netProfit >= 0;
 
+  // Gross margin on what was sold, independent of when stock was bought (net of tax)
+  const saleItems = effectiveInvoices.filter(i => i.type === 'SALE').flatMap(i => i.items);
+  const netSales = saleItems.reduce((acc, item) => acc + getLineTaxes(item, products, settings.tax).netAmount, 0);
+  const costOfSales = saleItems.reduce((acc, item) => acc + lineCostOfSales(item, products, settings.tax).cost, 0);
+  const grossProfit = netSales - costOfSales;
+
   // AI Report Handler
   const handleGenerateReport = async () => {
     setLoading(true);
@@ -51,88 +89,75 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
     }
   };
 
-  // Chart Logic: Project Future Trends
+  // Chart Logic: zero-filled daily history plus a deterministic sales forecast
+  const today = new Date().toISOString().split('T')[0];
+  const recentSales = salesHistory(invoices, today, FORECAST_HISTORY_DAYS);
+
   const generateChartData = () => {
-    const dataMap = new Map<string, { sales: number, purchases: number }>();
-    
-    // Sort invoices
-    const sortedInvoices = [...invoices].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    // Aggregate historical data
-    sortedInvoices.forEach(inv => {
-        const date = inv.date;
-        const current = dataMap.get(date) || { sales: 0, purchases: 0 };
-        if (inv.type === 'SALE') current.sales += inv.totalAmount;
-        else current.purchases += inv.totalAmount;
-        dataMap.set(date, current);
-    });
-
-    let chartData: any[] = Array.from(dataMap.entries())
-        .map(([date, d]) => ({ 
-            date, 
-            sales: d.sales, 
-            purchases: d.purchases,
-            estimated: null as number | null // Initialize estimated as null for historical
-        }))
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    // Filter based on Time Range
-    const today = new Date();
     const rangeDays = timeRange === 'WEEK' ? 7 : timeRange === 'MONTH' ? 30 : 365;
-    const cutoffDate = new Date(today);
-    cutoffDate.setDate(today.getDate() - rangeDays);
+    const from = addDays(today, -(rangeDays - 1));
 
-    chartData = chartData.filter(d => new Date(d.date) >= cutoffDate);
+    const inRange = effectiveInvoices.filter(inv => inv.date >= from && inv.date <= today);
+    const sales = dailySeries(inRange.filter(i => i.type === 'SALE').map(i => ({ date: i.date, value: i.totalAmount })), from, today);
+    const purchases = dailySeries(inRange.filter(i => i.type === 'PURCHASE').map(i => ({ date: i.date, value: i.totalAmount })), from, today);
 
-    // Projection Logic
-    if (chartData.length > 2) {
-        // Calculate average growth or simple linear trend from last few points
-        const lastPoints = chartData.slice(-5); // Use last 5 days for trend
-        const avgSales = lastPoints.reduce((sum, p) => sum + p.sales, 0) / lastPoints.length;
-        
-        // Starting point for estimation is the last real data point
-        const lastRealData = chartData[chartData.length - 1];
-        
-        // Add a "connector" point so the line is continuous
-        // We modify the last real point to also be the start of the estimation, 
-        // OR we just rely on Recharts connectNulls if we want gaps. 
-        // Better visual: The last real sales point is also the first estimated point.
-        lastRealData.estimated = lastRealData.sales; 
+    const chartData: ChartPoint[] = sales.map((point, i) => ({
+      date: point.date,
+      sales: point.value,
+      purchases: purchases[i].value,
+      estimated: null,
+      band: null,
+    }));
 
-        const lastDate = new Date(lastRealData.date);
-        
-        // Project 5 periods into the future
-        for(let i = 1; i <= 5; i++) {
-            const nextDate = new Date(lastDate);
-            nextDate.setDate(lastDate.getDate() + i);
-            
-            // Add some randomness to the projection based on the average
-            const trendFactor = 1 + (Math.random() * 0.2 - 0.1); // +/- 10% variance
-            const projectedValue = Math.round(avgSales * trendFactor);
-
-            chartData.push({
-                date: nextDate.toISOString().split('T')[0],
-                sales: null,     // No real sales in future
-                purchases: null, // No purchases in future (unless scheduled)
-                estimated: projectedValue
-            });
-        }
+    const forecast = forecastSeries(recentSales, FORECAST_HORIZON, forecastMethod);
+    if (chartData.length > 0 && forecast.length > 0) {
+      // The last real point is also the first estimated one, so the lines connect
+      const last = chartData[chartData.length - 1];
+      last.estimated = last.sales;
+      last.band = [last.sales!, last.sales!];
+      forecast.forEach(point => {
+        chartData.push({ date: point.date, sales: null, purchases: null, estimated: point.value, band: [point.lower, point.upper] });
+      });
     }
-    
+
     return chartData;
   };
 
   const financialChartData = generateChartData();
+  const salesAccuracy = backtestForecast(recentSales, forecastMethod);
 
-  const inventoryChartData = products.map(p => ({
+  // The stock chart can show a single location; the minimum stays the store-wide one
+  const balances = getLocationBalances(stockMovements);
+  const inventoryChartData = stockedProducts.map(p => ({
     name: p.name.split(' ')[0], 
-    stock: p.currentStock,
+    stock: stockLocationId ? stockAt(balances, p.id, stockLocationId) : p.currentStock,
     min: p.minStock,
   }));
 
   return (
     <div className="space-y-6 animate-fade-in">
       
+      {/* Alert Banner for Expired / Near-Expiry Lots */}
+      {showExpiryAlert && expiryAlerts.length > 0 && (
+        <div className={`border-l-4 p-4 rounded-r-lg shadow-sm flex items-start justify-between ${expiredCount > 0 ? 'bg-red-50 border-red-500' : 'bg-amber-50 border-amber-500'}`}>
+          <div className="flex items-start gap-3">
+            <CalendarClock className={`mt-0.5 ${expiredCount > 0 ? 'text-red-500' : 'text-amber-500'}`} size={20} />
+            <div>
+              <h3 className={`font-bold ${expiredCount > 0 ? 'text-red-800' : 'text-amber-800'}`}>Alerta de Vencimientos</h3>
+              <p className={`text-sm mt-1 ${expiredCount > 0 ? 'text-red-700' : 'text-amber-700'}`}>
+                {expiredCount > 0 && `${expiredCount} lotes vencidos. `}
+                {expiryAlerts.length - expiredCount > 0 && `${expiryAlerts.length - expiredCount} lotes por vencer. `}
+                ({expiryAlerts.map(a => `${a.product.name}: ${a.lot.quantity} un., ${a.days < 0 ? 'vencido' : a.days === 0 ? 'vence hoy' : `vence en ${a.days} días`}`).join('; ')}).
+                Revisa la sección Vencimientos para darlos de baja.
+              </p>
+            </div>
+          </div>
+          <button onClick={() => setShowExpiryAlert(false)} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+      )}
+
       {/* Alert Banner for Low Stock */}
       {showAlert && lowStockProducts.length > 0 && (
         <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-r-lg shadow-sm flex items-start justify-between">
@@ -153,7 +178,7 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
       )}
 
       {/* Financial Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
         {/* Card 1: Inventory Value (Cost) */}
         <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between h-full">
           <div className="flex items-center justify-between mb-4">
@@ -164,7 +189,7 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
           </div>
           <div>
             <h3 className="text-2xl font-bold text-gray-800">${totalInventoryCost.toLocaleString()}</h3>
-            <p className="text-xs text-gray-500 mt-1">Costo total productos en stock</p>
+            <p className="text-xs text-gray-500 mt-1">Stock valorizado: {COSTING_METHOD_LABELS[settings.costing.method].split(' (')[0]}</p>
           </div>
         </div>
 
@@ -202,7 +227,7 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
             <div className={`p-2 rounded-lg ${isProfitPositive ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
               <Scale size={20} />
             </div>
-            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Ganancia Neta</span>
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Flujo Neto</span>
           </div>
           <div>
             <h3 className={`text-2xl font-bold ${isProfitPositive ? 'text-green-600' : 'text-red-600'}`}>
@@ -211,6 +236,24 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
             <p className="text-xs text-gray-500 mt-1">Ventas - Compras (Cash Flow)</p>
           </div>
         </div>
+
+        {/* Card 5: Gross Margin */}
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex flex-col justify-between h-full">
+          <div className="flex items-center justify-between mb-4">
+            <div className={`p-2 rounded-lg ${grossProfit >= 0 ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+              <DollarSign size={20} />
+            </div>
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Margen Bruto</span>
+          </div>
+          <div>
+            <h3 className={`text-2xl font-bold ${grossProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              ${grossProfit.toLocaleString()}
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Ventas netas - Costo de ventas{netSales > 0 ? ` (${(grossProfit / netSales * 100).toFixed(1)}%)` : ''}
+            </p>
+          </div>
+        </div>
       </div>
 
       {/* Main Charts Row */}
@@ -223,6 +266,17 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
                 <TrendingUp size={20} className="text-gray-400" />
                 Flujo de Caja Real vs Estimado
              </h3>
+             <div className="flex items-center gap-2">
+             <select
+                value={forecastMethod}
+                onChange={(e) => setForecastMethod(e.target.value as ForecastMethod)}
+                className="px-2 py-1 text-xs border border-gray-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-emerald-500"
+                title="Método de proyección"
+             >
+                {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(method => (
+                    <option key={method} value={method}>{FORECAST_METHOD_LABELS[method]}</option>
+                ))}
+             </select>
              <div className="flex bg-gray-100 rounded-lg p-1">
                 {(['WEEK', 'MONTH', 'YEAR'] as const).map(range => (
                     <button
@@ -236,6 +290,7 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
                     </button>
                 ))}
              </div>
+             </div>
           </div>
           
           <div className="h-64 w-full">
@@ -260,6 +315,9 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
                     {/* Ventas Reales */}
                     <Area type="monotone" dataKey="sales" name="Ventas Reales" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorSales)" />
                     
+                    {/* Forecast confidence band */}
+                    <Area type="monotone" dataKey="band" name="Intervalo 95%" stroke="none" fill="#10b981" fillOpacity={0.12} />
+
                     {/* Ventas Estimadas (Dashed) */}
                     <Area type="monotone" dataKey="estimated" name="Ventas Estimadas" stroke="#10b981" strokeWidth={2} strokeDasharray="5 5" fillOpacity={0.5} fill="url(#colorSales)" />
                     
@@ -268,15 +326,31 @@ const Dashboard: React.FC<DashboardProps> = ({ products, invoices }) => {
                 </AreaChart>
             </ResponsiveContainer>
           </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Proyección a {FORECAST_HORIZON} días sobre los últimos {FORECAST_HISTORY_DAYS} días de ventas.
+            {salesAccuracy && salesAccuracy.mape !== null && ` Error de la última semana (MAPE): ${(salesAccuracy.mape * 100).toFixed(1)}%.`}
+          </p>
         </div>
 
         {/* Inventory Level Chart */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 min-w-0">
           <div className="flex justify-between items-center mb-6">
             <h3 className="text-lg font-semibold text-gray-800">Stock Actual vs Mínimo</h3>
-            <span className="text-xs px-2 py-1 bg-gray-100 text-gray-500 rounded-md">
-                Potencial Venta: ${totalPotentialRevenue.toLocaleString()}
-            </span>
+            <div className="flex items-center gap-2">
+              {settings.locations.locations.length > 1 && (
+                <select
+                  value={stockLocationId}
+                  onChange={(e) => setStockLocationId(e.target.value)}
+                  className="text-xs px-2 py-1 border border-gray-200 rounded-md bg-white text-gray-600 outline-none"
+                >
+                  <option value="">Todas</option>
+                  {settings.locations.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              )}
+              <span className="text-xs px-2 py-1 bg-gray-100 text-gray-500 rounded-md">
+                  Potencial Venta: ${totalPotentialRevenue.toLocaleString()}
+              </span>
+            </div>
           </div>
           <div className="h-64 w-full">
             <ResponsiveContainer width="100%" height="100%">
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Store, Database, PackageOpen, Loader2 } from 'lucide-react';
+
+interface FirstRunSetupProps {
+  onInitialize: (withDemoData: boolean) => Promise<void>;
+}
+
+const FirstRunSetup: React.FC<FirstRunSetupProps> = ({ onInitialize }) => {
+  const [saving, setSaving] = useState(false);
+
+  const handleChoice = async (withDemoData: boolean) => {
+    setSaving(true);
+    try {
+      await onInitialize(withDemoData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl border border-gray-100 w-full max-w-lg p-8 space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <div className="bg-emerald-600 p-2 rounded-lg text-white">
+            <Store size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-800 leading-tight">Bienvenido a Buena Fe</h1>
+            <p className="text-xs text-gray-400 font-medium">Configuración inicial</p>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Los productos y movimientos se guardan en este navegador. ¿Cómo quieres comenzar?
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <button
+            onClick={() => handleChoice(true)}
+            disabled={saving}
+            className="p-4 rounded-xl border-2 border-emerald-200 bg-emerald-50 hover:bg-emerald-100 text-left transition-all disabled:opacity-50"
+          >
+            <Database className="text-emerald-600 mb-2" size={24} />
+            <div className="font-bold text-gray-800">Datos de demostración</div>
+            <p className="text-xs text-gray-500 mt-1">Catálogo de ejemplo y 30 días de facturas simuladas.</p>
+          </button>
+          <button
+            onClick={() => handleChoice(false)}
+            disabled={saving}
+            className="p-4 rounded-xl border-2 border-gray-100 bg-gray-50 hover:bg-gray-100 text-left transition-all disabled:opacity-50"
+          >
+            <PackageOpen className="text-gray-600 mb-2" size={24} />
+            <div className="font-bold text-gray-800">Empezar vacío</div>
+            <p className="text-xs text-gray-500 mt-1">Sin productos ni facturas. Ideal para tu tienda real.</p>
+          </button>
+        </div>
+
+        {saving && (
+          <div className="flex items-center justify-center gap-2 text-sm text-emerald-700">
+            <Loader2 className="animate-spin" size={16} />
+            Preparando la base de datos...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FirstRunSetup;
@@ -1,32 +1,112 @@
 
 import React, { useState } from 'react';
-import { Product } from '../types';
-import { Plus, Trash2, Edit2, Search, Save, X } from 'lucide-react';
+import { Product, ProductPack, KitComponent, StockMovement, Backorder, StockPolicy, StoreSettings, UnitOfMeasure, UserAccount } from '../types';
+import { STOCK_POLICY_LABELS } from '../services/stockPolicy';
+import { normalizeBarcode, normalizeSku, validateProductCodes } from '../services/productCodes';
+import { formatRate, getTaxRate } from '../services/tax';
+import { isKit, kitAvailability, kitCost, validateKit } from '../services/kits';
+import { UNIT_LABELS, UNIT_SYMBOLS, allowsFraction, getUnit, quantityStep, roundQuantity, validatePacks } from '../services/units';
+import { exportCatalog } from '../services/catalogIO';
+import { getLocationBalances, productsAtLocation } from '../services/locations';
+import { MAIN_LOCATION_ID } from '../constants';
+import { can } from '../services/users';
+import Kardex from './Kardex';
+import CatalogImport from './CatalogImport';
+import { Plus, Trash2, Edit2, Search, Save, X, History, Barcode, Upload, Download } from 'lucide-react';
 
 interface InventoryProps {
   products: Product[];
+  stockMovements: StockMovement[];
+  backorders: Backorder[];
+  settings: StoreSettings;
+  currentUser: UserAccount;
   onAddProduct: (p: Product) => void;
-  onUpdateProduct: (p: Product) => void;
+  onUpdateProduct: (p: Product, stockReason?: string, locationId?: string) => string | undefined;
   onDeleteProduct: (id: string) => void;
+  onRecordMovement: (movement: StockMovement) => void;
+  onImportProducts: (products: Product[]) => void;
 }
 
-const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateProduct, onDeleteProduct }) => {
+const Inventory: React.FC<InventoryProps> = ({ products, stockMovements, backorders, settings, currentUser, onAddProduct, onUpdateProduct, onDeleteProduct, onRecordMovement, onImportProducts }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [editingProduct, setEditingProduct] = useState<Partial<Product> | null>(null);
+  const [stockReason, setStockReason] = useState('');
+  const [adjustmentLocationId, setAdjustmentLocationId] = useState(MAIN_LOCATION_ID);
+  const [locationFilter, setLocationFilter] = useState('');
+  const [kardexProductId, setKardexProductId] = useState<string | null>(null);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [codeErrors, setCodeErrors] = useState<string[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
 
-  const filteredProducts = products.filter(p => 
+  const kardexProduct = products.find(p => p.id === kardexProductId);
+  const canManage = can(currentUser, 'MANAGE_PRODUCTS');
+  const canEditPrices = can(currentUser, 'EDIT_PRICES');
+
+  const pendingBackorders = new Map<string, number>();
+  backorders
+    .filter(b => b.status === 'OPEN')
+    .forEach(b => pendingBackorders.set(b.productId, (pendingBackorders.get(b.productId) || 0) + b.quantity));
+  const originalStock = products.find(p => p.id === editingProduct?.id)?.currentStock;
+  const isStockEdited = originalStock !== undefined && Number(editingProduct?.currentStock) !== originalStock;
+
+  // With a location selected, the table shows what that location holds
+  const { locations } = settings.locations;
+  const balances = getLocationBalances(stockMovements);
+  const listedProducts = locationFilter ? productsAtLocation(products, balances, locationFilter) : products;
+  const locationBreakdown = (productId: string) => locations
+    .filter(l => balances.get(productId)?.has(l.id))
+    .map(l => `${l.name}: ${balances.get(productId)!.get(l.id)}`);
+
+  const filteredProducts = listedProducts.filter(p => 
     p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    p.category.toLowerCase().includes(searchTerm.toLowerCase())
+    p.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (p.sku || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (p.barcodes || []).some(code => code.includes(searchTerm.trim()))
   );
 
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editingProduct?.name || !editingProduct?.price) return;
 
+    const sku = editingProduct.sku ? normalizeSku(editingProduct.sku) : undefined;
+    const barcodes = editingProduct.barcodes || [];
+    const unit = getUnit(editingProduct) === 'UNIT' ? undefined : editingProduct.unit;
+    const packList = (editingProduct.packs || []).map(pack => {
+      const barcode = pack.barcode ? normalizeBarcode(pack.barcode) : '';
+      return { id: pack.id, name: pack.name.trim(), factor: Number(pack.factor), ...(barcode ? { barcode } : {}) };
+    });
+    const packs = packList.length > 0 ? packList : undefined;
+    const componentList = (editingProduct.components || []).map(c => ({ productId: c.productId, quantity: Number(c.quantity) }));
+    const components = componentList.length > 0 ? componentList : undefined;
+    const errors = [
+      ...validateProductCodes({ ...editingProduct, sku, barcodes, packs }, products),
+      ...validatePacks(packList),
+      ...validateKit({ ...editingProduct, components }, products),
+    ];
+    if (components && Number(editingProduct.currentStock) !== 0) {
+      errors.push('Un kit no tiene stock propio: deja el stock en 0 antes de agregarle componentes.');
+    }
+    if (!allowsFraction(editingProduct) && !Number.isInteger(Number(editingProduct.currentStock))) {
+      errors.push(`El stock de un producto por ${UNIT_LABELS[getUnit(editingProduct)].toLowerCase()} debe ser un número entero.`);
+    }
+    if (errors.length > 0) {
+      setCodeErrors(errors);
+      return;
+    }
+
     if (editingProduct.id) {
       // Edit
-      onUpdateProduct(editingProduct as Product);
+      const updateError = onUpdateProduct(
+        { ...editingProduct, sku, barcodes, unit, packs, components, currentStock: Number(editingProduct.currentStock) } as Product,
+        isStockEdited ? stockReason.trim() : undefined,
+        adjustmentLocationId
+      );
+      if (updateError) {
+        setCodeErrors([updateError]);
+        return;
+      }
     } else {
       // Add
       const newProduct: Product = {
@@ -37,21 +117,84 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
         minStock: Number(editingProduct.minStock) || 5,
         price: Number(editingProduct.price) || 0,
         cost: Number(editingProduct.cost) || 0,
-        lastRestocked: new Date().toISOString().split('T')[0]
+        lastRestocked: new Date().toISOString().split('T')[0],
+        stockPolicy: editingProduct.stockPolicy || 'BLOCK',
+        sku,
+        barcodes,
+        taxRateId: editingProduct.taxRateId || undefined,
+        ...(editingProduct.tracksExpiry ? { tracksExpiry: true } : {}),
+        ...(unit ? { unit } : {}),
+        ...(packs ? { packs } : {}),
+        ...(components ? { components, cost: kitCost({ components } as Product, products) } : {})
       };
       onAddProduct(newProduct);
     }
     setIsModalOpen(false);
     setEditingProduct(null);
+    setStockReason('');
+    setCodeErrors([]);
+  };
+
+  // Packs convert purchases in boxes and sales in units into the same base-unit stock
+  const addPack = () => {
+    if (!editingProduct) return;
+    setEditingProduct({ ...editingProduct, packs: [...(editingProduct.packs || []), { id: crypto.randomUUID(), name: '', factor: 2 }] });
+  };
+
+  const updatePack = (id: string, changes: Partial<ProductPack>) => {
+    if (!editingProduct) return;
+    setEditingProduct({ ...editingProduct, packs: (editingProduct.packs || []).map(p => p.id === id ? { ...p, ...changes } : p) });
+  };
+
+  const removePack = (id: string) => {
+    if (!editingProduct) return;
+    setEditingProduct({ ...editingProduct, packs: (editingProduct.packs || []).filter(p => p.id !== id) });
+  };
+
+  const updateComponents = (components: KitComponent[]) => {
+    if (!editingProduct) return;
+    setEditingProduct({ ...editingProduct, components });
+  };
+
+  // Scanners type the code and press Enter, so Enter adds the barcode instead of submitting the form
+  const handleBarcodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    addBarcode();
+  };
+
+  const addBarcode = () => {
+    const code = normalizeBarcode(barcodeInput);
+    if (!code || !editingProduct) return;
+    const barcodes = editingProduct.barcodes || [];
+    if (!barcodes.includes(code)) {
+      const updated = { ...editingProduct, barcodes: [...barcodes, code] };
+      setEditingProduct(updated);
+      setCodeErrors(validateProductCodes(updated, products));
+    }
+    setBarcodeInput('');
+  };
+
+  const removeBarcode = (code: string) => {
+    if (!editingProduct) return;
+    const updated = { ...editingProduct, barcodes: (editingProduct.barcodes || []).filter(c => c !== code) };
+    setEditingProduct(updated);
+    setCodeErrors(validateProductCodes(updated, products));
   };
 
   const openAddModal = () => {
-    setEditingProduct({ category: 'General', currentStock: 0, minStock: 10, price: 0, cost: 0 });
+    setEditingProduct({ category: 'General', currentStock: 0, minStock: 10, price: 0, cost: 0, stockPolicy: 'BLOCK', barcodes: [] });
+    setBarcodeInput('');
+    setCodeErrors([]);
     setIsModalOpen(true);
   };
 
   const openEditModal = (p: Product) => {
     setEditingProduct({...p});
+    setStockReason('');
+    setAdjustmentLocationId(MAIN_LOCATION_ID);
+    setBarcodeInput('');
+    setCodeErrors([]);
     setIsModalOpen(true);
   };
 
@@ -59,25 +202,72 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <h2 className="text-2xl font-bold text-gray-800">Gestión de Inventario</h2>
-        <button 
-          onClick={openAddModal}
-          className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
-        >
-          <Plus size={20} />
-          Nuevo Producto
-        </button>
+        <div className="flex gap-2">
+          {canManage && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+            >
+              <Upload size={18} />
+              Importar
+            </button>
+          )}
+          <div className="relative">
+            <button
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+            >
+              <Download size={18} />
+              Exportar
+            </button>
+            {isExportMenuOpen && (
+              <div className="absolute right-0 mt-1 w-36 bg-white border border-gray-200 rounded-lg shadow-lg z-10 overflow-hidden">
+                {(['CSV', 'XLSX'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => { setIsExportMenuOpen(false); exportCatalog(products, format); }}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {format === 'CSV' ? 'CSV (;)' : 'Excel (.xlsx)'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {canManage && (
+            <button 
+              onClick={openAddModal}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+            >
+              <Plus size={20} />
+              Nuevo Producto
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
-        <input 
-          type="text" 
-          placeholder="Buscar producto por nombre o categoría..." 
-          className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none transition-all"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-        />
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+          <input 
+            type="text" 
+            placeholder="Buscar por nombre, categoría, SKU o código de barras..." 
+            className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-200 focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none transition-all"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        {locations.length > 1 && (
+          <select
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
+            className="px-4 py-3 rounded-xl border border-gray-200 bg-white focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none"
+          >
+            <option value="">Todas las ubicaciones</option>
+            {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        )}
       </div>
 
       {/* Table */}
@@ -99,6 +289,7 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                 <tr key={product.id} className="hover:bg-gray-50 transition-colors">
                   <td className="px-6 py-4">
                     <div className="font-medium text-gray-900">{product.name}</div>
+                    {product.sku && <div className="text-xs font-mono text-gray-400">{product.sku}</div>}
                   </td>
                   <td className="px-6 py-4 text-gray-600">
                     <span className="px-2 py-1 bg-gray-100 rounded-md text-xs">{product.category}</span>
@@ -110,12 +301,36 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                     </div>
                   </td>
                   <td className="px-6 py-4">
-                    <div className="flex items-center gap-2">
-                      <span className="font-mono w-8 text-center">{product.currentStock}</span>
-                    </div>
+                    {isKit(product) ? (
+                      <div className="text-xs text-gray-600">
+                        <span className="px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-md font-medium">Kit</span>
+                        <div className="mt-1">{kitAvailability(product, listedProducts)} disponibles</div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className={`font-mono w-8 text-center ${product.currentStock < 0 ? 'text-red-600 font-bold' : ''}`}>{product.currentStock}</span>
+                        {getUnit(product) !== 'UNIT' && <span className="text-xs text-gray-400">{UNIT_SYMBOLS[getUnit(product)]}</span>}
+                      </div>
+                    )}
+                    {!locationFilter && locationBreakdown(product.id).length > 1 && (
+                      <div className="text-xs text-gray-400 mt-1">{locationBreakdown(product.id).join(' · ')}</div>
+                    )}
+                    {pendingBackorders.has(product.id) && (
+                      <div className="text-xs text-blue-600 mt-1">Pendiente: {pendingBackorders.get(product.id)} un.</div>
+                    )}
                   </td>
                   <td className="px-6 py-4">
-                    {product.currentStock <= product.minStock ? (
+                    {isKit(product) ? (
+                      kitAvailability(product, listedProducts) === 0 ? (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                          Sin componentes
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">
+                          OK
+                        </span>
+                      )
+                    ) : product.currentStock <= product.minStock ? (
                       <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
                         Bajo Stock
                       </span>
@@ -126,12 +341,19 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                     )}
                   </td>
                   <td className="px-6 py-4 text-right space-x-2">
-                    <button onClick={() => openEditModal(product)} className="text-gray-400 hover:text-emerald-600 transition-colors">
-                      <Edit2 size={18} />
-                    </button>
-                    <button onClick={() => onDeleteProduct(product.id)} className="text-gray-400 hover:text-red-600 transition-colors">
-                      <Trash2 size={18} />
+                    <button onClick={() => setKardexProductId(product.id)} title="Kardex" className="text-gray-400 hover:text-blue-600 transition-colors">
+                      <History size={18} />
                     </button>
+                    {canManage && (
+                      <>
+                        <button onClick={() => openEditModal(products.find(p => p.id === product.id)!)} className="text-gray-400 hover:text-emerald-600 transition-colors">
+                          <Edit2 size={18} />
+                        </button>
+                        <button onClick={() => onDeleteProduct(product.id)} className="text-gray-400 hover:text-red-600 transition-colors">
+                          <Trash2 size={18} />
+                        </button>
+                      </>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -148,7 +370,7 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
       {/* Modal */}
       {isModalOpen && editingProduct && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden animate-fade-in">
+          <div className="bg-white rounded-2xl w-full max-w-md max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
             <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
               <h3 className="font-bold text-lg text-gray-800">
                 {editingProduct.id ? 'Editar Producto' : 'Nuevo Producto'}
@@ -178,7 +400,52 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SKU</label>
+                  <input 
+                    type="text" 
+                    value={editingProduct.sku || ''} 
+                    onChange={e => setEditingProduct({...editingProduct, sku: e.target.value})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Códigos de barras (EAN/UPC)</label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+                    <input 
+                      type="text" 
+                      value={barcodeInput} 
+                      placeholder="Escanea o escribe y presiona Enter"
+                      onChange={e => setBarcodeInput(e.target.value)}
+                      onKeyDown={handleBarcodeKeyDown}
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                  <button type="button" onClick={addBarcode} className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg">
+                    <Plus size={18} />
+                  </button>
+                </div>
+                {(editingProduct.barcodes || []).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(editingProduct.barcodes || []).map(code => (
+                      <span key={code} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-md text-xs font-mono text-gray-700">
+                        {code}
+                        <button type="button" onClick={() => removeBarcode(code)} className="text-gray-400 hover:text-red-600">
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
+              {codeErrors.length > 0 && (
+                <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 space-y-1">
+                  {codeErrors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Precio Venta</label>
@@ -186,22 +453,134 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                     required
                     type="number" 
                     min="0"
+                    disabled={!!editingProduct.id && !canEditPrices}
                     value={editingProduct.price} 
                     onChange={e => setEditingProduct({...editingProduct, price: Number(e.target.value)})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Costo Compra</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{editingProduct.id ? 'Costo Promedio' : 'Costo Compra'}</label>
                   <input 
                     required
                     type="number" 
                     min="0"
-                    value={editingProduct.cost} 
+                    value={isKit(editingProduct) ? kitCost(editingProduct as Product, products) : editingProduct.cost} 
+                    disabled={!!editingProduct.id || isKit(editingProduct)}
                     onChange={e => setEditingProduct({...editingProduct, cost: Number(e.target.value)})}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none disabled:bg-gray-100 disabled:text-gray-500"
+                  />
+                  {isKit(editingProduct) ? (
+                    <p className="text-xs text-gray-500 mt-1">Suma del costo de sus componentes.</p>
+                  ) : editingProduct.id && (
+                    <p className="text-xs text-gray-500 mt-1">Se recalcula con cada compra.</p>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Unidad de medida</label>
+                  <select
+                    value={getUnit(editingProduct)}
+                    onChange={e => setEditingProduct({...editingProduct, unit: e.target.value as UnitOfMeasure})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  >
+                    {(Object.keys(UNIT_LABELS) as UnitOfMeasure[]).map(unit => (
+                      <option key={unit} value={unit}>{UNIT_LABELS[unit]}</option>
+                    ))}
+                  </select>
+                  {allowsFraction(editingProduct) && (
+                    <p className="text-xs text-gray-500 mt-1">Precio, costo y stock por {UNIT_SYMBOLS[getUnit(editingProduct)]}; se vende con decimales.</p>
+                  )}
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Empaques</label>
+                    <button type="button" onClick={addPack} className="text-xs text-emerald-600 hover:text-emerald-700 flex items-center gap-1">
+                      <Plus size={14} /> Agregar
+                    </button>
+                  </div>
+                  {(editingProduct.packs || []).length === 0 && (
+                    <p className="text-xs text-gray-400 py-2">Sin empaques: se compra y vende por {UNIT_SYMBOLS[getUnit(editingProduct)]}</p>
+                  )}
+                </div>
+              </div>
+              {(editingProduct.packs || []).map(pack => (
+                <div key={pack.id} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    placeholder="Nombre (ej: Caja x12)"
+                    value={pack.name}
+                    onChange={e => updatePack(pack.id, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
                   />
+                  <input
+                    type="number"
+                    min="1"
+                    step={quantityStep(editingProduct)}
+                    title={`${UNIT_SYMBOLS[getUnit(editingProduct)]} por empaque`}
+                    value={pack.factor}
+                    onChange={e => updatePack(pack.id, { factor: Number(e.target.value) })}
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Código"
+                    value={pack.barcode || ''}
+                    onChange={e => updatePack(pack.id, { barcode: e.target.value || undefined })}
+                    className="w-36 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                  <button type="button" onClick={() => removePack(pack.id)} className="text-gray-400 hover:text-red-600">
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Componentes (kit o combo)</label>
+                  <button
+                    type="button"
+                    onClick={() => updateComponents([...(editingProduct.components || []), { productId: '', quantity: 1 }])}
+                    className="text-xs text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+                  >
+                    <Plus size={14} /> Agregar
+                  </button>
                 </div>
+                {(editingProduct.components || []).map((component, i) => (
+                  <div key={i} className="flex gap-2 items-center mb-2">
+                    <select
+                      value={component.productId}
+                      onChange={e => updateComponents((editingProduct.components || []).map((c, j) => j === i ? { ...c, productId: e.target.value } : c))}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                    >
+                      <option value="">Seleccionar producto...</option>
+                      {products.filter(p => p.id !== editingProduct.id && !isKit(p)).map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      title="Cantidad por kit"
+                      value={component.quantity}
+                      onChange={e => updateComponents((editingProduct.components || []).map((c, j) => j === i ? { ...c, quantity: Number(e.target.value) } : c))}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-emerald-500 outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateComponents((editingProduct.components || []).filter((_, j) => j !== i))}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+                {isKit(editingProduct) && (
+                  <p className="text-xs text-gray-500">
+                    Se vende a su propio precio y cada venta descuenta el stock de sus componentes.
+                  </p>
+                )}
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -209,7 +588,8 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                   <input 
                     required
                     type="number" 
-                    min="0"
+                    step={quantityStep(editingProduct)}
+                    disabled={isKit(editingProduct)}
                     value={editingProduct.currentStock} 
                     onChange={e => setEditingProduct({...editingProduct, currentStock: Number(e.target.value)})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
@@ -221,12 +601,77 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
                     required
                     type="number" 
                     min="0"
+                    step={quantityStep(editingProduct)}
                     value={editingProduct.minStock} 
                     onChange={e => setEditingProduct({...editingProduct, minStock: Number(e.target.value)})}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Impuesto</label>
+                <select
+                  value={editingProduct.taxRateId || ''}
+                  onChange={e => setEditingProduct({...editingProduct, taxRateId: e.target.value || undefined})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                >
+                  <option value="">
+                    Según categoría ({getTaxRate({ ...editingProduct, taxRateId: undefined } as Product, settings.tax).name})
+                  </option>
+                  {settings.tax.rates.map(r => (
+                    <option key={r.id} value={r.id}>{r.name} ({formatRate(r.rate)})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Venta sin stock</label>
+                <select
+                  value={editingProduct.stockPolicy || 'BLOCK'}
+                  onChange={e => setEditingProduct({...editingProduct, stockPolicy: e.target.value as StockPolicy})}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                >
+                  {(Object.keys(STOCK_POLICY_LABELS) as StockPolicy[]).map(policy => (
+                    <option key={policy} value={policy}>{STOCK_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={!!editingProduct.tracksExpiry}
+                  onChange={e => setEditingProduct({...editingProduct, tracksExpiry: e.target.checked || undefined})}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+                <span className="text-sm text-gray-700">Perecible: exigir lote y vencimiento en las compras</span>
+              </label>
+              {isStockEdited && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Motivo del ajuste ({Number(editingProduct.currentStock) - originalStock! > 0 ? '+' : ''}{roundQuantity(Number(editingProduct.currentStock) - originalStock!)} {UNIT_SYMBOLS[getUnit(editingProduct)]})
+                  </label>
+                  <input
+                    required
+                    type="text"
+                    value={stockReason}
+                    placeholder="Ej: conteo físico, producto dañado"
+                    onChange={e => setStockReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-amber-300 bg-amber-50 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">El cambio quedará registrado como ajuste manual en el kardex.</p>
+                  {locations.length > 1 && (
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Ubicación del ajuste</label>
+                      <select
+                        value={adjustmentLocationId}
+                        onChange={e => setAdjustmentLocationId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                      >
+                        {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
               
               <div className="pt-4 flex justify-end gap-3">
                 <button 
@@ -248,6 +693,27 @@ const Inventory: React.FC<InventoryProps> = ({ products, onAddProduct, onUpdateP
           </div>
         </div>
       )}
+
+      {isImportOpen && (
+        <CatalogImport
+          products={products}
+          canEditPrices={canEditPrices}
+          onImport={onImportProducts}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {kardexProduct && (
+        <Kardex
+          product={kardexProduct}
+          stockMovements={stockMovements}
+          costingMethod={settings.costing.method}
+          locationSettings={settings.locations}
+          user={currentUser.name}
+          onRecordMovement={canManage ? onRecordMovement : undefined}
+          onClose={() => setKardexProductId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { CostingMethod, LocationSettings, Product, StockMovement, StockMovementType } from '../types';
+import { buildKardex, createMovement, getLedgerBalances, MOVEMENT_LABELS } from '../services/stockLedger';
+import { COSTING_METHOD_LABELS, replayCosts, valueInventory } from '../services/costing';
+import { MAIN_LOCATION_ID } from '../constants';
+import { locationName } from '../services/locations';
+import { isValidQuantity, quantityStep } from '../services/units';
+import { X, AlertTriangle, Plus } from 'lucide-react';
+
+interface KardexProps {
+  product: Product;
+  stockMovements: StockMovement[];
+  costingMethod: CostingMethod;
+  locationSettings: LocationSettings;
+  user: string;
+  onRecordMovement?: (movement: StockMovement) => void; // Missing when the user can't register movements
+  onClose: () => void;
+}
+
+// Movement types that can be registered by hand; the rest come from invoices
+const MANUAL_TYPES: StockMovementType[] = ['ADJUSTMENT', 'RETURN', 'SHRINKAGE'];
+
+const Kardex: React.FC<KardexProps> = ({ product, stockMovements, costingMethod, locationSettings, user, onRecordMovement, onClose }) => {
+  const [type, setType] = useState<StockMovementType>('ADJUSTMENT');
+  const [direction, setDirection] = useState<'IN' | 'OUT'>('IN');
+  const [quantity, setQuantity] = useState<number>(1);
+  const [reason, setReason] = useState('');
+  const [locationId, setLocationId] = useState(MAIN_LOCATION_ID);
+
+  const entries = buildKardex(stockMovements, product.id);
+  const ledgerBalance = getLedgerBalances(stockMovements).get(product.id) || 0;
+  const isOutOfSync = ledgerBalance !== product.currentStock;
+  const costs = replayCosts(stockMovements, product.id, product.cost);
+  const valuation = valueInventory([product], stockMovements, costingMethod)[0];
+  const hasLocations = locationSettings.locations.length > 1;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRecordMovement || !isValidQuantity(product, quantity) || !reason.trim()) return;
+
+    // Returns always add stock and shrinkage always removes it; adjustments go either way
+    const sign = type === 'RETURN' ? 1 : type === 'SHRINKAGE' ? -1 : (direction === 'IN' ? 1 : -1);
+    onRecordMovement(createMovement({
+      productId: product.id,
+      type,
+      quantity: sign * quantity,
+      user,
+      reason: reason.trim(),
+      ...(locationId !== MAIN_LOCATION_ID ? { locationId } : {}),
+    }));
+    setQuantity(1);
+    setReason('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[90vh] shadow-2xl overflow-hidden flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-lg text-gray-800">Kardex: {product.name}</h3>
+            <p className="text-xs text-gray-500">Stock según movimientos: <span className="font-bold">{ledgerBalance}</span></p>
+            <p className="text-xs text-gray-500">
+              Costo promedio: <span className="font-bold">${product.cost.toLocaleString()}</span>
+              {' · '}Valorizado ({COSTING_METHOD_LABELS[costingMethod]}): <span className="font-bold">${valuation.value.toLocaleString()}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isOutOfSync && (
+          <div className="mx-6 mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 flex items-center gap-2">
+            <AlertTriangle size={16} />
+            El stock registrado ({product.currentStock}) no coincide con el kardex ({ledgerBalance}).
+          </div>
+        )}
+
+        {onRecordMovement && (
+          <form onSubmit={handleSubmit} className={`px-6 py-4 border-b border-gray-100 grid grid-cols-1 ${hasLocations ? 'sm:grid-cols-6' : 'sm:grid-cols-5'} gap-3 items-end`}>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Tipo</label>
+              <select
+                value={type}
+                onChange={e => setType(e.target.value as StockMovementType)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {MANUAL_TYPES.map(t => <option key={t} value={t}>{MOVEMENT_LABELS[t]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Sentido</label>
+              <select
+                value={type === 'ADJUSTMENT' ? direction : type === 'RETURN' ? 'IN' : 'OUT'}
+                disabled={type !== 'ADJUSTMENT'}
+                onChange={e => setDirection(e.target.value as 'IN' | 'OUT')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-gray-100"
+              >
+                <option value="IN">Entrada</option>
+                <option value="OUT">Salida</option>
+              </select>
+            </div>
+            {hasLocations && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Ubicación</label>
+                <select
+                  value={locationId}
+                  onChange={e => setLocationId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  {locationSettings.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Cantidad</label>
+              <input
+                type="number"
+                min={quantityStep(product)}
+                step={quantityStep(product)}
+                value={quantity}
+                onChange={e => setQuantity(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Motivo</label>
+              <input
+                required
+                type="text"
+                value={reason}
+                placeholder="Ej: producto vencido"
+                onChange={e => setReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-900 text-white rounded-lg text-sm flex items-center justify-center gap-2"
+            >
+              <Plus size={16} />
+              Registrar
+            </button>
+          </form>
+        )}
+
+        <div className="overflow-auto flex-1">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+              <tr>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Fecha</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Movimiento</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase">Detalle</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Entrada</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Salida</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Saldo</th>
+                <th className="px-4 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Costo prom.</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...entries].reverse().map(entry => (
+                <tr key={entry.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{new Date(entry.date).toLocaleString()}</td>
+                  <td className="px-4 py-3 font-medium text-gray-800">{MOVEMENT_LABELS[entry.type]}</td>
+                  <td className="px-4 py-3 text-gray-500">
+                    <div>{entry.reason || '-'}</div>
+                    {entry.lot && (
+                      <div className="text-xs text-gray-400">Lote {entry.lot}{entry.expiryDate ? ` · vence ${entry.expiryDate}` : ''}</div>
+                    )}
+                    <div className="text-xs text-gray-400">
+                      {entry.user}{hasLocations ? ` · ${locationName(locationSettings, entry.locationId)}` : ''}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right text-green-600">
+                    {entry.quantity > 0 ? entry.quantity : ''}
+                    {entry.quantity > 0 && entry.unitCost !== undefined && (
+                      <div className="text-xs text-gray-400">a ${entry.unitCost.toLocaleString()}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right text-red-600">
+                    {entry.quantity < 0 ? -entry.quantity : ''}
+                    {entry.quantity < 0 && entry.unitCost !== undefined && (
+                      <div className="text-xs text-gray-400">a ${entry.unitCost.toLocaleString()}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono font-bold text-gray-800">{entry.balance}</td>
+                  <td className="px-4 py-3 text-right text-gray-600">${(costs.averageByMovement.get(entry.id) ?? product.cost).toLocaleString()}</td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center text-gray-400">
+                    Este producto no tiene movimientos registrados.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Kardex;
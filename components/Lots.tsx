@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { LocationSettings, Product, StockMovement, UserAccount } from '../types';
+import {
+  EXPIRY_STATUS_LABELS, ExpiryStatus, NEAR_EXPIRY_DAYS,
+  daysUntilExpiry, expiryLosses, getExpiryStatus, getLotBalances, unassignedStock, writeOffLot, LotBalance,
+} from '../services/lots';
+import { locationName } from '../services/locations';
+import { can } from '../services/users';
+import { AlertTriangle, CalendarClock, Search, Trash2 } from 'lucide-react';
+
+interface LotsProps {
+  products: Product[];
+  stockMovements: StockMovement[];
+  locationSettings: LocationSettings;
+  currentUser: UserAccount;
+  onRecordMovement: (movement: StockMovement) => void;
+}
+
+const STATUS_STYLES: Record<ExpiryStatus, string> = {
+  EXPIRED: 'bg-red-100 text-red-700',
+  NEAR: 'bg-amber-100 text-amber-700',
+  OK: 'bg-emerald-100 text-emerald-700',
+  NONE: 'bg-gray-100 text-gray-600',
+};
+
+const describeDays = (days: number) => (days < 0 ? `hace ${-days} días` : days === 0 ? 'hoy' : `en ${days} días`);
+
+const Lots: React.FC<LotsProps> = ({ products, stockMovements, locationSettings, currentUser, onRecordMovement }) => {
+  const [statusFilter, setStatusFilter] = useState<ExpiryStatus | 'ALL'>('ALL');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const today = new Date().toISOString().split('T')[0];
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const productOf = (id: string) => products.find(p => p.id === id);
+  const canWriteOff = can(currentUser, 'MANAGE_PRODUCTS');
+  const showLocation = locationSettings.locations.length > 1;
+
+  const lots = getLotBalances(stockMovements).filter(lot => productOf(lot.productId));
+  const withStatus = lots.map(lot => ({ lot, product: productOf(lot.productId)!, status: getExpiryStatus(lot, today) }));
+  const expired = withStatus.filter(l => l.status === 'EXPIRED');
+  const near = withStatus.filter(l => l.status === 'NEAR');
+
+  const visible = withStatus.filter(l =>
+    (statusFilter === 'ALL' || l.status === statusFilter) &&
+    l.product.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  // Perishables with stock that isn't in any lot, e.g. from before lots were recorded
+  const unassigned = products
+    .filter(p => p.tracksExpiry)
+    .map(p => ({ product: p, quantity: unassignedStock(p, lots) }))
+    .filter(u => u.quantity > 0);
+
+  const writeOffs = stockMovements
+    .filter(m => m.type === 'EXPIRY')
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, 10);
+
+  const handleWriteOff = (lot: LotBalance, product: Product) => {
+    const expiry = lot.expiryDate ? ` (vence ${lot.expiryDate})` : '';
+    if (!window.confirm(`¿Dar de baja ${lot.quantity} un. de ${product.name}, lote ${lot.lot}${expiry}? Se registrará como pérdida.`)) return;
+    onRecordMovement(writeOffLot(lot, product, currentUser.name, `Lote ${lot.lot} vencido${expiry}`));
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Lotes y Vencimientos</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Lotes vencidos</span>
+          <h3 className={`text-2xl font-bold mt-2 ${expired.length > 0 ? 'text-red-600' : 'text-gray-800'}`}>{expired.length}</h3>
+          <p className="text-xs text-gray-500 mt-1">{expired.reduce((sum, l) => sum + l.lot.quantity, 0)} unidades en bodega</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Por vencer</span>
+          <h3 className={`text-2xl font-bold mt-2 ${near.length > 0 ? 'text-amber-600' : 'text-gray-800'}`}>{near.length}</h3>
+          <p className="text-xs text-gray-500 mt-1">En los próximos {NEAR_EXPIRY_DAYS} días</p>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Pérdidas del mes</span>
+          <h3 className="text-2xl font-bold mt-2 text-gray-800">${expiryLosses(stockMovements, monthStart).toLocaleString()}</h3>
+          <p className="text-xs text-gray-500 mt-1">Bajas por vencimiento, a costo promedio</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+          <input
+            type="text"
+            placeholder="Buscar producto..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={e => setStatusFilter(e.target.value as ExpiryStatus | 'ALL')}
+          className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+        >
+          <option value="ALL">Todos los lotes</option>
+          {(Object.keys(EXPIRY_STATUS_LABELS) as ExpiryStatus[]).map(status => (
+            <option key={status} value={status}>{EXPIRY_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Producto</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Lote</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Vencimiento</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Stock</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Valor</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Estado</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(({ lot, product, status }) => (
+                <tr key={`${lot.productId}-${lot.lot}-${lot.locationId}`} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 font-medium text-gray-800">
+                    {product.name}
+                    {showLocation && <div className="text-xs text-gray-400">{locationName(locationSettings, lot.locationId)}</div>}
+                  </td>
+                  <td className="px-6 py-4 font-mono text-sm text-gray-600">{lot.lot}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {lot.expiryDate || '-'}
+                    {lot.expiryDate && (
+                      <div className="text-xs text-gray-400">{describeDays(daysUntilExpiry(lot.expiryDate, today))}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-800">{lot.quantity}</td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-600">${Math.round(lot.quantity * product.cost).toLocaleString()}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>{EXPIRY_STATUS_LABELS[status]}</span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {canWriteOff && (
+                      <button
+                        onClick={() => handleWriteOff(lot, product)}
+                        className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md border ${
+                          status === 'EXPIRED' ? 'border-red-200 text-red-600 hover:bg-red-50' : 'border-gray-200 text-gray-500 hover:bg-gray-50'
+                        }`}
+                        title="Sacar el lote del stock como pérdida"
+                      >
+                        <Trash2 size={14} /> Dar de baja
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-400">
+                    No hay lotes con stock. Los lotes se registran al ingresar compras con número de lote o fecha de vencimiento.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {unassigned.length > 0 && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 flex items-start gap-2">
+          <AlertTriangle size={18} className="mt-0.5 flex-shrink-0" />
+          <span>
+            Stock perecible sin lote (no se controla su vencimiento): {unassigned.map(u => `${u.product.name} (${u.quantity} un.)`).join(', ')}.
+          </span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+            <CalendarClock size={18} className="text-gray-400" />
+            Últimas bajas por vencimiento
+          </h3>
+        </div>
+        {writeOffs.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {writeOffs.map(m => (
+                <tr key={m.id}>
+                  <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{new Date(m.date).toLocaleDateString()}</td>
+                  <td className="px-6 py-3 text-gray-800">{productOf(m.productId)?.name || 'Producto eliminado'}</td>
+                  <td className="px-6 py-3 text-gray-500">{m.reason}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">{-m.quantity} un.</td>
+                  <td className="px-6 py-3 text-right font-medium text-red-600">-${Math.round(-m.quantity * (m.unitCost || 0)).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="p-6 text-sm text-gray-400">No se han dado de baja lotes.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Lots;
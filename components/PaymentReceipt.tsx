@@ -0,0 +1,53 @@
+import React from 'react';
+import { Customer, CustomerPayment, ReceiptSettings } from '../types';
+import { formatPaymentFolio } from '../services/customers';
+import { PAYMENT_METHOD_LABELS } from '../services/cashRegister';
+import { formatMoney } from '../services/receipt';
+
+interface PaymentReceiptProps {
+  payment: CustomerPayment;
+  customer: Customer;
+  balanceAfter: number;
+  settings: ReceiptSettings;
+}
+
+interface RowProps {
+  label: string;
+  value: string;
+  bold?: boolean;
+}
+
+const Row: React.FC<RowProps> = ({ label, value, bold }) => (
+  <div className={`flex justify-between gap-2 ${bold ? 'font-bold text-sm' : ''}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+// Proof of a payment towards the customer's account, at the receipt roll width
+const PaymentReceipt: React.FC<PaymentReceiptProps> = ({ payment, customer, balanceAfter, settings }) => (
+  <div style={{ width: `${settings.paperWidth}mm` }} className="bg-white text-black font-mono text-[11px] leading-tight p-2 space-y-2">
+    <div className="text-center">
+      <div className="text-sm font-bold">{settings.storeName}</div>
+      {settings.headerLines.split('\n').map(l => l.trim()).filter(Boolean).map((line, i) => <div key={i}>{line}</div>)}
+    </div>
+    <div className="text-center border-t border-dashed border-black pt-1">
+      <div className="font-bold">COMPROBANTE DE ABONO</div>
+      <div>N° {formatPaymentFolio(payment)}</div>
+      <div>{new Date(payment.date).toLocaleString('es-CL')}</div>
+    </div>
+    <div className="border-t border-dashed border-black pt-1">
+      <div>Cliente: {customer.name}</div>
+      {customer.rut && <div>RUT: {customer.rut}</div>}
+    </div>
+    <div className="border-t border-dashed border-black pt-1">
+      <Row label="ABONO" value={formatMoney(payment.amount)} bold />
+      <Row label="Medio de pago" value={PAYMENT_METHOD_LABELS[payment.method]} />
+      <Row label="Saldo pendiente" value={formatMoney(balanceAfter)} />
+    </div>
+    {payment.notes && <div>Obs.: {payment.notes}</div>}
+    <div className="border-t border-dashed border-black pt-1 text-center">Recibido por {payment.user}</div>
+  </div>
+);
+
+export default PaymentReceipt;
@@ -0,0 +1,20 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+interface PrintAreaProps {
+  children: React.ReactNode;
+  onDone: () => void;
+}
+
+// Renders its content outside the app root and opens the browser print dialog.
+// The print stylesheet in index.html hides everything else on paper.
+const PrintArea: React.FC<PrintAreaProps> = ({ children, onDone }) => {
+  useEffect(() => {
+    window.print();
+    onDone();
+  }, []);
+
+  return createPortal(<div className="print-area">{children}</div>, document.body);
+};
+
+export default PrintArea;
@@ -1,90 +1,87 @@
 import React, { useState } from 'react';
 import { Product, Invoice } from '../types';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { TrendingUp, Package, DollarSign } from 'lucide-react';
+import { isEffectiveInvoice } from '../services/invoices';
+import { summarizePromotionPerformance } from '../services/promotions';
+import { expandKitItems, isKit } from '../services/kits';
+import {
+  FORECAST_METHOD_LABELS, DEFAULT_FORECAST_METHOD, FORECAST_HISTORY_DAYS, ForecastMethod,
+  salesHistory, forecastSeries, backtestForecast, forecastProducts,
+} from '../services/forecasting';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { TrendingUp, Package, DollarSign, Tags, Target } from 'lucide-react';
+
+interface ChartPoint {
+  date: string;
+  real: number | null;
+  estimated: number | null;
+  band: [number, number] | null; // 95% forecast interval
+}
+
+const FORECAST_HORIZON = 7;
+
+const formatMape = (mape: number | null | undefined) =>
+  mape === null || mape === undefined ? '—' : `${(mape * 100).toFixed(1)}%`;
 
 interface ProductAnalyticsProps {
   products: Product[];
   invoices: Invoice[];
 }
 
-const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices }) => {
+const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products: allProducts, invoices }) => {
+  // Kit sales are attributed to their components, so kits have no figures of their own here
+  const products = allProducts.filter(p => !isKit(p));
   const [selectedProductId, setSelectedProductId] = useState<string>(products[0]?.id || '');
   const [timeRange, setTimeRange] = useState<'WEEK' | 'MONTH' | 'YEAR'>('MONTH');
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>(DEFAULT_FORECAST_METHOD);
 
   const selectedProduct = products.find(p => p.id === selectedProductId);
 
-  // Calculate stats for the selected product
+  // Calculate stats for the selected product, counting what it contributed to kits sold
   const productInvoices = invoices.filter(inv => 
-    inv.items.some(item => item.productId === selectedProductId)
+    isEffectiveInvoice(inv) && expandKitItems(inv.items).some(item => item.productId === selectedProductId)
   );
-
-  const totalSold = productInvoices
+  const soldItems = productInvoices
     .filter(inv => inv.type === 'SALE')
-    .reduce((acc, inv) => acc + (inv.items.find(i => i.productId === selectedProductId)?.quantity || 0), 0);
+    .flatMap(inv => expandKitItems(inv.items))
+    .filter(i => i.productId === selectedProductId);
 
-  const totalRevenue = productInvoices
-    .filter(inv => inv.type === 'SALE')
-    .reduce((acc, inv) => acc + (inv.items.find(i => i.productId === selectedProductId)?.total || 0), 0);
+  const totalSold = soldItems.reduce((acc, i) => acc + i.quantity, 0);
+
+  const totalRevenue = soldItems.reduce((acc, i) => acc + i.total, 0);
+
+  // Daily units sold (zero-filled) for the chart range, plus a deterministic forecast
+  const today = new Date().toISOString().split('T')[0];
+  const history = salesHistory(invoices, today, FORECAST_HISTORY_DAYS, selectedProductId);
+  const accuracy = backtestForecast(history, forecastMethod);
 
-  // Prepare chart data with aggregation and projection
   const generateChartData = () => {
-    const rawMap = new Map<string, number>();
-    
-    // 1. Gather historical data
-    productInvoices.forEach(inv => {
-      if (inv.type === 'SALE') {
-        const qty = inv.items.find(i => i.productId === selectedProductId)?.quantity || 0;
-        rawMap.set(inv.date, (rawMap.get(inv.date) || 0) + qty);
-      }
-    });
-
-    let data = Array.from(rawMap.entries())
-      .map(([date, qty]) => ({ date, real: qty, estimated: null as number | null }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    // 2. Filter by Time Range
-    const today = new Date();
+    if (productInvoices.length === 0) return [];
     const rangeDays = timeRange === 'WEEK' ? 7 : timeRange === 'MONTH' ? 30 : 365;
-    const cutoffDate = new Date(today);
-    cutoffDate.setDate(today.getDate() - rangeDays);
-    
-    data = data.filter(d => new Date(d.date) >= cutoffDate);
-
-    // 3. Fill gaps (optional for line chart, but good for logic) if needed, 
-    // or just let the line chart connect points.
-    
-    // 4. Create Projections (Visual Forecast)
-    if (data.length > 1) {
-       // Average sales per day in the visible range
-       const avgSales = data.reduce((acc, curr) => acc + curr.real, 0) / data.length;
-       
-       const lastItem = data[data.length - 1];
-       // Connector point
-       lastItem.estimated = lastItem.real;
-
-       const lastDate = new Date(lastItem.date);
-       // Forecast 4 periods
-       for(let i = 1; i <= 4; i++) {
-           const nextDate = new Date(lastDate);
-           nextDate.setDate(lastDate.getDate() + i); // Assuming daily granularity for simplicity in demo
-           
-           // Simple variance logic
-           const variance = Math.random() * 2 - 1; // -1 to 1
-           const nextVal = Math.max(0, Math.round(avgSales + variance));
-           
-           data.push({
-               date: nextDate.toISOString().split('T')[0],
-               real: null,
-               estimated: nextVal
-           });
-       }
+    const data: ChartPoint[] = salesHistory(invoices, today, rangeDays, selectedProductId)
+      .map(point => ({ date: point.date, real: point.value, estimated: null, band: null }));
+
+    const forecast = forecastSeries(history, FORECAST_HORIZON, forecastMethod);
+    if (data.length > 0 && forecast.length > 0) {
+      // Connector point
+      const lastItem = data[data.length - 1];
+      lastItem.estimated = lastItem.real;
+      lastItem.band = [lastItem.real!, lastItem.real!];
+      forecast.forEach(point => {
+        data.push({ date: point.date, real: null, estimated: point.value, band: [point.lower, point.upper] });
+      });
     }
 
     return data;
   };
 
   const chartData = generateChartData();
+  const productForecasts = forecastProducts(products, invoices, today, forecastMethod, FORECAST_HORIZON)
+    .sort((a, b) => b.averageDaily - a.averageDaily);
+
+  // Promotion usage over the same range as the chart
+  const rangeStart = new Date();
+  rangeStart.setDate(rangeStart.getDate() - (timeRange === 'WEEK' ? 7 : timeRange === 'MONTH' ? 30 : 365));
+  const promotionPerformance = summarizePromotionPerformance(invoices, rangeStart.toISOString().split('T')[0]);
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -106,7 +103,7 @@ const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices
       {selectedProduct ? (
         <>
           {/* Quick Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-center gap-4">
                 <div className="p-3 bg-blue-100 text-blue-600 rounded-full">
                     <TrendingUp size={24} />
@@ -134,12 +131,32 @@ const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices
                     <h3 className="text-xl font-bold text-gray-800">{selectedProduct.currentStock} unidades</h3>
                 </div>
             </div>
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 flex items-center gap-4">
+                <div className="p-3 bg-amber-100 text-amber-600 rounded-full">
+                    <Target size={24} />
+                </div>
+                <div>
+                    <p className="text-sm text-gray-500">Error del Pronóstico (MAPE)</p>
+                    <h3 className="text-xl font-bold text-gray-800">{formatMape(accuracy?.mape)}</h3>
+                </div>
+            </div>
           </div>
 
           {/* Charts */}
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 min-w-0">
             <div className="flex justify-between items-center mb-6">
                 <h3 className="text-lg font-bold text-gray-800">Tendencia y Proyección</h3>
+                <div className="flex items-center gap-2">
+                <select
+                    value={forecastMethod}
+                    onChange={(e) => setForecastMethod(e.target.value as ForecastMethod)}
+                    className="px-2 py-1 text-xs border border-gray-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-emerald-500"
+                    title="Método de proyección"
+                >
+                    {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map(method => (
+                        <option key={method} value={method}>{FORECAST_METHOD_LABELS[method]}</option>
+                    ))}
+                </select>
                 <div className="flex bg-gray-100 rounded-lg p-1">
                     {(['WEEK', 'MONTH', 'YEAR'] as const).map(range => (
                         <button
@@ -153,12 +170,13 @@ const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices
                         </button>
                     ))}
                 </div>
+                </div>
             </div>
 
             <div className="h-80 w-full">
                 {chartData.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={chartData}>
+                    <ComposedChart data={chartData}>
                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
                         <XAxis dataKey="date" tick={{fontSize: 10}} stroke="#9ca3af" />
                         <YAxis tick={{fontSize: 10}} stroke="#9ca3af"/>
@@ -166,9 +184,10 @@ const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices
                             contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
                         />
                         <Legend iconType="circle" wrapperStyle={{paddingTop: '10px'}}/>
-                        <Line type="monotone" dataKey="real" name="Ventas Reales" stroke="#059669" strokeWidth={3} dot={{r: 4, fill: '#059669'}} activeDot={{r: 6}} />
-                        <Line type="monotone" dataKey="estimated" name="Proyección" stroke="#fbbf24" strokeDasharray="5 5" strokeWidth={3} dot={{r: 4, fill: '#fbbf24'}} />
-                    </LineChart>
+                        <Area type="monotone" dataKey="band" name="Intervalo 95%" stroke="none" fill="#fbbf24" fillOpacity={0.15} />
+                        <Line type="monotone" dataKey="real" name="Ventas Reales" stroke="#059669" strokeWidth={3} dot={chartData.length <= 45 ? {r: 4, fill: '#059669'} : false} activeDot={{r: 6}} />
+                        <Line type="monotone" dataKey="estimated" name="Proyección" stroke="#fbbf24" strokeDasharray="5 5" strokeWidth={3} dot={chartData.length <= 45 ? {r: 4, fill: '#fbbf24'} : false} />
+                    </ComposedChart>
                   </ResponsiveContainer>
                 ) : (
                     <div className="h-full flex items-center justify-center text-gray-400">
@@ -183,6 +202,93 @@ const ProductAnalytics: React.FC<ProductAnalyticsProps> = ({ products, invoices
               Selecciona un producto para ver sus estadísticas.
           </div>
       )}
+
+      {/* Forecast accuracy */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Target size={20} className="text-gray-400" />
+            Precisión del Pronóstico
+          </h3>
+          <span className="text-xs text-gray-400">
+            {FORECAST_METHOD_LABELS[forecastMethod]} · MAPE de la última semana
+          </span>
+        </div>
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Producto</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Venta diaria prom.</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Próximos {FORECAST_HORIZON} días</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">MAPE</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Error medio (un.)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {productForecasts.map(f => (
+                <tr
+                  key={f.product.id}
+                  onClick={() => setSelectedProductId(f.product.id)}
+                  className={`cursor-pointer hover:bg-gray-50 ${f.product.id === selectedProductId ? 'bg-emerald-50' : ''}`}
+                >
+                  <td className="px-6 py-3 font-medium text-gray-800">{f.product.name}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">{f.averageDaily}</td>
+                  <td className="px-6 py-3 text-right text-gray-600">{f.forecastTotal}</td>
+                  <td className={`px-6 py-3 text-right font-medium ${
+                    f.accuracy?.mape === null || f.accuracy?.mape === undefined ? 'text-gray-400'
+                      : f.accuracy.mape <= 0.2 ? 'text-emerald-600' : f.accuracy.mape <= 0.5 ? 'text-amber-600' : 'text-red-600'
+                  }`}>
+                    {formatMape(f.accuracy?.mape)}
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-600">{f.accuracy ? f.accuracy.mae : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Promotion performance */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Tags size={20} className="text-gray-400" />
+            Rendimiento de Promociones
+          </h3>
+          <span className="text-xs text-gray-400">
+            Últimos {timeRange === 'WEEK' ? '7 días' : timeRange === 'MONTH' ? '30 días' : '12 meses'}
+          </span>
+        </div>
+        {promotionPerformance.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Promoción</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Boletas</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Unidades</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Ventas</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Descuento otorgado</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {promotionPerformance.map(perf => (
+                  <tr key={perf.promotionId} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 font-medium text-gray-800">{perf.promotionName}</td>
+                    <td className="px-6 py-3 text-gray-600">{perf.invoices}</td>
+                    <td className="px-6 py-3 text-gray-600">{perf.units}</td>
+                    <td className="px-6 py-3 font-medium text-gray-800">${perf.revenue.toLocaleString()}</td>
+                    <td className="px-6 py-3 text-orange-600">-${perf.discount.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="p-6 text-sm text-gray-400">No se aplicaron promociones en este período.</p>
+        )}
+      </div>
     </div>
   );
 };
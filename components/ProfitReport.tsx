@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Product, Invoice, TaxSettings } from '../types';
+import { buildProfitReport, ProfitLine } from '../services/profit';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+
+interface ProfitReportProps {
+  products: Product[];
+  invoices: Invoice[];
+  taxSettings: TaxSettings;
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const formatMargin = (margin: number) => `${(margin * 100).toFixed(1)}%`;
+
+const ProfitTable: React.FC<{ title: string; lines: ProfitLine[]; showQuantity?: boolean }> = ({ title, lines, showQuantity }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-100">
+      <h3 className="font-semibold text-gray-800">{title}</h3>
+    </div>
+    <div className="overflow-x-auto max-h-96">
+      <table className="w-full text-left text-sm">
+        <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+          <tr>
+            <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase"></th>
+            {showQuantity && <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Unid.</th>}
+            <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Venta neta</th>
+            <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Costo</th>
+            <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Margen</th>
+            <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">%</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {lines.map(line => (
+            <tr key={line.key}>
+              <td className="px-6 py-3 text-gray-700">{line.label}</td>
+              {showQuantity && <td className="px-6 py-3 text-right text-gray-600">{line.quantity}</td>}
+              <td className="px-6 py-3 text-right text-gray-600">${line.revenue.toLocaleString()}</td>
+              <td className="px-6 py-3 text-right text-gray-600">${line.cogs.toLocaleString()}</td>
+              <td className={`px-6 py-3 text-right font-medium ${line.grossProfit >= 0 ? 'text-gray-800' : 'text-red-600'}`}>
+                ${line.grossProfit.toLocaleString()}
+              </td>
+              <td className={`px-6 py-3 text-right ${line.margin >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatMargin(line.margin)}</td>
+            </tr>
+          ))}
+          {lines.length === 0 && (
+            <tr>
+              <td colSpan={showQuantity ? 6 : 5} className="px-6 py-8 text-center text-gray-400">Sin ventas en el período.</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const ProfitReport: React.FC<ProfitReportProps> = ({ products, invoices, taxSettings }) => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+
+  const report = buildProfitReport(invoices, from, to, products, taxSettings);
+
+  const summary = [
+    { label: 'Ventas netas', value: report.revenue, className: 'text-gray-800' },
+    { label: 'Costo de ventas', value: report.cogs, className: 'text-gray-800' },
+    { label: 'Margen bruto', value: report.grossProfit, className: report.grossProfit >= 0 ? 'text-green-600' : 'text-red-600' },
+  ];
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col sm:flex-row gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <p className="text-xs text-gray-400 sm:ml-auto max-w-sm">
+          Montos netos de IVA. El costo de cada línea es el costo promedio del producto al momento de la venta; las ventas anuladas no se consideran.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {summary.map(card => (
+          <div key={card.label} className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{card.label}</span>
+            <h3 className={`text-2xl font-bold mt-2 ${card.className}`}>${card.value.toLocaleString()}</h3>
+          </div>
+        ))}
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100">
+          <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Margen %</span>
+          <h3 className={`text-2xl font-bold mt-2 ${report.margin >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>{formatMargin(report.margin)}</h3>
+        </div>
+      </div>
+
+      {report.estimatedLines > 0 && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 flex items-center gap-2">
+          <AlertTriangle size={16} />
+          {report.estimatedLines} líneas de venta son anteriores al registro de costos y se calcularon con el costo actual del producto.
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+        <h3 className="font-semibold text-gray-800 mb-4">Margen por {report.period === 'DAY' ? 'día' : 'mes'}</h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={report.byPeriod}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis dataKey="label" tick={{fontSize: 10}} tickMargin={10} stroke="#9ca3af" />
+              <YAxis tick={{fontSize: 10}} stroke="#9ca3af" tickFormatter={(val) => `$${val}`} />
+              <Tooltip
+                contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+                formatter={(value: number) => `$${value.toLocaleString()}`}
+              />
+              <Legend iconType="circle" wrapperStyle={{paddingTop: '10px', fontSize: '12px'}}/>
+              <Bar dataKey="revenue" name="Venta neta" fill="#10b981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="cogs" name="Costo de ventas" fill="#f97316" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="grossProfit" name="Margen bruto" fill="#6366f1" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ProfitTable title="Por categoría" lines={report.byCategory} />
+        <ProfitTable title="Por producto" lines={report.byProduct} showQuantity />
+      </div>
+    </div>
+  );
+};
+
+export default ProfitReport;
@@ -0,0 +1,407 @@
+import React, { useState } from 'react';
+import { Product, Promotion, UserAccount } from '../types';
+import { DAY_LABELS, describePromotion, isPromotionActive } from '../services/promotions';
+import { can } from '../services/users';
+import { Plus, Trash2, Edit2, Save, X, Tags } from 'lucide-react';
+
+interface PromotionsProps {
+  products: Product[];
+  promotions: Promotion[];
+  currentUser: UserAccount;
+  onSavePromotion: (promotion: Promotion) => void;
+  onDeletePromotion: (id: string) => void;
+}
+
+type Preset = 'TWO_FOR_ONE' | 'THREE_FOR_TWO' | 'CATEGORY' | 'HAPPY_HOUR';
+
+const PRESETS: { id: Preset; label: string; build: () => Partial<Promotion> }[] = [
+  { id: 'TWO_FOR_ONE', label: '2x1', build: () => ({ name: '2x1', type: 'BUY_X_PAY_Y', buyQuantity: 2, payQuantity: 1 }) },
+  { id: 'THREE_FOR_TWO', label: 'Lleva 3 paga 2', build: () => ({ name: 'Lleva 3 paga 2', type: 'BUY_X_PAY_Y', buyQuantity: 3, payQuantity: 2 }) },
+  { id: 'CATEGORY', label: '% por categoría', build: () => ({ name: 'Descuento por categoría', type: 'PERCENT_OFF', percent: 10 }) },
+  { id: 'HAPPY_HOUR', label: 'Happy hour', build: () => ({ name: 'Happy hour', type: 'PERCENT_OFF', percent: 20, startTime: '18:00', endTime: '20:00' }) },
+];
+
+const emptyPromotion = (): Partial<Promotion> => ({
+  name: '',
+  type: 'PERCENT_OFF',
+  active: true,
+  productIds: [],
+  categories: [],
+  percent: 10,
+  daysOfWeek: [],
+});
+
+const Promotions: React.FC<PromotionsProps> = ({ products, promotions, currentUser, onSavePromotion, onDeletePromotion }) => {
+  const [editing, setEditing] = useState<Partial<Promotion> | null>(null);
+  const [error, setError] = useState('');
+  // Promotions change what products sell for, so they follow the price permission
+  const canEdit = can(currentUser, 'EDIT_PRICES');
+
+  const categories = Array.from(new Set<string>(products.map(p => p.category))).sort();
+  const now = new Date();
+
+  const openNew = (preset?: Preset) => {
+    setEditing({ ...emptyPromotion(), ...(PRESETS.find(p => p.id === preset)?.build() || {}) });
+    setError('');
+  };
+
+  const toggleInList = <T,>(list: T[] | undefined, value: T): T[] =>
+    (list || []).includes(value) ? (list || []).filter(v => v !== value) : [...(list || []), value];
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing?.name?.trim()) return;
+
+    if (editing.type === 'BUY_X_PAY_Y') {
+      const buy = Number(editing.buyQuantity);
+      const pay = Number(editing.payQuantity);
+      if (!(buy > 1) || !(pay >= 1) || pay >= buy) {
+        setError('La cantidad a pagar debe ser menor que la cantidad que se lleva.');
+        return;
+      }
+    } else if (!(Number(editing.percent) > 0 && Number(editing.percent) <= 100)) {
+      setError('El porcentaje debe estar entre 1 y 100.');
+      return;
+    }
+    if (editing.startDate && editing.endDate && editing.endDate < editing.startDate) {
+      setError('La fecha de término es anterior a la de inicio.');
+      return;
+    }
+
+    const promotion: Promotion = {
+      id: editing.id || crypto.randomUUID(),
+      name: editing.name.trim(),
+      type: editing.type || 'PERCENT_OFF',
+      active: editing.active ?? true,
+      productIds: editing.productIds || [],
+      categories: editing.categories || [],
+      ...(editing.type === 'BUY_X_PAY_Y'
+        ? { buyQuantity: Number(editing.buyQuantity), payQuantity: Number(editing.payQuantity) }
+        : { percent: Number(editing.percent) }),
+      ...(editing.startDate ? { startDate: editing.startDate } : {}),
+      ...(editing.endDate ? { endDate: editing.endDate } : {}),
+      ...(editing.startTime ? { startTime: editing.startTime } : {}),
+      ...(editing.endTime ? { endTime: editing.endTime } : {}),
+      ...(editing.daysOfWeek && editing.daysOfWeek.length > 0 ? { daysOfWeek: [...editing.daysOfWeek].sort() } : {}),
+    };
+    onSavePromotion(promotion);
+    setEditing(null);
+  };
+
+  const scopeLabel = (promotion: Promotion) => {
+    const names = [
+      ...promotion.categories,
+      ...promotion.productIds.map(id => products.find(p => p.id === id)?.name || 'Producto eliminado'),
+    ];
+    return names.length > 0 ? names.join(', ') : 'Todos los productos';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Promociones</h2>
+        {canEdit && (
+          <button
+            onClick={() => openNew()}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+          >
+            <Plus size={20} />
+            Nueva Promoción
+          </button>
+        )}
+      </div>
+
+      {/* Presets */}
+      {canEdit && (
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => openNew(preset.id)}
+              className="px-3 py-1.5 bg-white border border-gray-200 hover:border-emerald-500 hover:text-emerald-700 rounded-lg text-sm text-gray-600 transition-colors"
+            >
+              + {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Promoción</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Aplica a</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Vigencia</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Estado</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {promotions.map(promotion => (
+                <tr key={promotion.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-gray-900">{promotion.name}</div>
+                    <div className="text-xs text-gray-500">{describePromotion(promotion)}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{scopeLabel(promotion)}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {promotion.startDate || promotion.endDate
+                      ? `${promotion.startDate || '...'} → ${promotion.endDate || '...'}`
+                      : 'Sin fecha de término'}
+                  </td>
+                  <td className="px-6 py-4">
+                    {!promotion.active ? (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Pausada</span>
+                    ) : isPromotionActive(promotion, now) ? (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">Vigente ahora</span>
+                    ) : (
+                      <span className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700">Fuera de horario</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right space-x-2">
+                    {canEdit && (
+                      <>
+                        <button onClick={() => { setEditing({ ...promotion }); setError(''); }} className="text-gray-400 hover:text-emerald-600 transition-colors">
+                          <Edit2 size={18} />
+                        </button>
+                        <button onClick={() => onDeletePromotion(promotion.id)} className="text-gray-400 hover:text-red-600 transition-colors">
+                          <Trash2 size={18} />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {promotions.length === 0 && (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <Tags size={32} className="text-gray-300" />
+            Aún no hay promociones. Se aplican automáticamente en Facturación.
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">
+                {editing.id ? 'Editar Promoción' : 'Nueva Promoción'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                <input
+                  required
+                  type="text"
+                  value={editing.name || ''}
+                  onChange={e => setEditing({ ...editing, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+                  <select
+                    value={editing.type}
+                    onChange={e => setEditing({ ...editing, type: e.target.value as Promotion['type'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                  >
+                    <option value="PERCENT_OFF">% de descuento</option>
+                    <option value="BUY_X_PAY_Y">Lleva X paga Y</option>
+                  </select>
+                </div>
+                {editing.type === 'BUY_X_PAY_Y' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Lleva</label>
+                      <input
+                        type="number"
+                        min="2"
+                        value={editing.buyQuantity ?? ''}
+                        onChange={e => setEditing({ ...editing, buyQuantity: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Paga</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={editing.payQuantity ?? ''}
+                        onChange={e => setEditing({ ...editing, payQuantity: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Descuento (%)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={editing.percent ?? ''}
+                      onChange={e => setEditing({ ...editing, percent: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Categorías</label>
+                <div className="flex flex-wrap gap-2">
+                  {categories.map(category => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => setEditing({ ...editing, categories: toggleInList(editing.categories, category) })}
+                      className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+                        editing.categories?.includes(category)
+                          ? 'bg-emerald-50 border-emerald-500 text-emerald-700'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Productos</label>
+                <select
+                  value=""
+                  onChange={e => e.target.value && setEditing({ ...editing, productIds: toggleInList(editing.productIds, e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                >
+                  <option value="">Agregar producto...</option>
+                  {products
+                    .filter(p => !editing.productIds?.includes(p.id))
+                    .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {(editing.productIds || []).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(editing.productIds || []).map(id => (
+                      <span key={id} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-md text-xs text-gray-700">
+                        {products.find(p => p.id === id)?.name || 'Producto eliminado'}
+                        <button type="button" onClick={() => setEditing({ ...editing, productIds: toggleInList(editing.productIds, id) })} className="text-gray-400 hover:text-red-600">
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-1">Sin categorías ni productos, la promoción aplica a todo el catálogo.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                  <input
+                    type="date"
+                    value={editing.startDate || ''}
+                    onChange={e => setEditing({ ...editing, startDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                  <input
+                    type="date"
+                    value={editing.endDate || ''}
+                    onChange={e => setEditing({ ...editing, endDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hora inicio</label>
+                  <input
+                    type="time"
+                    value={editing.startTime || ''}
+                    onChange={e => setEditing({ ...editing, startTime: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hora término</label>
+                  <input
+                    type="time"
+                    value={editing.endTime || ''}
+                    onChange={e => setEditing({ ...editing, endTime: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Días</label>
+                <div className="flex flex-wrap gap-1">
+                  {DAY_LABELS.map((label, day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => setEditing({ ...editing, daysOfWeek: toggleInList(editing.daysOfWeek, day) })}
+                      className={`w-11 py-1 rounded-md text-xs border transition-colors ${
+                        editing.daysOfWeek?.includes(day)
+                          ? 'bg-emerald-50 border-emerald-500 text-emerald-700'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Sin días marcados, aplica todos los días.</p>
+              </div>
+
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={editing.active ?? true}
+                  onChange={e => setEditing({ ...editing, active: e.target.checked })}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+                <span className="text-sm text-gray-700">Promoción activa</span>
+              </label>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <Save size={18} />
+                  Guardar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Promotions;
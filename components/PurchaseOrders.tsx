@@ -0,0 +1,618 @@
+import React, { useState } from 'react';
+import { Invoice, LocationSettings, Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types';
+import {
+  PURCHASE_ORDER_STATUS_LABELS, ReceiveInput, canCancelOrder, canEditOrder, canReceiveOrder, canSendOrder, cancelOrder,
+  formatOrderFolio, getDiscrepancies, nextOrderFolio, orderTotal, pendingQuantity, sendOrder,
+} from '../services/purchaseOrders';
+import { getSupplierCatalog } from '../services/suppliers';
+import { formatFolio } from '../services/invoices';
+import { isKit } from '../services/kits';
+import { isValidQuantity, quantityStep } from '../services/units';
+import { Plus, Trash2, Edit2, Save, X, Send, PackageCheck, Ban, ClipboardList, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
+
+interface PurchaseOrdersProps {
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+  products: Product[];
+  invoices: Invoice[];
+  onSaveOrder: (order: PurchaseOrder) => void;
+  onDeleteOrder: (id: string) => void;
+  onReceiveOrder: (orderId: string, received: ReceiveInput[], closeShort: boolean, locationId: string) => string | undefined; // Returns an error message
+  onCloseOrder: (orderId: string) => void;
+  locationSettings: LocationSettings;
+}
+
+const STATUS_BADGES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-600',
+  SENT: 'bg-blue-100 text-blue-700',
+  PARTIAL: 'bg-amber-100 text-amber-700',
+  RECEIVED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-red-100 text-red-700',
+};
+
+const addDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({
+  orders, suppliers, products, invoices, onSaveOrder, onDeleteOrder, onReceiveOrder, onCloseOrder, locationSettings,
+}) => {
+  const [editing, setEditing] = useState<PurchaseOrder | null>(null);
+  const [lineProductId, setLineProductId] = useState('');
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const [receivedInput, setReceivedInput] = useState<ReceiveInput[]>([]);
+  const [closeShort, setCloseShort] = useState(false);
+  const [receivingLocationId, setReceivingLocationId] = useState(locationSettings.receivingLocationId);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const sortedOrders = [...orders].sort((a, b) => b.folio - a.folio);
+  const supplierName = (id?: string) => id ? suppliers.find(s => s.id === id)?.name || 'Proveedor eliminado' : 'Sin proveedor';
+
+  // Costs default to the last price paid to the order's supplier
+  const editingSupplier = editing ? suppliers.find(s => s.id === editing.supplierId) : undefined;
+  const supplierCatalog = editingSupplier ? getSupplierCatalog(editingSupplier, products, invoices) : [];
+  const defaultCost = (product: Product) =>
+    supplierCatalog.find(entry => entry.product.id === product.id)?.lastCost ?? product.cost;
+  const catalogIds = new Set<string>(supplierCatalog.map(entry => entry.product.id));
+
+  const openNew = () => {
+    setEditing({
+      id: crypto.randomUUID(),
+      folio: nextOrderFolio(orders),
+      status: 'DRAFT',
+      createdAt: new Date().toISOString(),
+      lines: [],
+      receipts: [],
+    });
+    setLineProductId('');
+    setError('');
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    if (!editing) return;
+    const supplier = suppliers.find(s => s.id === supplierId);
+    setEditing({
+      ...editing,
+      supplierId: supplierId || undefined,
+      ...(supplier ? { expectedDate: addDays(supplier.leadTimeDays) } : {}),
+    });
+  };
+
+  const handleAddLine = () => {
+    const product = products.find(p => p.id === lineProductId);
+    if (!editing || !product || editing.lines.some(l => l.productId === product.id)) return;
+    const quantity = Math.max(product.minStock * 2 - product.currentStock, 1);
+    setEditing({
+      ...editing,
+      lines: [...editing.lines, { productId: product.id, productName: product.name, quantityOrdered: quantity, quantityReceived: 0, unitCost: defaultCost(product) }],
+    });
+    setLineProductId('');
+  };
+
+  const updateLine = (productId: string, changes: Partial<PurchaseOrderLine>) => {
+    if (!editing) return;
+    setEditing({ ...editing, lines: editing.lines.map(l => l.productId === productId ? { ...l, ...changes } : l) });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    if (editing.lines.length === 0) {
+      setError('Agrega al menos un producto.');
+      return;
+    }
+    if (editing.lines.some(l => !(l.quantityOrdered > 0) || !(l.unitCost >= 0))) {
+      setError('Las cantidades deben ser mayores a cero y los costos no pueden ser negativos.');
+      return;
+    }
+    const fractional = editing.lines.find(l => {
+      const product = products.find(p => p.id === l.productId);
+      return product && !isValidQuantity(product, l.quantityOrdered);
+    });
+    if (fractional) {
+      setError(`${fractional.productName} se pide en unidades enteras.`);
+      return;
+    }
+    onSaveOrder({ ...editing, ...(editing.notes?.trim() ? { notes: editing.notes.trim() } : { notes: undefined }) });
+    setEditing(null);
+  };
+
+  const openReceive = (order: PurchaseOrder) => {
+    setReceiving(order);
+    setReceivedInput(order.lines.map(line => ({ productId: line.productId, received: pendingQuantity(line) })));
+    setCloseShort(false);
+    setReceivingLocationId(locationSettings.receivingLocationId);
+    setError('');
+  };
+
+  const updateReceived = (productId: string, changes: Partial<ReceiveInput>) => {
+    setReceivedInput(receivedInput.map(i => i.productId === productId ? { ...i, ...changes } : i));
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiving) return;
+    const receiveError = onReceiveOrder(receiving.id, receivedInput, closeShort, receivingLocationId);
+    if (receiveError) {
+      setError(receiveError);
+      return;
+    }
+    setExpandedId(receiving.id);
+    setReceiving(null);
+  };
+
+  const receivedUnits = (order: PurchaseOrder) => order.lines.reduce((sum, l) => sum + l.quantityReceived, 0);
+  // Weighed products are ordered and received in fractions; the rest in whole units
+  const stepOf = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    return product ? quantityStep(product) : 1;
+  };
+
+  const orderedUnits = (order: PurchaseOrder) => order.lines.reduce((sum, l) => sum + l.quantityOrdered, 0);
+  const invoiceFolio = (id: string) => {
+    const invoice = invoices.find(i => i.id === id);
+    return invoice ? formatFolio(invoice) : '-';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Órdenes de Compra</h2>
+        <button
+          onClick={openNew}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+        >
+          <Plus size={20} />
+          Nueva Orden
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Orden</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Proveedor</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Entrega</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Estado</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Total</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {sortedOrders.map(order => {
+                const discrepancies = getDiscrepancies(order);
+                const isExpanded = expandedId === order.id;
+                return (
+                  <React.Fragment key={order.id}>
+                    <tr className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <button
+                          onClick={() => setExpandedId(isExpanded ? null : order.id)}
+                          className="flex items-center gap-1 font-mono text-sm text-gray-800 hover:text-emerald-700"
+                        >
+                          {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                          {formatOrderFolio(order)}
+                        </button>
+                        <div className="text-xs text-gray-400 ml-5">{order.createdAt.split('T')[0]}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{supplierName(order.supplierId)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{order.expectedDate || '-'}</td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[order.status]}`}>
+                          {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                        </span>
+                        {order.status !== 'DRAFT' && order.status !== 'CANCELLED' && (
+                          <div className="text-xs text-gray-500 mt-1">{receivedUnits(order)} / {orderedUnits(order)} un. recibidas</div>
+                        )}
+                        {discrepancies.length > 0 && (
+                          <div className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                            <AlertTriangle size={12} />
+                            {discrepancies.length} con diferencias
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right font-medium text-gray-800">${orderTotal(order).toLocaleString()}</td>
+                      <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                        {canEditOrder(order) && (
+                          <button onClick={() => { setEditing({ ...order }); setError(''); }} title="Editar" className="text-gray-400 hover:text-emerald-600 transition-colors">
+                            <Edit2 size={18} />
+                          </button>
+                        )}
+                        {canSendOrder(order) && (
+                          <button onClick={() => onSaveOrder(sendOrder(order))} title="Marcar como enviada" className="text-gray-400 hover:text-blue-600 transition-colors">
+                            <Send size={18} />
+                          </button>
+                        )}
+                        {canReceiveOrder(order) && (
+                          <button onClick={() => openReceive(order)} title="Recibir" className="text-gray-400 hover:text-emerald-600 transition-colors">
+                            <PackageCheck size={18} />
+                          </button>
+                        )}
+                        {order.status === 'PARTIAL' && (
+                          <button
+                            onClick={() => confirm('¿Cerrar la orden? Las unidades pendientes quedarán como faltante.') && onCloseOrder(order.id)}
+                            title="Cerrar con faltante"
+                            className="text-gray-400 hover:text-amber-600 transition-colors"
+                          >
+                            <X size={18} />
+                          </button>
+                        )}
+                        {canCancelOrder(order) && order.status !== 'DRAFT' && (
+                          <button
+                            onClick={() => confirm('¿Cancelar la orden?') && onSaveOrder(cancelOrder(order))}
+                            title="Cancelar"
+                            className="text-gray-400 hover:text-red-600 transition-colors"
+                          >
+                            <Ban size={18} />
+                          </button>
+                        )}
+                        {order.status === 'DRAFT' && (
+                          <button onClick={() => onDeleteOrder(order.id)} title="Eliminar borrador" className="text-gray-400 hover:text-red-600 transition-colors">
+                            <Trash2 size={18} />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4 space-y-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="py-1 text-left font-semibold">Producto</th>
+                                <th className="py-1 text-right font-semibold">Pedido</th>
+                                <th className="py-1 text-right font-semibold">Recibido</th>
+                                <th className="py-1 text-right font-semibold">Costo</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {order.lines.map(line => (
+                                <tr key={line.productId}>
+                                  <td className="py-1 text-gray-800">{line.productName}</td>
+                                  <td className="py-1 text-right text-gray-600">{line.quantityOrdered}</td>
+                                  <td className={`py-1 text-right ${line.quantityReceived !== line.quantityOrdered && order.status === 'RECEIVED' ? 'text-amber-600 font-medium' : 'text-gray-600'}`}>
+                                    {line.quantityReceived}
+                                  </td>
+                                  <td className="py-1 text-right text-gray-600">${line.unitCost.toLocaleString()}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+
+                          {order.receipts.length > 0 && (
+                            <div>
+                              <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Recepciones</h4>
+                              <ul className="space-y-1 text-sm text-gray-700">
+                                {order.receipts.map(receipt => (
+                                  <li key={receipt.id}>
+                                    {receipt.date.split('T')[0]} · Compra #{invoiceFolio(receipt.invoiceId)} · {receipt.user}:{' '}
+                                    {receipt.lines
+                                      .filter(l => l.received > 0 || l.note)
+                                      .map(l => `${order.lines.find(o => o.productId === l.productId)?.productName} ${l.received}/${l.expected}${l.note ? ` (${l.note})` : ''}`)
+                                      .join(', ')}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+
+                          {discrepancies.length > 0 && (
+                            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 space-y-1">
+                              {discrepancies.map(d => (
+                                <p key={d.productId}>
+                                  {d.productName}: pedido {d.ordered}, recibido {d.received}
+                                  {d.difference !== 0 ? ` (${d.difference > 0 ? '+' : ''}${d.difference})` : ''}
+                                  {d.notes.length > 0 ? ` — ${d.notes.join('; ')}` : ''}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                          {order.notes && <p className="text-xs text-gray-500">{order.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {orders.length === 0 && (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <ClipboardList size={32} className="text-gray-300" />
+            Aún no hay órdenes de compra. El stock solo aumenta al recibir la mercadería.
+          </div>
+        )}
+      </div>
+
+      {/* Order editor */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">
+                {orders.some(o => o.id === editing.id) ? 'Editar' : 'Nueva'} Orden {formatOrderFolio(editing)}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Proveedor</label>
+                  <select
+                    value={editing.supplierId || ''}
+                    onChange={e => handleSupplierChange(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                  >
+                    <option value="">Sin proveedor</option>
+                    {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Entrega esperada</label>
+                  <input
+                    type="date"
+                    value={editing.expectedDate || ''}
+                    onChange={e => setEditing({ ...editing, expectedDate: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Productos</label>
+                <div className="flex gap-2">
+                  <select
+                    value={lineProductId}
+                    onChange={e => setLineProductId(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                  >
+                    <option value="">Agregar producto...</option>
+                    {[...products]
+                      .filter(p => !isKit(p) && !editing.lines.some(l => l.productId === p.id))
+                      .sort((a, b) => Number(catalogIds.has(b.id)) - Number(catalogIds.has(a.id)))
+                      .map(p => (
+                        <option key={p.id} value={p.id}>
+                          {catalogIds.has(p.id) ? '★ ' : ''}{p.name} - Stock: {p.currentStock}
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleAddLine}
+                    disabled={!lineProductId}
+                    className="px-3 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 disabled:opacity-50 transition-colors"
+                  >
+                    <Plus size={18} />
+                  </button>
+                </div>
+                {editingSupplier && (
+                  <p className="text-xs text-gray-500 mt-1">★ Productos que vende {editingSupplier.name}; el costo sugerido es el de su última compra.</p>
+                )}
+              </div>
+
+              {editing.lines.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead className="border-b border-gray-200">
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-2 text-left font-semibold">Producto</th>
+                      <th className="py-2 text-right font-semibold">Cantidad</th>
+                      <th className="py-2 text-right font-semibold">Costo unit.</th>
+                      <th className="py-2 text-right font-semibold">Subtotal</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {editing.lines.map(line => (
+                      <tr key={line.productId}>
+                        <td className="py-2 text-gray-800">{line.productName}</td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min={stepOf(line.productId)}
+                            step={stepOf(line.productId)}
+                            value={line.quantityOrdered}
+                            onChange={e => updateLine(line.productId, { quantityOrdered: Number(e.target.value) })}
+                            className="w-20 px-2 py-1 border border-gray-200 rounded-md text-sm text-right outline-none focus:ring-2 focus:ring-emerald-500"
+                          />
+                        </td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            value={line.unitCost}
+                            onChange={e => updateLine(line.productId, { unitCost: Number(e.target.value) })}
+                            className="w-24 px-2 py-1 border border-gray-200 rounded-md text-sm text-right outline-none focus:ring-2 focus:ring-emerald-500"
+                          />
+                        </td>
+                        <td className="py-2 text-right text-gray-700">${(line.quantityOrdered * line.unitCost).toLocaleString()}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setEditing({ ...editing, lines: editing.lines.filter(l => l.productId !== line.productId) })}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <td colSpan={3} className="pt-2 text-right font-medium text-gray-600">Total</td>
+                      <td className="pt-2 text-right font-bold text-gray-800">${orderTotal(editing).toLocaleString()}</td>
+                      <td></td>
+                    </tr>
+                  </tfoot>
+                </table>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                <textarea
+                  rows={2}
+                  value={editing.notes || ''}
+                  onChange={e => setEditing({ ...editing, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <Save size={18} />
+                  Guardar borrador
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receiving */}
+      {receiving && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">Recibir {formatOrderFolio(receiving)}</h3>
+              <button onClick={() => setReceiving(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleReceive} className="p-6 space-y-4">
+              <p className="text-sm text-gray-500">
+                Ingresa lo que llegó realmente. Solo esas unidades entran al stock, con una factura de compra asociada a la orden.
+              </p>
+              <table className="w-full text-sm">
+                <thead className="border-b border-gray-200">
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="py-2 text-left font-semibold">Producto</th>
+                    <th className="py-2 text-right font-semibold">Pendiente</th>
+                    <th className="py-2 text-right font-semibold">Recibido</th>
+                    <th className="py-2 text-left font-semibold pl-3">Lote / Vence</th>
+                    <th className="py-2 text-left font-semibold pl-3">Observación</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {receiving.lines.map(line => {
+                    const entry = receivedInput.find(i => i.productId === line.productId);
+                    const differs = entry !== undefined && entry.received !== pendingQuantity(line);
+                    const needsExpiry = !!entry && entry.received > 0 && !entry.expiryDate && !!products.find(p => p.id === line.productId)?.tracksExpiry;
+                    return (
+                      <tr key={line.productId}>
+                        <td className="py-2 text-gray-800">{line.productName}</td>
+                        <td className="py-2 text-right text-gray-600">{pendingQuantity(line)}</td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step={stepOf(line.productId)}
+                            value={entry?.received ?? 0}
+                            onChange={e => updateReceived(line.productId, { received: Number(e.target.value) })}
+                            className={`w-20 px-2 py-1 border rounded-md text-sm text-right outline-none focus:ring-2 focus:ring-emerald-500 ${differs ? 'border-amber-400' : 'border-gray-200'}`}
+                          />
+                        </td>
+                        <td className="py-2 pl-3">
+                          <div className="flex gap-1">
+                            <input
+                              type="text"
+                              placeholder="Lote"
+                              value={entry?.lot || ''}
+                              onChange={e => updateReceived(line.productId, { lot: e.target.value })}
+                              className="w-20 px-2 py-1 border border-gray-200 rounded-md text-xs outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                            <input
+                              type="date"
+                              title="Fecha de vencimiento"
+                              value={entry?.expiryDate || ''}
+                              onChange={e => updateReceived(line.productId, { expiryDate: e.target.value || undefined })}
+                              className={`px-2 py-1 border rounded-md text-xs outline-none focus:ring-2 focus:ring-emerald-500 ${needsExpiry ? 'border-red-300' : 'border-gray-200'}`}
+                            />
+                          </div>
+                        </td>
+                        <td className="py-2 pl-3">
+                          <input
+                            type="text"
+                            value={entry?.note || ''}
+                            placeholder={differs ? 'Motivo de la diferencia' : ''}
+                            onChange={e => updateReceived(line.productId, { note: e.target.value })}
+                            className="w-full px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex items-center gap-3">
+                <label className="text-sm font-medium text-gray-700">Recibir en</label>
+                <select
+                  value={receivingLocationId}
+                  onChange={e => setReceivingLocationId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                >
+                  {locationSettings.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={closeShort}
+                  onChange={e => setCloseShort(e.target.checked)}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+                <span className="text-sm text-gray-700">Cerrar la orden aunque falten unidades</span>
+              </label>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setReceiving(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <PackageCheck size={18} />
+                  Registrar recepción
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Invoice, PaperWidth, ReceiptSettings } from '../types';
+import { Receipt, buildReceipt, formatMoney, renderReceiptText, toEscPos } from '../services/receipt';
+import PrintArea from './PrintArea';
+import { Printer, X, Download, FileText } from 'lucide-react';
+
+interface ReceiptTicketProps {
+  receipt: Receipt;
+  paperWidth: PaperWidth;
+}
+
+interface AmountRowProps {
+  label: string;
+  amount: string;
+  bold?: boolean;
+}
+
+const AmountRow: React.FC<AmountRowProps> = ({ label, amount, bold }) => (
+  <div className={`flex justify-between gap-2 ${bold ? 'font-bold text-sm' : ''}`}>
+    <span>{label}</span>
+    <span>{amount}</span>
+  </div>
+);
+
+// Ticket laid out at the roll width so the browser prints it 1:1 on a thermal printer
+export const ReceiptTicket: React.FC<ReceiptTicketProps> = ({ receipt, paperWidth }) => (
+  <div style={{ width: `${paperWidth}mm` }} className="bg-white text-black font-mono text-[11px] leading-tight p-2 space-y-2">
+    <div className="text-center">
+      <div className="text-sm font-bold">{receipt.storeName}</div>
+      {receipt.headerLines.map((line, i) => <div key={i}>{line}</div>)}
+    </div>
+    <div className="text-center border-t border-dashed border-black pt-1">
+      <div className="font-bold">{receipt.title}</div>
+      <div>N° {receipt.folio}</div>
+      <div>{receipt.date}</div>
+      {receipt.reference && <div>{receipt.reference}</div>}
+    </div>
+    <div className="border-t border-dashed border-black pt-1 space-y-1">
+      {receipt.lines.map((line, i) => (
+        <div key={i}>
+          <div>{line.name}</div>
+          <AmountRow label={`  ${line.quantityLabel} x ${formatMoney(line.unitPrice)}`} amount={formatMoney(line.total)} />
+          {line.discount > 0 && (
+            <AmountRow label={`  Dcto.${line.promotionName ? ` ${line.promotionName}` : ''}`} amount={`-${formatMoney(line.discount)}`} />
+          )}
+        </div>
+      ))}
+    </div>
+    <div className="border-t border-dashed border-black pt-1">
+      {receipt.discount > 0 && (
+        <>
+          <AmountRow label="Subtotal" amount={formatMoney(receipt.subtotal)} />
+          <AmountRow label="Descuentos" amount={`-${formatMoney(receipt.discount)}`} />
+        </>
+      )}
+      <AmountRow label="Neto" amount={formatMoney(receipt.netAmount)} />
+      {receipt.taxes.map(tax => <AmountRow key={tax.label} label={tax.label} amount={formatMoney(tax.amount)} />)}
+      <AmountRow label="TOTAL" amount={formatMoney(receipt.total)} bold />
+    </div>
+    {receipt.payments.length > 0 && (
+      <div className="border-t border-dashed border-black pt-1">
+        {receipt.payments.map(p => <AmountRow key={p.label} label={p.label} amount={formatMoney(p.amount)} />)}
+        {receipt.cashTendered && <AmountRow label="Efectivo recibido" amount={formatMoney(receipt.cashTendered)} />}
+        {receipt.change && <AmountRow label="Vuelto" amount={formatMoney(receipt.change)} />}
+      </div>
+    )}
+    {receipt.footer && <div className="text-center whitespace-pre-line border-t border-dashed border-black pt-1">{receipt.footer}</div>}
+  </div>
+);
+
+interface ReceiptModalProps {
+  invoice: Invoice;
+  invoices: Invoice[];
+  settings: ReceiptSettings;
+  onClose: () => void;
+}
+
+const ReceiptModal: React.FC<ReceiptModalProps> = ({ invoice, invoices, settings, onClose }) => {
+  const [mode, setMode] = useState<'TICKET' | 'TEXT'>('TICKET');
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const receipt = buildReceipt(invoice, invoices, settings);
+  const text = renderReceiptText(receipt, settings.paperWidth);
+
+  const handleDownloadEscPos = () => {
+    const url = URL.createObjectURL(new Blob([toEscPos(text)], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${invoice.type.toLowerCase()}-${receipt.folio}.bin`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] shadow-2xl flex flex-col animate-fade-in">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50 rounded-t-2xl">
+          <h3 className="font-bold text-lg text-gray-800">{receipt.title} N° {receipt.folio}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex bg-white">
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['TICKET', 'TEXT'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                  mode === option ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option === 'TICKET' ? `Ticket ${settings.paperWidth}mm` : 'Texto ESC/POS'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex justify-center bg-white">
+          {mode === 'TICKET' ? (
+            <div className="border border-gray-200 shadow-sm">
+              <ReceiptTicket receipt={receipt} paperWidth={settings.paperWidth} />
+            </div>
+          ) : (
+            <pre className="text-xs font-mono bg-gray-50 border border-gray-200 rounded-lg p-3 overflow-x-auto">{text}</pre>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          {mode === 'TEXT' && (
+            <>
+              <button
+                onClick={() => navigator.clipboard?.writeText(text)}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors flex items-center gap-2"
+              >
+                <FileText size={18} />
+                Copiar
+              </button>
+              <button
+                onClick={handleDownloadEscPos}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors flex items-center gap-2"
+              >
+                <Download size={18} />
+                Descargar .bin
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setIsPrinting(true)}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+          >
+            <Printer size={18} />
+            Imprimir
+          </button>
+        </div>
+      </div>
+
+      {isPrinting && (
+        <PrintArea onDone={() => setIsPrinting(false)}>
+          <style>{`@page { size: ${settings.paperWidth}mm auto; margin: 0; }`}</style>
+          {mode === 'TICKET'
+            ? <ReceiptTicket receipt={receipt} paperWidth={settings.paperWidth} />
+            : <pre className="font-mono text-[11px] text-black">{text}</pre>}
+        </PrintArea>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptModal;
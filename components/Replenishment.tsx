@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Product, Invoice, Supplier, PurchaseOrder, ReplenishmentSettings } from '../types';
+import { buildReplenishmentPlan, MinStockChange, ReplenishmentLine } from '../services/replenishment';
+import { AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+
+interface ReplenishmentProps {
+  products: Product[];
+  invoices: Invoice[];
+  suppliers: Supplier[];
+  orders: PurchaseOrder[];
+  settings: ReplenishmentSettings;
+  onApplyMinStock?: (changes: MinStockChange[]) => void; // Missing when the user can't change minimum stock
+}
+
+const Replenishment: React.FC<ReplenishmentProps> = ({ products, invoices, suppliers, orders, settings, onApplyMinStock }) => {
+  const [onlyToReorder, setOnlyToReorder] = useState(true);
+
+  const today = new Date().toISOString().split('T')[0];
+  const plan = buildReplenishmentPlan(products, invoices, suppliers, orders, settings, today);
+  const toReorder = plan.filter(line => line.reorderNow);
+  const visible = (onlyToReorder ? toReorder : plan)
+    .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || a.product.name.localeCompare(b.product.name));
+
+  const differsFromMin = (line: ReplenishmentLine) => line.dailyDemand > 0 && line.reorderPoint !== line.product.minStock;
+  const pendingChanges = visible.filter(differsFromMin);
+
+  const applyAll = () => {
+    if (!window.confirm(`¿Usar el punto de pedido calculado como stock mínimo en ${pendingChanges.length} productos?`)) return;
+    onApplyMinStock?.(pendingChanges.map(line => ({ productId: line.product.id, minStock: line.reorderPoint })));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Reposición</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Según las ventas de los últimos {settings.salesWindowDays} días y un nivel de servicio de {Math.round(settings.serviceLevel * 100)}%.
+          </p>
+        </div>
+        {onApplyMinStock && (
+          <button
+            onClick={applyAll}
+            disabled={pendingChanges.length === 0}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={20} />
+            Actualizar stock mínimo ({pendingChanges.length})
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className={`p-4 rounded-xl border flex items-center gap-3 ${toReorder.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
+          {toReorder.length > 0 ? <AlertTriangle size={20} /> : <CheckCircle size={20} />}
+          <span className="text-sm font-medium">
+            {toReorder.length > 0
+              ? `${toReorder.length} productos llegaron a su punto de pedido y hay que reponerlos hoy.`
+              : 'Ningún producto necesita reposición hoy.'}
+          </span>
+        </div>
+        <div className="flex items-center justify-end">
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {[true, false].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => setOnlyToReorder(value)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                  onlyToReorder === value ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {value ? 'Reponer hoy' : 'Todos los productos'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider">Producto</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Stock</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Venta diaria</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Plazo</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Stock seg.</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Punto de pedido</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Lote económico</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Pedir</th>
+                <th className="px-6 py-4 text-xs font-semibold text-gray-500 uppercase tracking-wider text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(line => (
+                <tr key={line.product.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-gray-800">{line.product.name}</div>
+                    <div className="text-xs text-gray-400">{line.supplier ? line.supplier.name : 'Sin proveedor'}</div>
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm">
+                    <div className={line.reorderNow ? 'font-bold text-red-600' : 'text-gray-700'}>{line.product.currentStock}</div>
+                    {line.onOrder > 0 && <div className="text-xs text-blue-600">+{line.onOrder} en camino</div>}
+                    {line.daysOfCover !== null && <div className="text-xs text-gray-400">{line.daysOfCover} días</div>}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-600">
+                    {line.dailyDemand}
+                    <div className="text-xs text-gray-400">± {line.demandDeviation}</div>
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-600">{line.leadTimeDays} d</td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-600">{line.safetyStock}</td>
+                  <td className="px-6 py-4 text-right text-sm">
+                    <div className="font-medium text-gray-800">{line.reorderPoint}</div>
+                    <div className="text-xs text-gray-400">mínimo actual: {line.product.minStock}</div>
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm text-gray-600">{line.orderQuantity || '-'}</td>
+                  <td className="px-6 py-4 text-right text-sm font-bold text-emerald-700">{line.suggestedQuantity || '-'}</td>
+                  <td className="px-6 py-4 text-right">
+                    {onApplyMinStock && differsFromMin(line) && (
+                      <button
+                        onClick={() => onApplyMinStock([{ productId: line.product.id, minStock: line.reorderPoint }])}
+                        className="text-xs px-2 py-1 border border-emerald-200 text-emerald-700 rounded-md hover:bg-emerald-50"
+                        title="Usar el punto de pedido como stock mínimo"
+                      >
+                        Usar como mínimo
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="px-6 py-8 text-center text-gray-400">
+                    {onlyToReorder ? 'No hay productos por reponer.' : 'No hay productos.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Punto de pedido = venta diaria × plazo del proveedor + stock de seguridad. Se sugiere pedir cuando el stock más lo que viene en órdenes abiertas llega a ese punto.
+        Productos sin ventas en el período no se calculan.
+      </p>
+    </div>
+  );
+};
+
+export default Replenishment;
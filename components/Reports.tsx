@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Product, Invoice, StoreSettings, StockCount, Customer, CustomerPayment } from '../types';
+import TaxReport from './TaxReport';
+import ProfitReport from './ProfitReport';
+import ShrinkageReport from './ShrinkageReport';
+import CashierReport from './CashierReport';
+import AgingReport from './AgingReport';
+
+interface ReportsProps {
+  products: Product[];
+  invoices: Invoice[];
+  stockCounts: StockCount[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  settings: StoreSettings;
+}
+
+type ReportTab = 'TAX' | 'PROFIT' | 'CASHIERS' | 'SHRINKAGE' | 'RECEIVABLES';
+
+const TABS: { id: ReportTab; label: string }[] = [
+  { id: 'TAX', label: 'Impuestos (IVA)' },
+  { id: 'PROFIT', label: 'Resultados' },
+  { id: 'CASHIERS', label: 'Por cajero' },
+  { id: 'SHRINKAGE', label: 'Mermas' },
+  { id: 'RECEIVABLES', label: 'Cuentas por cobrar' },
+];
+
+const Reports: React.FC<ReportsProps> = ({ products, invoices, stockCounts, customers, customerPayments, settings }) => {
+  const [activeTab, setActiveTab] = useState<ReportTab>('TAX');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Reportes</h2>
+        <div className="flex flex-wrap bg-white p-1 rounded-lg border border-gray-200 shadow-sm">
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                activeTab === tab.id ? 'bg-emerald-100 text-emerald-700' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {activeTab === 'TAX' && (
+        <TaxReport products={products} invoices={invoices} taxSettings={settings.tax} />
+      )}
+      {activeTab === 'PROFIT' && (
+        <ProfitReport products={products} invoices={invoices} taxSettings={settings.tax} />
+      )}
+      {activeTab === 'CASHIERS' && (
+        <CashierReport invoices={invoices} />
+      )}
+      {activeTab === 'SHRINKAGE' && (
+        <ShrinkageReport stockCounts={stockCounts} />
+      )}
+      {activeTab === 'RECEIVABLES' && (
+        <AgingReport customers={customers} invoices={invoices} customerPayments={customerPayments} />
+      )}
+    </div>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,523 @@
+import React, { useEffect, useState } from 'react';
+import { Product, StoreSettings, TaxRate, TaxSettings, ReceiptSettings, PaperWidth, CostingMethod, ReplenishmentSettings, LocationSettings, LoyaltySettings, StockMovement, UserAccount } from '../types';
+import { MAIN_LOCATION_ID } from '../constants';
+import { formatRate } from '../services/tax';
+import { COSTING_METHOD_LABELS } from '../services/costing';
+import { SERVICE_LEVELS } from '../services/replenishment';
+import { movementLocation } from '../services/locations';
+import { BackupData, RestoreMode } from '../services/backup';
+import { UserInput, can } from '../services/users';
+import BackupRestore from './BackupRestore';
+import UserAccounts from './UserAccounts';
+import { Percent, Plus, Trash2, Save, Printer, Calculator, RefreshCw, Warehouse, Star } from 'lucide-react';
+
+interface SettingsProps {
+  products: Product[];
+  stockMovements: StockMovement[];
+  settings: StoreSettings;
+  onUpdateSettings: (settings: StoreSettings) => string | undefined;
+  backupData: BackupData;
+  onRestoreBackup: (data: BackupData, mode: RestoreMode) => Promise<string | undefined>;
+  users: UserAccount[];
+  currentUser: UserAccount;
+  onSaveUser: (input: UserInput, userId?: string) => Promise<string | undefined>;
+}
+
+const Settings: React.FC<SettingsProps> = ({ products, stockMovements, settings, onUpdateSettings, backupData, onRestoreBackup, users, currentUser, onSaveUser }) => {
+  const [draft, setDraft] = useState<StoreSettings>(settings);
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  // Settings can also change underneath the form, e.g. after restoring a backup
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const categories = Array.from(new Set<string>(products.map(p => p.category))).sort();
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateTax = (tax: Partial<TaxSettings>) => {
+    setDraft({ ...draft, tax: { ...draft.tax, ...tax } });
+    setSaved(false);
+  };
+
+  const updateReceipt = (receipt: Partial<ReceiptSettings>) => {
+    setDraft({ ...draft, receipt: { ...draft.receipt, ...receipt } });
+    setSaved(false);
+  };
+
+  const updateReplenishment = (replenishment: Partial<ReplenishmentSettings>) => {
+    setDraft({ ...draft, replenishment: { ...draft.replenishment, ...replenishment } });
+    setSaved(false);
+  };
+
+  const updateLocations = (locations: Partial<LocationSettings>) => {
+    setDraft({ ...draft, locations: { ...draft.locations, ...locations } });
+    setSaved(false);
+  };
+
+  const updateLoyalty = (loyalty: Partial<LoyaltySettings>) => {
+    setDraft({ ...draft, loyalty: { ...draft.loyalty, ...loyalty } });
+    setSaved(false);
+  };
+
+  const toggleExcludedCategory = (category: string) => {
+    const excluded = draft.loyalty.excludedCategories;
+    updateLoyalty({
+      excludedCategories: excluded.includes(category) ? excluded.filter(c => c !== category) : [...excluded, category],
+    });
+  };
+
+  // Locations that ever held stock stay, so the ledger never points at a missing one
+  const usedLocationIds = new Set(stockMovements.map(movementLocation));
+
+  const removeLocation = (id: string) => {
+    updateLocations({
+      locations: draft.locations.locations.filter(l => l.id !== id),
+      saleLocationId: draft.locations.saleLocationId === id ? MAIN_LOCATION_ID : draft.locations.saleLocationId,
+      receivingLocationId: draft.locations.receivingLocationId === id ? MAIN_LOCATION_ID : draft.locations.receivingLocationId,
+    });
+  };
+
+  const updateRate = (id: string, changes: Partial<TaxRate>) => {
+    updateTax({ rates: draft.tax.rates.map(r => r.id === id ? { ...r, ...changes } : r) });
+  };
+
+  const addRate = () => {
+    updateTax({ rates: [...draft.tax.rates, { id: crypto.randomUUID(), name: 'Nueva tasa', rate: 0 }] });
+  };
+
+  // Categories pointing at a removed rate fall back to the default
+  const removeRate = (id: string) => {
+    const categoryRates = { ...draft.tax.categoryRates };
+    Object.keys(categoryRates)
+      .filter(category => categoryRates[category] === id)
+      .forEach(category => { delete categoryRates[category]; });
+    updateTax({ rates: draft.tax.rates.filter(r => r.id !== id), categoryRates });
+  };
+
+  const setCategoryRate = (category: string, rateId: string) => {
+    const categoryRates = { ...draft.tax.categoryRates };
+    if (rateId) categoryRates[category] = rateId;
+    else delete categoryRates[category];
+    updateTax({ categoryRates });
+  };
+
+  const handleSave = () => {
+    const error = onUpdateSettings(draft);
+    setSaveError(error || '');
+    setSaved(!error);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Configuración</h2>
+        <div className="flex items-center gap-3">
+          {saved && !isDirty && <span className="text-sm text-emerald-600">Cambios guardados</span>}
+          {saveError && <span className="text-sm text-red-600">{saveError}</span>}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors disabled:opacity-50"
+          >
+            <Save size={18} />
+            Guardar
+          </button>
+        </div>
+      </div>
+
+      {/* Taxes */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-6">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Percent size={20} className="text-gray-400" />
+          Impuestos
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-gray-100 bg-gray-50">
+            <input
+              type="checkbox"
+              checked={draft.tax.pricesIncludeTax}
+              onChange={e => updateTax({ pricesIncludeTax: e.target.checked })}
+              className="w-4 h-4 accent-emerald-600"
+            />
+            <span className="text-sm text-gray-700">Los precios de venta incluyen impuesto</span>
+          </label>
+          <label className="flex items-center gap-3 p-3 rounded-lg border border-gray-100 bg-gray-50">
+            <input
+              type="checkbox"
+              checked={draft.tax.costsIncludeTax}
+              onChange={e => updateTax({ costsIncludeTax: e.target.checked })}
+              className="w-4 h-4 accent-emerald-600"
+            />
+            <span className="text-sm text-gray-700">Los costos de compra incluyen impuesto</span>
+          </label>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-gray-600 uppercase tracking-wide">Tasas</h4>
+            <button onClick={addRate} className="text-sm text-emerald-700 hover:text-emerald-800 flex items-center gap-1">
+              <Plus size={16} /> Agregar tasa
+            </button>
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Nombre</th>
+                <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Tasa (%)</th>
+                <th className="px-4 py-2 text-xs font-semibold text-gray-500 uppercase">Por defecto</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {draft.tax.rates.map(rate => (
+                <tr key={rate.id}>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={rate.name}
+                      onChange={e => updateRate(rate.id, { name: e.target.value })}
+                      className="w-full px-2 py-1 border border-gray-200 rounded-md outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={Math.round(rate.rate * 1000) / 10}
+                      onChange={e => updateRate(rate.id, { rate: Number(e.target.value) / 100 })}
+                      className="w-24 px-2 py-1 border border-gray-200 rounded-md outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="radio"
+                      name="defaultRate"
+                      checked={draft.tax.defaultRateId === rate.id}
+                      onChange={() => updateTax({ defaultRateId: rate.id })}
+                      className="accent-emerald-600"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {draft.tax.defaultRateId !== rate.id && (
+                      <button onClick={() => removeRate(rate.id)} className="text-gray-400 hover:text-red-600">
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-2">Tasa por categoría</h4>
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-400">Aún no hay categorías de productos.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {categories.map(category => (
+                <div key={category} className="flex items-center justify-between gap-2 p-3 rounded-lg border border-gray-100">
+                  <span className="text-sm text-gray-700">{category}</span>
+                  <select
+                    value={draft.tax.categoryRates[category] || ''}
+                    onChange={e => setCategoryRate(category, e.target.value)}
+                    className="px-2 py-1 border border-gray-200 rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">Por defecto</option>
+                    {draft.tax.rates.map(r => (
+                      <option key={r.id} value={r.id}>{r.name} ({formatRate(r.rate)})</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Receipts */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Printer size={20} className="text-gray-400" />
+          Comprobantes
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre del local</label>
+            <input
+              type="text"
+              value={draft.receipt.storeName}
+              onChange={e => updateReceipt({ storeName: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ancho del papel</label>
+            <select
+              value={draft.receipt.paperWidth}
+              onChange={e => updateReceipt({ paperWidth: Number(e.target.value) as PaperWidth })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              <option value={58}>58 mm</option>
+              <option value={80}>80 mm</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Encabezado (RUT, dirección, teléfono)</label>
+            <textarea
+              rows={3}
+              value={draft.receipt.headerLines}
+              onChange={e => updateReceipt({ headerLines: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pie del comprobante</label>
+            <textarea
+              rows={3}
+              value={draft.receipt.footer}
+              onChange={e => updateReceipt({ footer: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Costing */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Calculator size={20} className="text-gray-400" />
+          Costos
+        </h3>
+        <div className="max-w-md">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Valorización del inventario</label>
+          <select
+            value={draft.costing.method}
+            onChange={e => { setDraft({ ...draft, costing: { method: e.target.value as CostingMethod } }); setSaved(false); }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+          >
+            {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => (
+              <option key={method} value={method}>{COSTING_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            El costo de cada producto es siempre el promedio ponderado de sus compras. FIFO solo cambia cómo se valoriza el stock en bodega.
+          </p>
+        </div>
+      </div>
+
+      {/* Locations */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            <Warehouse size={20} className="text-gray-400" />
+            Ubicaciones
+          </h3>
+          <button
+            onClick={() => updateLocations({ locations: [...draft.locations.locations, { id: crypto.randomUUID(), name: 'Nueva ubicación' }] })}
+            className="text-sm text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+          >
+            <Plus size={16} /> Agregar
+          </button>
+        </div>
+        <div className="space-y-2">
+          {draft.locations.locations.map(location => (
+            <div key={location.id} className="flex gap-2 items-center">
+              <input
+                type="text"
+                value={location.name}
+                onChange={e => updateLocations({ locations: draft.locations.locations.map(l => l.id === location.id ? { ...l, name: e.target.value } : l) })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+              <button
+                onClick={() => removeLocation(location.id)}
+                disabled={location.id === MAIN_LOCATION_ID || usedLocationIds.has(location.id)}
+                title={location.id === MAIN_LOCATION_ID || usedLocationIds.has(location.id) ? 'Tiene movimientos de stock' : 'Eliminar'}
+                className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Las ventas descuentan de</label>
+            <select
+              value={draft.locations.saleLocationId}
+              onChange={e => updateLocations({ saleLocationId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {draft.locations.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Las compras ingresan a</label>
+            <select
+              value={draft.locations.receivingLocationId}
+              onChange={e => updateLocations({ receivingLocationId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {draft.locations.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Son los valores por defecto; cada venta, compra o recepción puede elegir otra ubicación. El stock sin ubicación registrada pertenece a {draft.locations.locations.find(l => l.id === MAIN_LOCATION_ID)?.name}.
+        </p>
+      </div>
+
+      {/* Replenishment */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <RefreshCw size={20} className="text-gray-400" />
+          Reposición
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nivel de servicio</label>
+            <select
+              value={draft.replenishment.serviceLevel}
+              onChange={e => updateReplenishment({ serviceLevel: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {SERVICE_LEVELS.map(s => (
+                <option key={s.level} value={s.level}>{Math.round(s.level * 100)}%</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Probabilidad de no quedar sin stock mientras llega un pedido. Más alto significa más stock de seguridad.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Ventas consideradas (días)</label>
+            <input
+              type="number"
+              min="7"
+              value={draft.replenishment.salesWindowDays}
+              onChange={e => updateReplenishment({ salesWindowDays: Math.max(7, parseInt(e.target.value) || 7) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Costo por pedido ($)</label>
+            <input
+              type="number"
+              min="0"
+              value={draft.replenishment.orderCost}
+              onChange={e => updateReplenishment({ orderCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">Gasto fijo de hacer una compra (despacho, tiempo). Se usa para el lote económico.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Costo de mantener stock (% anual)</label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={Math.round(draft.replenishment.holdingRate * 100)}
+              onChange={e => updateReplenishment({ holdingRate: Math.min(100, Math.max(1, parseFloat(e.target.value) || 1)) / 100 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Plazo de entrega sin proveedor (días)</label>
+            <input
+              type="number"
+              min="0"
+              value={draft.replenishment.defaultLeadTimeDays}
+              onChange={e => updateReplenishment({ defaultLeadTimeDays: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Loyalty */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Star size={20} className="text-gray-400" />
+          Puntos de clientes
+        </h3>
+        <label className="flex items-center gap-3 p-3 rounded-lg border border-gray-100 bg-gray-50 max-w-md">
+          <input
+            type="checkbox"
+            checked={draft.loyalty.enabled}
+            onChange={e => updateLoyalty({ enabled: e.target.checked })}
+            className="w-4 h-4 accent-emerald-600"
+          />
+          <span className="text-sm text-gray-700">Las ventas a clientes registrados suman puntos</span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Monto por punto ($)</label>
+            <input
+              type="number"
+              min="1"
+              value={draft.loyalty.amountPerPoint}
+              onChange={e => updateLoyalty({ amountPerPoint: Math.max(1, parseFloat(e.target.value) || 1) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">Cuánto hay que comprar para ganar un punto.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Valor de un punto ($)</label>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={draft.loyalty.pointValue}
+              onChange={e => updateLoyalty({ pointValue: Math.max(0.01, parseFloat(e.target.value) || 1) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">Lo que descuenta cada punto al pagar con puntos.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vencimiento (meses)</label>
+            <input
+              type="number"
+              min="0"
+              value={draft.loyalty.expiryMonths}
+              onChange={e => updateLoyalty({ expiryMonths: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">0 para que los puntos no venzan.</p>
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-2">Categorías que no suman puntos</h4>
+          <div className="flex flex-wrap gap-3">
+            {Array.from(new Set([...categories, ...draft.loyalty.excludedCategories])).sort().map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.loyalty.excludedCategories.includes(category)}
+                  onChange={() => toggleExcludedCategory(category)}
+                  className="w-4 h-4 accent-emerald-600"
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Los cambios rigen para las ventas siguientes; los puntos ya ganados conservan su fecha de vencimiento.
+        </p>
+      </div>
+
+      {can(currentUser, 'MANAGE_USERS') && (
+        <UserAccounts users={users} currentUserId={currentUser.id} onSaveUser={onSaveUser} />
+      )}
+
+      {can(currentUser, 'MANAGE_BACKUPS') && (
+        <BackupRestore data={backupData} onRestore={onRestoreBackup} />
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { StockCount } from '../types';
+import { VARIANCE_REASON_LABELS, VARIANCE_REASONS, buildShrinkageReport } from '../services/stockCounts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+
+interface ShrinkageReportProps {
+  stockCounts: StockCount[];
+}
+
+const REASON_COLORS = { SHRINKAGE: '#ef4444', DAMAGE: '#f59e0b', COUNT_ERROR: '#6366f1' };
+
+const ShrinkageReport: React.FC<ShrinkageReportProps> = ({ stockCounts }) => {
+  const rows = buildShrinkageReport(stockCounts);
+  // Losses are charted as positive amounts
+  const chartData = rows.map(row => ({
+    month: row.month,
+    ...Object.fromEntries(VARIANCE_REASONS.map(r => [r, Math.max(0, -row.value[r])])),
+  }));
+  const totalLoss = rows.reduce((sum, row) => sum + Math.max(0, -row.value.SHRINKAGE) + Math.max(0, -row.value.DAMAGE), 0);
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-white p-8 rounded-xl shadow-sm border border-gray-100 text-center text-gray-400 animate-fade-in">
+        Aún no hay tomas de inventario contabilizadas.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 min-w-0">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-semibold text-gray-800">Faltantes por mes</h3>
+          <span className="text-xs px-2 py-1 bg-red-50 text-red-600 rounded-md">
+            Merma y daño acumulados: ${totalLoss.toLocaleString()}
+          </span>
+        </div>
+        <div className="h-64 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+              <XAxis dataKey="month" tick={{fontSize: 10}} stroke="#9ca3af" />
+              <YAxis tick={{fontSize: 10}} stroke="#9ca3af" />
+              <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+              <Legend iconType="circle" wrapperStyle={{fontSize: '12px'}} />
+              {VARIANCE_REASONS.map(r => (
+                <Bar key={r} dataKey={r} name={VARIANCE_REASON_LABELS[r]} stackId="loss" fill={REASON_COLORS[r]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Mes</th>
+                {VARIANCE_REASONS.map(r => (
+                  <th key={r} className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">{VARIANCE_REASON_LABELS[r]}</th>
+                ))}
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Neto</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...rows].reverse().map(row => (
+                <tr key={row.month}>
+                  <td className="px-6 py-3 text-gray-700">{row.month}</td>
+                  {VARIANCE_REASONS.map(r => (
+                    <td key={r} className={`px-6 py-3 text-right ${row.value[r] < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                      ${row.value[r].toLocaleString()}
+                      <div className="text-xs text-gray-400">{row.units[r]} un.</div>
+                    </td>
+                  ))}
+                  <td className={`px-6 py-3 text-right font-medium ${row.netValue < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                    ${row.netValue.toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShrinkageReport;
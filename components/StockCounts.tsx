@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import { LocationSettings, Product, StockCount, VarianceReason } from '../types';
+import {
+  STOCK_COUNT_STATUS_LABELS, VARIANCE_REASON_LABELS, VARIANCE_REASONS, StartCountInput,
+  addCountedQuantity, cancelCount, formatCountFolio, lineVariance, summarizeCount, updateCountLine,
+} from '../services/stockCounts';
+import { locationName } from '../services/locations';
+import { findByCode, parseScanInput } from '../services/productCodes';
+import { formatQuantity, getUnit, quantityStep, toBaseQuantity } from '../services/units';
+import { isKit } from '../services/kits';
+import { ClipboardCheck, Barcode, ArrowLeft, CheckCircle, Ban } from 'lucide-react';
+
+interface StockCountsProps {
+  products: Product[];
+  stockCounts: StockCount[];
+  locationSettings: LocationSettings;
+  onStartCount: (input: StartCountInput) => string | undefined; // Returns an error message
+  onSaveCount: (count: StockCount) => void;
+  onPostCount: (countId: string) => string | undefined; // Returns an error message
+}
+
+const STATUS_STYLES: Record<StockCount['status'], string> = {
+  OPEN: 'bg-blue-100 text-blue-700',
+  POSTED: 'bg-green-100 text-green-700',
+  CANCELLED: 'bg-gray-100 text-gray-500',
+};
+
+const StockCounts: React.FC<StockCountsProps> = ({ products, stockCounts, locationSettings, onStartCount, onSaveCount, onPostCount }) => {
+  const [activeCountId, setActiveCountId] = useState<string | null>(null);
+  const [locationId, setLocationId] = useState(locationSettings.saleLocationId);
+  const [category, setCategory] = useState('');
+  const [notes, setNotes] = useState('');
+  const [scanInput, setScanInput] = useState('');
+  const [onlyVariances, setOnlyVariances] = useState(false);
+  const [error, setError] = useState('');
+
+  const categories = Array.from(new Set(products.filter(p => !isKit(p)).map(p => p.category))).sort();
+  const activeCount = stockCounts.find(c => c.id === activeCountId);
+  const history = [...stockCounts].sort((a, b) => b.folio - a.folio);
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const startError = onStartCount({ locationId, category: category || undefined, notes });
+    if (startError) {
+      setError(startError);
+      return;
+    }
+    setCategory('');
+    setNotes('');
+    setError('');
+  };
+
+  const openCount = (count: StockCount) => {
+    setActiveCountId(count.id);
+    setOnlyVariances(false);
+    setScanInput('');
+    setError('');
+  };
+
+  if (!activeCount) {
+    return (
+      <div className="space-y-6">
+        <h2 className="text-2xl font-bold text-gray-800">Tomas de inventario</h2>
+
+        <form onSubmit={handleStart} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {locationSettings.locations.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ubicación</label>
+                <select
+                  value={locationId}
+                  onChange={e => setLocationId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                >
+                  {locationSettings.locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Alcance</label>
+              <select
+                value={category}
+                onChange={e => setCategory(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+              >
+                <option value="">Todo el catálogo</option>
+                {categories.map(c => <option key={c} value={c}>Categoría: {c}</option>)}
+              </select>
+            </div>
+          </div>
+          <input
+            type="text"
+            value={notes}
+            placeholder="Observación (opcional)"
+            onChange={e => setNotes(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-xs text-gray-500">Las cantidades esperadas quedan fijas al iniciar; las ventas durante el conteo se descuentan igual.</p>
+            <button
+              type="submit"
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors whitespace-nowrap"
+            >
+              <ClipboardCheck size={18} />
+              Iniciar toma
+            </button>
+          </div>
+        </form>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          {history.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Folio</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Inicio</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Alcance</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Estado</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Contados</th>
+                    <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Diferencia</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {history.map(count => {
+                    const summary = summarizeCount(count);
+                    return (
+                      <tr key={count.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 font-mono text-gray-600">{formatCountFolio(count)}</td>
+                        <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{new Date(count.startedAt).toLocaleString()}</td>
+                        <td className="px-6 py-3 text-gray-800">
+                          {count.category || 'Todo el catálogo'}
+                          {locationSettings.locations.length > 1 && (
+                            <div className="text-xs text-gray-400">{locationName(locationSettings, count.locationId)}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-3">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[count.status]}`}>
+                            {STOCK_COUNT_STATUS_LABELS[count.status]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-600">{summary.counted}/{count.lines.length}</td>
+                        <td className={`px-6 py-3 text-right font-medium ${summary.netValue < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                          ${summary.netValue.toLocaleString()}
+                        </td>
+                        <td className="px-6 py-3 text-right">
+                          <button onClick={() => openCount(count)} className="text-sm text-emerald-600 hover:text-emerald-700 font-medium">
+                            {count.status === 'OPEN' ? 'Continuar' : 'Ver'}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="p-6 text-sm text-gray-400">Aún no hay tomas de inventario.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = activeCount.status === 'OPEN';
+  const summary = summarizeCount(activeCount);
+  const lines = onlyVariances ? activeCount.lines.filter(l => lineVariance(l) !== 0) : activeCount.lines;
+
+  // Scans only count products in the scope of the count
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const { code, quantity } = parseScanInput(scanInput);
+    if (!code) return;
+    const match = findByCode(products, code);
+    if (!match) {
+      setError(`No hay ningún producto con el código ${code}.`);
+    } else if (!activeCount.lines.some(l => l.productId === match.product.id)) {
+      setError(`${match.product.name} no está incluido en esta toma.`);
+    } else {
+      onSaveCount(addCountedQuantity(activeCount, match.product.id, toBaseQuantity(quantity, match.pack)));
+      setError('');
+    }
+    setScanInput('');
+  };
+
+  const handlePost = () => {
+    if (!confirm('Se registrarán los ajustes de stock de todas las diferencias. ¿Continuar?')) return;
+    const postError = onPostCount(activeCount.id);
+    setError(postError || '');
+  };
+
+  const handleCancel = () => {
+    if (!confirm('La toma se cancelará sin ajustar el stock. ¿Continuar?')) return;
+    onSaveCount(cancelCount(activeCount));
+  };
+
+  const cards = [
+    { label: 'Contados', value: `${summary.counted} de ${activeCount.lines.length}`, className: 'text-gray-800' },
+    { label: 'Sobrantes', value: `$${summary.surplusValue.toLocaleString()}`, className: 'text-green-600' },
+    { label: 'Faltantes', value: `$${summary.shortageValue.toLocaleString()}`, className: 'text-red-600' },
+    { label: 'Diferencia neta', value: `$${summary.netValue.toLocaleString()}`, className: summary.netValue < 0 ? 'text-red-600' : 'text-gray-800' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setActiveCountId(null)} className="text-gray-400 hover:text-gray-700">
+            <ArrowLeft size={22} />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Toma {formatCountFolio(activeCount)}</h2>
+            <p className="text-sm text-gray-500">
+              {activeCount.category || 'Todo el catálogo'} · {locationName(locationSettings, activeCount.locationId)} · {STOCK_COUNT_STATUS_LABELS[activeCount.status]}
+            </p>
+          </div>
+        </div>
+        {isOpen && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleCancel}
+              className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+            >
+              <Ban size={18} />
+              Cancelar toma
+            </button>
+            <button
+              onClick={handlePost}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+            >
+              <CheckCircle size={18} />
+              Contabilizar ajustes
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+            <p className="text-sm text-gray-500">{card.label}</p>
+            <p className={`text-xl font-bold ${card.className}`}>{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+        {isOpen && (
+          <div className="relative flex-1">
+            <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              autoFocus
+              type="text"
+              value={scanInput}
+              placeholder="Escanear código + Enter para sumar al conteo (ej: 6*7801000000075)"
+              onChange={e => setScanInput(e.target.value)}
+              onKeyDown={handleScanKeyDown}
+              className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-lg font-mono focus:border-emerald-500 focus:ring-2 focus:ring-emerald-200 outline-none"
+            />
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={onlyVariances}
+            onChange={e => setOnlyVariances(e.target.checked)}
+            className="w-4 h-4 accent-emerald-600"
+          />
+          Solo diferencias
+        </label>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Producto</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Esperado</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Contado</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Diferencia</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Valor</th>
+                <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Motivo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map(line => {
+                const product = products.find(p => p.id === line.productId);
+                const unit = product ? getUnit(product) : 'UNIT';
+                const variance = lineVariance(line);
+                return (
+                  <tr key={line.productId} className={line.counted === undefined ? '' : 'bg-gray-50/50'}>
+                    <td className="px-6 py-3 text-gray-800">{line.productName}</td>
+                    <td className="px-6 py-3 text-right text-gray-600">{formatQuantity(line.expected, unit)}</td>
+                    <td className="px-6 py-3 text-right">
+                      {isOpen ? (
+                        <input
+                          type="number"
+                          min="0"
+                          step={product ? quantityStep(product) : 1}
+                          value={line.counted ?? ''}
+                          onChange={e => onSaveCount(updateCountLine(activeCount, line.productId, {
+                            counted: e.target.value === '' ? undefined : Number(e.target.value),
+                          }))}
+                          className="w-24 px-2 py-1 border border-gray-200 rounded-md text-right outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                      ) : (
+                        <span className="text-gray-800">{line.counted !== undefined ? formatQuantity(line.counted, unit) : '-'}</span>
+                      )}
+                    </td>
+                    <td className={`px-6 py-3 text-right font-medium ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : 'text-gray-400'}`}>
+                      {line.counted === undefined ? '-' : `${variance > 0 ? '+' : ''}${formatQuantity(variance, unit)}`}
+                    </td>
+                    <td className={`px-6 py-3 text-right ${variance < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                      {variance !== 0 ? `$${Math.round(variance * line.unitCost).toLocaleString()}` : '-'}
+                    </td>
+                    <td className="px-6 py-3">
+                      {variance !== 0 && (isOpen ? (
+                        <select
+                          value={line.reason || ''}
+                          onChange={e => onSaveCount(updateCountLine(activeCount, line.productId, {
+                            reason: (e.target.value || undefined) as VarianceReason | undefined,
+                          }))}
+                          className={`px-2 py-1 border rounded-md text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${line.reason ? 'border-gray-200' : 'border-amber-300 bg-amber-50'}`}
+                        >
+                          <option value="">Seleccionar...</option>
+                          {VARIANCE_REASONS.map(r => <option key={r} value={r}>{VARIANCE_REASON_LABELS[r]}</option>)}
+                        </select>
+                      ) : (
+                        <span className="text-gray-600">{line.reason ? VARIANCE_REASON_LABELS[line.reason] : '-'}</span>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+              {lines.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-400">Sin diferencias registradas.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockCounts;
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { Invoice, Product, Supplier } from '../types';
+import { describePaymentTerms, formatRut, getSupplierCatalog, getSupplierPurchases, getSupplierSpendByMonth, isValidRut } from '../services/suppliers';
+import { formatFolio } from '../services/invoices';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Plus, Trash2, Edit2, Save, X, Truck, Phone, Mail } from 'lucide-react';
+
+interface SuppliersProps {
+  suppliers: Supplier[];
+  products: Product[];
+  invoices: Invoice[];
+  onSaveSupplier: (supplier: Supplier) => void;
+  onDeleteSupplier: (id: string) => void;
+}
+
+const emptySupplier = (): Partial<Supplier> => ({
+  name: '',
+  leadTimeDays: 2,
+  paymentTermsDays: 30,
+  productIds: [],
+});
+
+const MONTH_LABELS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+const Suppliers: React.FC<SuppliersProps> = ({ suppliers, products, invoices, onSaveSupplier, onDeleteSupplier }) => {
+  const [editing, setEditing] = useState<Partial<Supplier> | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const selected = suppliers.find(s => s.id === selectedId) || suppliers[0];
+
+  const toggleProduct = (id: string) => {
+    if (!editing) return;
+    const productIds = editing.productIds || [];
+    setEditing({ ...editing, productIds: productIds.includes(id) ? productIds.filter(p => p !== id) : [...productIds, id] });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing?.name?.trim()) return;
+    if (editing.rut && !isValidRut(editing.rut)) {
+      setError('El RUT no es válido. Revisa el dígito verificador.');
+      return;
+    }
+    if (!(Number(editing.leadTimeDays) >= 0) || !(Number(editing.paymentTermsDays) >= 0)) {
+      setError('Los plazos no pueden ser negativos.');
+      return;
+    }
+
+    const supplier: Supplier = {
+      id: editing.id || crypto.randomUUID(),
+      name: editing.name.trim(),
+      leadTimeDays: Number(editing.leadTimeDays),
+      paymentTermsDays: Number(editing.paymentTermsDays),
+      productIds: editing.productIds || [],
+      ...(editing.rut?.trim() ? { rut: formatRut(editing.rut) } : {}),
+      ...(editing.contactName?.trim() ? { contactName: editing.contactName.trim() } : {}),
+      ...(editing.phone?.trim() ? { phone: editing.phone.trim() } : {}),
+      ...(editing.email?.trim() ? { email: editing.email.trim() } : {}),
+      ...(editing.notes?.trim() ? { notes: editing.notes.trim() } : {}),
+    };
+    onSaveSupplier(supplier);
+    setSelectedId(supplier.id);
+    setEditing(null);
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    if (!confirm(`¿Eliminar a ${supplier.name}? Sus compras registradas se conservan.`)) return;
+    onDeleteSupplier(supplier.id);
+    if (selectedId === supplier.id) setSelectedId(null);
+  };
+
+  const catalog = selected ? getSupplierCatalog(selected, products, invoices) : [];
+  const purchases = selected ? getSupplierPurchases(selected.id, invoices) : [];
+  const spendData = selected
+    ? getSupplierSpendByMonth(selected.id, invoices).map(point => ({
+        ...point,
+        label: `${MONTH_LABELS[Number(point.month.slice(5)) - 1]} ${point.month.slice(2, 4)}`,
+      }))
+    : [];
+  const totalSpend = purchases.reduce((sum, inv) => sum + inv.totalAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Proveedores</h2>
+        <button
+          onClick={() => { setEditing(emptySupplier()); setError(''); }}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+        >
+          <Plus size={20} />
+          Nuevo Proveedor
+        </button>
+      </div>
+
+      {suppliers.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+          <Truck size={32} className="text-gray-300" />
+          Aún no hay proveedores. Regístralos para asociarlos a las compras en Facturación.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Directory */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden h-fit">
+            <ul className="divide-y divide-gray-100">
+              {suppliers.map(supplier => (
+                <li
+                  key={supplier.id}
+                  onClick={() => setSelectedId(supplier.id)}
+                  className={`px-4 py-3 cursor-pointer transition-colors ${
+                    selected?.id === supplier.id ? 'bg-emerald-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">{supplier.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {supplier.rut || 'Sin RUT'} · Entrega {supplier.leadTimeDays} días · {describePaymentTerms(supplier.paymentTermsDays)}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={e => { e.stopPropagation(); setEditing({ ...supplier }); setError(''); }}
+                        className="text-gray-400 hover:text-emerald-600 transition-colors"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); handleDelete(supplier); }}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Detail */}
+          {selected && (
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <div className="flex flex-col sm:flex-row justify-between gap-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-800">{selected.name}</h3>
+                    {selected.contactName && <p className="text-sm text-gray-600">{selected.contactName}</p>}
+                    <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-500">
+                      {selected.phone && <span className="flex items-center gap-1"><Phone size={14} />{selected.phone}</span>}
+                      {selected.email && <span className="flex items-center gap-1"><Mail size={14} />{selected.email}</span>}
+                    </div>
+                    {selected.notes && <p className="text-xs text-gray-500 mt-2">{selected.notes}</p>}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm text-gray-500">Total comprado</p>
+                    <p className="text-2xl font-bold text-gray-800">${totalSpend.toLocaleString()}</p>
+                    <p className="text-xs text-gray-400">{purchases.length} compras</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">Gasto mensual (últimos 12 meses)</h3>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={spendData}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+                      <XAxis dataKey="label" tick={{fontSize: 10}} tickMargin={10} stroke="#9ca3af" />
+                      <YAxis tick={{fontSize: 10}} stroke="#9ca3af" tickFormatter={(val) => `$${val}`} />
+                      <Tooltip
+                        contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)'}}
+                        formatter={(value: number) => [`$${value.toLocaleString()}`, 'Compras']}
+                      />
+                      <Bar dataKey="total" fill="#f97316" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <h3 className="text-lg font-semibold text-gray-800 px-6 pt-6 pb-4">Catálogo del proveedor</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Producto</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Último costo</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Última compra</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Unidades compradas</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {catalog.map(entry => (
+                        <tr key={entry.product.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-3 text-gray-800">{entry.product.name}</td>
+                          <td className="px-6 py-3 text-right text-gray-700">
+                            {entry.lastCost !== undefined ? `$${entry.lastCost.toLocaleString()}` : '-'}
+                          </td>
+                          <td className="px-6 py-3 text-gray-600">{entry.lastPurchaseDate || 'Sin compras'}</td>
+                          <td className="px-6 py-3 text-right text-gray-600">{entry.purchasedQuantity}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {catalog.length === 0 && (
+                  <p className="px-6 pb-6 text-sm text-gray-500">Sin productos asociados. Se agregan al registrar compras a este proveedor.</p>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                <h3 className="text-lg font-semibold text-gray-800 px-6 pt-6 pb-4">Historial de compras</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Fecha</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Detalle</th>
+                        <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {purchases.map(inv => (
+                        <tr key={inv.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-3 text-gray-600">
+                            <div>{inv.date}</div>
+                            <div className="text-xs font-mono text-gray-400">#{formatFolio(inv)}</div>
+                          </td>
+                          <td className="px-6 py-3 text-sm text-gray-800">
+                            {inv.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}
+                          </td>
+                          <td className="px-6 py-3 text-right font-medium text-red-600">${inv.totalAmount.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {purchases.length === 0 && (
+                  <p className="px-6 pb-6 text-sm text-gray-500">Aún no hay compras a este proveedor.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] shadow-2xl overflow-y-auto animate-fade-in">
+            <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+              <h3 className="font-bold text-lg text-gray-800">
+                {editing.id ? 'Editar Proveedor' : 'Nuevo Proveedor'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Razón social</label>
+                <input
+                  required
+                  type="text"
+                  value={editing.name || ''}
+                  onChange={e => setEditing({ ...editing, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">RUT</label>
+                  <input
+                    type="text"
+                    value={editing.rut || ''}
+                    placeholder="76.123.456-7"
+                    onChange={e => setEditing({ ...editing, rut: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Contacto</label>
+                  <input
+                    type="text"
+                    value={editing.contactName || ''}
+                    onChange={e => setEditing({ ...editing, contactName: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+                  <input
+                    type="tel"
+                    value={editing.phone || ''}
+                    onChange={e => setEditing({ ...editing, phone: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={editing.email || ''}
+                    onChange={e => setEditing({ ...editing, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Plazo de entrega (días)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editing.leadTimeDays ?? ''}
+                    onChange={e => setEditing({ ...editing, leadTimeDays: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Plazo de pago (días)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editing.paymentTermsDays ?? ''}
+                    onChange={e => setEditing({ ...editing, paymentTermsDays: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Productos que vende</label>
+                <select
+                  value=""
+                  onChange={e => e.target.value && toggleProduct(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                >
+                  <option value="">Agregar producto...</option>
+                  {products
+                    .filter(p => !editing.productIds?.includes(p.id))
+                    .map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {(editing.productIds || []).length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(editing.productIds || []).map(id => (
+                      <span key={id} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-md text-xs text-gray-700">
+                        {products.find(p => p.id === id)?.name || 'Producto eliminado'}
+                        <button type="button" onClick={() => toggleProduct(id)} className="text-gray-400 hover:text-red-600">
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                <textarea
+                  rows={2}
+                  value={editing.notes || ''}
+                  onChange={e => setEditing({ ...editing, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium shadow-md transition-colors flex items-center gap-2"
+                >
+                  <Save size={18} />
+                  Guardar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Product, Invoice, TaxSettings } from '../types';
+import { buildTaxReport, formatRate, TaxSide } from '../services/tax';
+import { Scale } from 'lucide-react';
+
+interface TaxReportProps {
+  products: Product[];
+  invoices: Invoice[];
+  taxSettings: TaxSettings;
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const TaxSideTable: React.FC<{ title: string; side: TaxSide }> = ({ title, side }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+    <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+      <h3 className="font-semibold text-gray-800">{title}</h3>
+      <span className="text-xs px-2 py-1 bg-gray-100 text-gray-500 rounded-md">{side.documents} documentos</span>
+    </div>
+    <table className="w-full text-left text-sm">
+      <thead className="bg-gray-50 border-b border-gray-200">
+        <tr>
+          <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Tasa</th>
+          <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Neto</th>
+          <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Impuesto</th>
+          <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase text-right">Total</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {side.byRate.map(bucket => (
+          <tr key={bucket.rate}>
+            <td className="px-6 py-3 text-gray-700">{bucket.rate === 0 ? 'Exento' : formatRate(bucket.rate)}</td>
+            <td className="px-6 py-3 text-right text-gray-600">${bucket.netAmount.toLocaleString()}</td>
+            <td className="px-6 py-3 text-right text-gray-600">${bucket.taxAmount.toLocaleString()}</td>
+            <td className="px-6 py-3 text-right text-gray-800">${bucket.total.toLocaleString()}</td>
+          </tr>
+        ))}
+        {side.byRate.length === 0 && (
+          <tr>
+            <td colSpan={4} className="px-6 py-8 text-center text-gray-400">Sin documentos en el período.</td>
+          </tr>
+        )}
+      </tbody>
+      <tfoot className="bg-gray-50 border-t border-gray-200 font-bold">
+        <tr>
+          <td className="px-6 py-3 text-gray-800">Total</td>
+          <td className="px-6 py-3 text-right text-gray-800">${side.netAmount.toLocaleString()}</td>
+          <td className="px-6 py-3 text-right text-gray-800">${side.taxAmount.toLocaleString()}</td>
+          <td className="px-6 py-3 text-right text-gray-800">${side.total.toLocaleString()}</td>
+        </tr>
+      </tfoot>
+    </table>
+  </div>
+);
+
+const TaxReport: React.FC<TaxReportProps> = ({ products, invoices, taxSettings }) => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+
+  const report = buildTaxReport(invoices, from, to, products, taxSettings);
+  const isPayable = report.taxPayable >= 0;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex flex-col sm:flex-row gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <p className="text-xs text-gray-400 sm:ml-auto max-w-sm">
+          Las notas de crédito emitidas en el período se descuentan del débito o crédito fiscal según el documento que anulan.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TaxSideTable title="Ventas (Débito fiscal)" side={report.sales} />
+        <TaxSideTable title="Compras (Crédito fiscal)" side={report.purchases} />
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${isPayable ? 'bg-orange-100 text-orange-600' : 'bg-green-100 text-green-600'}`}>
+            <Scale size={20} />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-800">{isPayable ? 'Impuesto a pagar' : 'Remanente de crédito fiscal'}</h3>
+            <p className="text-xs text-gray-500">Débito fiscal - Crédito fiscal</p>
+          </div>
+        </div>
+        <span className={`text-2xl font-bold ${isPayable ? 'text-orange-600' : 'text-green-600'}`}>
+          ${Math.abs(report.taxPayable).toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default TaxReport;
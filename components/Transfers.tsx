@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { LocationSettings, Product, StockMovement, StockTransfer } from '../types';
+import { TransferInput, formatTransferFolio, getLocationBalances, locationName, stockAt } from '../services/locations';
+import { isKit } from '../services/kits';
+import { formatQuantity, getUnit, quantityStep } from '../services/units';
+import { ArrowLeftRight, ArrowRight, Plus, X } from 'lucide-react';
+
+interface TransfersProps {
+  products: Product[];
+  stockMovements: StockMovement[];
+  transfers: StockTransfer[];
+  locationSettings: LocationSettings;
+  onCreateTransfer: (input: TransferInput) => string | undefined; // Returns an error message
+}
+
+const emptyLine = () => ({ productId: '', quantity: 1 });
+
+const Transfers: React.FC<TransfersProps> = ({ products, stockMovements, transfers, locationSettings, onCreateTransfer }) => {
+  const { locations } = locationSettings;
+  // Restocking the sales floor from the back is the usual move
+  const [fromLocationId, setFromLocationId] = useState(locationSettings.receivingLocationId);
+  const [toLocationId, setToLocationId] = useState(locationSettings.saleLocationId);
+  const [lines, setLines] = useState<TransferInput['lines']>([emptyLine()]);
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const balances = getLocationBalances(stockMovements);
+  const stockedProducts = products.filter(p => !isKit(p));
+  const recent = [...transfers].sort((a, b) => b.folio - a.folio).slice(0, 20);
+
+  const updateLine = (index: number, changes: Partial<TransferInput['lines'][number]>) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const transferError = onCreateTransfer({ fromLocationId, toLocationId, lines, notes });
+    if (transferError) {
+      setError(transferError);
+      return;
+    }
+    setLines([emptyLine()]);
+    setNotes('');
+    setError('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-800">Traslados entre ubicaciones</h2>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4 items-end">
+          <div className="flex-1 w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+            <select
+              value={fromLocationId}
+              onChange={e => setFromLocationId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+          <ArrowRight size={20} className="text-gray-400 mb-2 hidden sm:block" />
+          <div className="flex-1 w-full">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Hacia</label>
+            <select
+              value={toLocationId}
+              onChange={e => setToLocationId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {lines.map((line, i) => {
+            const product = products.find(p => p.id === line.productId);
+            return (
+              <div key={i} className="flex gap-2 items-center">
+                <select
+                  value={line.productId}
+                  onChange={e => updateLine(i, { productId: e.target.value })}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+                >
+                  <option value="">Seleccionar producto...</option>
+                  {stockedProducts.map(p => (
+                    <option key={p.id} value={p.id}>
+                      {p.name} - En origen: {formatQuantity(stockAt(balances, p.id, fromLocationId), getUnit(p))}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={product ? quantityStep(product) : 1}
+                  step={product ? quantityStep(product) : 1}
+                  value={line.quantity}
+                  onChange={e => updateLine(i, { quantity: Number(e.target.value) })}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm text-right focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => setLines(lines.filter((_, j) => j !== i))}
+                  disabled={lines.length === 1}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                >
+                  <X size={18} />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() => setLines([...lines, emptyLine()])}
+            className="text-sm text-emerald-600 hover:text-emerald-700 flex items-center gap-1"
+          >
+            <Plus size={16} /> Agregar producto
+          </button>
+        </div>
+
+        <input
+          type="text"
+          value={notes}
+          placeholder="Observación (opcional)"
+          onChange={e => setNotes(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+        />
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg flex items-center gap-2 shadow-sm transition-colors"
+          >
+            <ArrowLeftRight size={18} />
+            Registrar traslado
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-800">Últimos traslados</h3>
+        </div>
+        {recent.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Folio</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Fecha</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Ruta</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Productos</th>
+                  <th className="px-6 py-3 text-xs font-semibold text-gray-500 uppercase">Usuario</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {recent.map(t => (
+                  <tr key={t.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 font-mono text-gray-600">{formatTransferFolio(t)}</td>
+                    <td className="px-6 py-3 text-gray-600 whitespace-nowrap">{new Date(t.date).toLocaleString()}</td>
+                    <td className="px-6 py-3 text-gray-800 whitespace-nowrap">
+                      {locationName(locationSettings, t.fromLocationId)} → {locationName(locationSettings, t.toLocationId)}
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {t.lines.map(l => `${l.quantity}x ${l.productName}`).join(', ')}
+                      {t.notes && <div className="text-xs text-gray-400">{t.notes}</div>}
+                    </td>
+                    <td className="px-6 py-3 text-gray-500">{t.user}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="p-6 text-sm text-gray-400">Aún no hay traslados.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Transfers;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { UserAccount, UserRole } from '../types';
+import { ROLE_LABELS, USER_ROLES, UserInput } from '../services/users';
+import { Users, Plus, Edit2, Save, X } from 'lucide-react';
+
+interface UserAccountsProps {
+  users: UserAccount[];
+  currentUserId: string;
+  onSaveUser: (input: UserInput, userId?: string) => Promise<string | undefined>; // Returns an error message
+}
+
+const emptyForm = (): UserInput => ({ name: '', role: 'CASHIER', pin: '', active: true });
+
+const UserAccounts: React.FC<UserAccountsProps> = ({ users, currentUserId, onSaveUser }) => {
+  // undefined: form closed; null: new user; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null | undefined>(undefined);
+  const [form, setForm] = useState<UserInput>(emptyForm());
+  const [error, setError] = useState('');
+
+  const openForm = (user?: UserAccount) => {
+    setEditingId(user ? user.id : null);
+    setForm(user ? { name: user.name, role: user.role, pin: '', active: user.active } : emptyForm());
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saveError = await onSaveUser({ ...form, pin: form.pin || undefined }, editingId || undefined);
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    setEditingId(undefined);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Users size={20} className="text-gray-400" />
+          Usuarios
+        </h3>
+        {editingId === undefined && (
+          <button
+            onClick={() => openForm()}
+            className="text-sm text-emerald-600 hover:text-emerald-700 flex items-center gap-1 font-medium"
+          >
+            <Plus size={16} /> Nuevo usuario
+          </button>
+        )}
+      </div>
+
+      {editingId !== undefined && (
+        <form onSubmit={handleSubmit} className="p-4 rounded-lg border border-gray-100 bg-gray-50 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              required
+              type="text"
+              value={form.name}
+              placeholder="Nombre"
+              onChange={e => setForm({ ...form, name: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <select
+              value={form.role}
+              onChange={e => setForm({ ...form, role: e.target.value as UserRole })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none bg-white"
+            >
+              {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={form.pin}
+              placeholder={editingId ? 'Nuevo PIN (opcional)' : 'PIN de 4 a 6 dígitos'}
+              onChange={e => setForm({ ...form, pin: e.target.value.replace(/\D/g, '') })}
+              className="px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          {editingId && editingId !== currentUserId && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={e => setForm({ ...form, active: e.target.checked })}
+                className="w-4 h-4 accent-emerald-600"
+              />
+              Activo
+            </label>
+          )}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(undefined)}
+              className="px-3 py-2 text-gray-700 hover:bg-gray-100 rounded-lg text-sm flex items-center gap-1"
+            >
+              <X size={16} /> Cancelar
+            </button>
+            <button
+              type="submit"
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 rounded-lg text-sm flex items-center gap-1"
+            >
+              <Save size={16} /> Guardar usuario
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {users.map(user => (
+          <div key={user.id} className="py-3 flex items-center justify-between">
+            <div>
+              <div className={`font-medium ${user.active ? 'text-gray-800' : 'text-gray-400 line-through'}`}>
+                {user.name}{user.id === currentUserId ? ' (tú)' : ''}
+              </div>
+              <div className="text-xs text-gray-500">{ROLE_LABELS[user.role]}{user.active ? '' : ' · Inactivo'}</div>
+            </div>
+            <button onClick={() => openForm(user)} className="text-gray-400 hover:text-emerald-600 transition-colors">
+              <Edit2 size={18} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Los cajeros venden, reciben y cuentan stock. Encargados y dueños además editan productos, trasladan y dan de baja stock, ajustan límites de crédito, anulan facturas y cambian la configuración; solo los dueños cambian precios y promociones y administran usuarios.
+      </p>
+    </div>
+  );
+};
+
+export default UserAccounts;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { UserAccount } from '../types';
+import { ROLE_LABELS, initials } from '../services/users';
+import { Store, Lock, Loader2 } from 'lucide-react';
+
+interface UserLoginProps {
+  users: UserAccount[];
+  onCreateOwner: (name: string, pin: string) => Promise<string | undefined>; // Returns an error message
+  onLogin: (userId: string, pin: string) => Promise<string | undefined>; // Returns an error message
+}
+
+const UserLogin: React.FC<UserLoginProps> = ({ users, onCreateOwner, onLogin }) => {
+  const activeUsers = users.filter(u => u.active);
+  const [userId, setUserId] = useState(activeUsers.length === 1 ? activeUsers[0].id : '');
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Without accounts, the first one is the owner who will create the rest
+  const isFirstUser = activeUsers.length === 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isFirstUser && pin !== confirmPin) {
+      setError('Los PIN no coinciden.');
+      return;
+    }
+    setSaving(true);
+    const loginError = isFirstUser ? await onCreateOwner(name, pin) : await onLogin(userId, pin);
+    setSaving(false);
+    if (loginError) {
+      setError(loginError);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl border border-gray-100 w-full max-w-md p-8 space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <div className="bg-emerald-600 p-2 rounded-lg text-white">
+            <Store size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-800 leading-tight">Buena Fe</h1>
+            <p className="text-xs text-gray-400 font-medium">{isFirstUser ? 'Crea la cuenta del dueño' : 'Ingresa con tu PIN'}</p>
+          </div>
+        </div>
+
+        {isFirstUser ? (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+            <input
+              autoFocus
+              required
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {activeUsers.map(u => (
+              <button
+                key={u.id}
+                type="button"
+                onClick={() => { setUserId(u.id); setPin(''); setError(''); }}
+                className={`p-3 rounded-xl border-2 flex flex-col items-center gap-2 transition-all ${
+                  userId === u.id ? 'border-emerald-500 bg-emerald-50' : 'border-gray-100 bg-gray-50 hover:bg-gray-100'
+                }`}
+              >
+                <span className="w-10 h-10 rounded-full bg-emerald-100 border border-emerald-200 flex items-center justify-center text-emerald-700 font-bold text-sm">
+                  {initials(u.name)}
+                </span>
+                <span className="text-sm font-medium text-gray-800 truncate max-w-full">{u.name}</span>
+                <span className="text-xs text-gray-400">{ROLE_LABELS[u.role]}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className={isFirstUser ? 'grid grid-cols-2 gap-4' : ''}>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">PIN</label>
+            <input
+              required
+              autoFocus={!isFirstUser}
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              value={pin}
+              onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+          </div>
+          {isFirstUser && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Repetir PIN</label>
+              <input
+                required
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={confirmPin}
+                onChange={e => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving || (!isFirstUser && !userId)}
+          className="w-full bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 shadow-sm transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="animate-spin" size={18} /> : <Lock size={18} />}
+          {isFirstUser ? 'Crear cuenta e ingresar' : 'Ingresar'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UserLogin;
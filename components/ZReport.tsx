@@ -0,0 +1,85 @@
+import React from 'react';
+import { CashSession, CustomerPayment, Invoice } from '../types';
+import { PAYMENT_METHOD_LABELS, summarizeSession } from '../services/cashRegister';
+import { shortId } from '../services/invoices';
+
+interface ZReportProps {
+  session: CashSession;
+  invoices: Invoice[];
+  customerPayments: CustomerPayment[];
+}
+
+const formatDateTime = (iso?: string) => iso ? new Date(iso).toLocaleString('es-CL') : '-';
+
+interface RowProps {
+  label: string;
+  value: string;
+  bold?: boolean;
+}
+
+const Row: React.FC<RowProps> = ({ label, value, bold }) => (
+  <div className={`flex justify-between ${bold ? 'font-bold' : ''}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+// End-of-day "cierre de caja" for a register session, laid out for printing.
+const ZReport: React.FC<ZReportProps> = ({ session, invoices, customerPayments }) => {
+  const summary = summarizeSession(session, invoices, customerPayments);
+  const expectedCash = session.expectedCash ?? summary.expectedCash;
+
+  return (
+    <div className="max-w-sm mx-auto p-4 text-sm font-mono text-black space-y-3">
+      <div className="text-center">
+        <div className="text-lg font-bold">Minimarket Buena Fe</div>
+        <div className="font-bold">CIERRE DE CAJA (Z)</div>
+        <div>Sesión #{shortId(session.id)}</div>
+      </div>
+
+      <div className="border-t border-dashed border-black pt-2 space-y-1">
+        <Row label="Apertura" value={formatDateTime(session.openedAt)} />
+        <Row label="Abrió" value={session.openedBy} />
+        <Row label="Cierre" value={formatDateTime(session.closedAt)} />
+        {session.closedBy && <Row label="Cerró" value={session.closedBy} />}
+      </div>
+
+      <div className="border-t border-dashed border-black pt-2 space-y-1">
+        <Row label={`Ventas (${summary.salesCount})`} value={`$${summary.salesTotal.toLocaleString()}`} />
+        <Row label={`Devoluciones (${summary.refundsCount})`} value={`-$${summary.refundsTotal.toLocaleString()}`} />
+        <Row label="Descuentos otorgados" value={`$${summary.discountAmount.toLocaleString()}`} />
+        <Row label="Neto" value={`$${summary.netAmount.toLocaleString()}`} />
+        <Row label="IVA" value={`$${summary.taxAmount.toLocaleString()}`} />
+        <Row label="Total neto de caja" value={`$${summary.netTotal.toLocaleString()}`} bold />
+        {summary.collectionsCount > 0 && (
+          <Row label={`Abonos de clientes (${summary.collectionsCount})`} value={`$${summary.collectionsTotal.toLocaleString()}`} />
+        )}
+      </div>
+
+      <div className="border-t border-dashed border-black pt-2 space-y-1">
+        <div className="font-bold">Por medio de pago</div>
+        {summary.byMethod.map(m => (
+          <Row key={m.method} label={PAYMENT_METHOD_LABELS[m.method]} value={`$${m.net.toLocaleString()}`} />
+        ))}
+      </div>
+
+      <div className="border-t border-dashed border-black pt-2 space-y-1">
+        <Row label="Fondo inicial" value={`$${session.openingFloat.toLocaleString()}`} />
+        <Row label="Efectivo esperado" value={`$${expectedCash.toLocaleString()}`} />
+        {session.countedCash !== undefined && (
+          <>
+            <Row label="Efectivo contado" value={`$${session.countedCash.toLocaleString()}`} />
+            <Row
+              label={session.difference! > 0 ? 'Sobrante' : session.difference! < 0 ? 'Faltante' : 'Diferencia'}
+              value={`$${Math.abs(session.difference!).toLocaleString()}`}
+              bold
+            />
+          </>
+        )}
+        {session.notes && <div className="pt-1">Obs.: {session.notes}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ZReport;
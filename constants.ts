@@ -1,17 +1,72 @@
 
-import { Product, Invoice, InvoiceItem } from './types';
+import { Product, Invoice, InvoiceItem, StoreSettings } from './types';
+import { buildInvoiceItem, summarizeItems } from './services/tax';
+
+// Name recorded on stock movements until user accounts exist
+export const DEFAULT_USER = 'Administrador';
+
+// Location of stock recorded before locations existed; it can be renamed but not removed
+export const MAIN_LOCATION_ID = 'SALA';
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  tax: {
+    rates: [
+      { id: 'iva', name: 'IVA 19%', rate: 0.19 },
+      { id: 'exento', name: 'Exento', rate: 0 },
+    ],
+    defaultRateId: 'iva',
+    categoryRates: {},
+    pricesIncludeTax: true,
+    costsIncludeTax: true,
+  },
+  receipt: {
+    storeName: 'Minimarket Buena Fe',
+    headerLines: '',
+    footer: '¡Gracias por su compra!',
+    paperWidth: 80,
+  },
+  costing: {
+    method: 'AVERAGE',
+  },
+  replenishment: {
+    serviceLevel: 0.95,
+    salesWindowDays: 28,
+    orderCost: 5000,
+    holdingRate: 0.25,
+    defaultLeadTimeDays: 3,
+  },
+  locations: {
+    locations: [
+      { id: MAIN_LOCATION_ID, name: 'Sala de ventas' },
+      { id: 'BODEGA', name: 'Bodega' },
+    ],
+    saleLocationId: MAIN_LOCATION_ID,
+    receivingLocationId: 'BODEGA',
+  },
+  loyalty: {
+    enabled: true,
+    amountPerPoint: 100,
+    pointValue: 1,
+    excludedCategories: ['Alcohol'],
+    expiryMonths: 12,
+  },
+};
 
 export const INITIAL_PRODUCTS: Product[] = [
-  { id: '1', name: 'Leche Entera 1L', category: 'Lácteos', currentStock: 12, minStock: 20, price: 1200, cost: 800, lastRestocked: '2023-10-20' },
-  { id: '2', name: 'Pan de Molde Blanco', category: 'Panadería', currentStock: 5, minStock: 15, price: 2500, cost: 1800, lastRestocked: '2023-10-22' },
-  { id: '3', name: 'Bebida Cola 3L', category: 'Bebidas', currentStock: 45, minStock: 30, price: 3200, cost: 2100, lastRestocked: '2023-10-15' },
-  { id: '4', name: 'Arroz Grado 2', category: 'Despensa', currentStock: 8, minStock: 25, price: 1100, cost: 750, lastRestocked: '2023-10-10' },
-  { id: '5', name: 'Yogurt Batido Fresa', category: 'Lácteos', currentStock: 30, minStock: 20, price: 450, cost: 280, lastRestocked: '2023-10-24' },
-  { id: '6', name: 'Aceite Maravilla 1L', category: 'Despensa', currentStock: 3, minStock: 10, price: 2800, cost: 1900, lastRestocked: '2023-09-30' },
-  { id: '7', name: 'Cerveza Lager 6pack', category: 'Alcohol', currentStock: 22, minStock: 15, price: 5990, cost: 3500, lastRestocked: '2023-10-18' },
-  { id: '8', name: 'Papas Fritas 250g', category: 'Snacks', currentStock: 14, minStock: 20, price: 2100, cost: 1200, lastRestocked: '2023-10-21' },
+  { id: '1', name: 'Leche Entera 1L', category: 'Lácteos', currentStock: 12, minStock: 20, price: 1200, cost: 800, lastRestocked: '2023-10-20', sku: 'LAC-001', barcodes: ['7801000000075'], tracksExpiry: true },
+  { id: '2', name: 'Pan de Molde Blanco', category: 'Panadería', currentStock: 5, minStock: 15, price: 2500, cost: 1800, lastRestocked: '2023-10-22', sku: 'PAN-001', barcodes: ['7801000000143'], tracksExpiry: true },
+  { id: '3', name: 'Bebida Cola 3L', category: 'Bebidas', currentStock: 45, minStock: 30, price: 3200, cost: 2100, lastRestocked: '2023-10-15', sku: 'BEB-001', barcodes: ['7801000000211'] },
+  { id: '4', name: 'Arroz Grado 2', category: 'Despensa', currentStock: 8, minStock: 25, price: 1100, cost: 750, lastRestocked: '2023-10-10', sku: 'DES-001', barcodes: ['7801000000280'] },
+  { id: '5', name: 'Yogurt Batido Fresa', category: 'Lácteos', currentStock: 30, minStock: 20, price: 450, cost: 280, lastRestocked: '2023-10-24', sku: 'LAC-002', barcodes: ['7801000000358'], tracksExpiry: true },
+  { id: '6', name: 'Aceite Maravilla 1L', category: 'Despensa', currentStock: 3, minStock: 10, price: 2800, cost: 1900, lastRestocked: '2023-09-30', sku: 'DES-002', barcodes: ['7801000000426'] },
+  { id: '7', name: 'Cerveza Lager 6pack', category: 'Alcohol', currentStock: 22, minStock: 15, price: 5990, cost: 3500, lastRestocked: '2023-10-18', sku: 'ALC-001', barcodes: ['7801000000495'], packs: [{ id: 'pack-7-4', name: 'Caja x4', factor: 4, barcode: '7801000000501' }] },
+  { id: '8', name: 'Papas Fritas 250g', category: 'Snacks', currentStock: 14, minStock: 20, price: 2100, cost: 1200, lastRestocked: '2023-10-21', sku: 'SNA-001', barcodes: ['7801000000563'] },
+  { id: '9', name: 'Pack Once', category: 'Combos', currentStock: 0, minStock: 0, price: 4000, cost: 3160, lastRestocked: '2023-10-22', sku: 'COM-001', components: [{ productId: '2', quantity: 1 }, { productId: '1', quantity: 1 }, { productId: '5', quantity: 2 }] },
 ];
 
+// Kits have no stock or purchases of their own
+const STOCKED_PRODUCTS = INITIAL_PRODUCTS.filter(p => !p.components);
+
 // Generate mock invoices for the last 30 days
 const generateMockInvoices = (): Invoice[] => {
   const invoices: Invoice[] = [];
@@ -25,22 +80,13 @@ const generateMockInvoices = (): Invoice[] => {
     const isSale = Math.random() > 0.3; // 70% chance of sale, 30% restock
     const numItems = Math.floor(Math.random() * 3) + 1;
     const items: InvoiceItem[] = [];
-    let totalAmount = 0;
 
     for (let j = 0; j < numItems; j++) {
-        const prod = INITIAL_PRODUCTS[Math.floor(Math.random() * INITIAL_PRODUCTS.length)];
+        const prod = STOCKED_PRODUCTS[Math.floor(Math.random() * STOCKED_PRODUCTS.length)];
         const qty = Math.floor(Math.random() * 5) + 1;
         const unitPrice = isSale ? prod.price : prod.cost;
-        const total = qty * unitPrice;
-        
-        items.push({
-            productId: prod.id,
-            productName: prod.name,
-            quantity: qty,
-            unitPrice: unitPrice,
-            total: total
-        });
-        totalAmount += total;
+
+        items.push(buildInvoiceItem(prod, qty, unitPrice, isSale ? 'SALE' : 'PURCHASE', DEFAULT_SETTINGS.tax));
     }
 
     invoices.push({
@@ -48,7 +94,7 @@ const generateMockInvoices = (): Invoice[] => {
       type: isSale ? 'SALE' : 'PURCHASE',
       date: date.toISOString().split('T')[0],
       items,
-      totalAmount
+      ...summarizeItems(items)
     });
   }
   // Sort by date asc
@@ -0,0 +1,201 @@
+import { Product, Invoice, StockMovement, Backorder, Promotion, CashSession, Supplier, PurchaseOrder, StockTransfer, StockCount, UserAccount, Customer, CustomerPayment, LoyaltyEntry, StoreSettings } from '../types';
+import { DB_VERSION, STORES, StoreName } from './db';
+
+export const BACKUP_FORMAT = 'buena-fe-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  products: Product[];
+  invoices: Invoice[];
+  stockMovements: StockMovement[];
+  backorders: Backorder[];
+  promotions: Promotion[];
+  cashSessions: CashSession[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  transfers: StockTransfer[];
+  stockCounts: StockCount[];
+  users: UserAccount[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  loyaltyEntries: LoyaltyEntry[];
+  settings: StoreSettings;
+}
+
+export type BackupCollection = Exclude<keyof BackupData, 'settings'>;
+
+export const BACKUP_COLLECTIONS: { key: BackupCollection; store: StoreName; label: string }[] = [
+  { key: 'products', store: STORES.PRODUCTS, label: 'Productos' },
+  { key: 'invoices', store: STORES.INVOICES, label: 'Facturas' },
+  { key: 'stockMovements', store: STORES.STOCK_MOVEMENTS, label: 'Movimientos de stock' },
+  { key: 'backorders', store: STORES.BACKORDERS, label: 'Pedidos pendientes' },
+  { key: 'promotions', store: STORES.PROMOTIONS, label: 'Promociones' },
+  { key: 'cashSessions', store: STORES.CASH_SESSIONS, label: 'Sesiones de caja' },
+  { key: 'suppliers', store: STORES.SUPPLIERS, label: 'Proveedores' },
+  { key: 'purchaseOrders', store: STORES.PURCHASE_ORDERS, label: 'Órdenes de compra' },
+  { key: 'transfers', store: STORES.TRANSFERS, label: 'Traslados' },
+  { key: 'stockCounts', store: STORES.STOCK_COUNTS, label: 'Tomas de inventario' },
+  { key: 'users', store: STORES.USERS, label: 'Usuarios' },
+  { key: 'customers', store: STORES.CUSTOMERS, label: 'Clientes' },
+  { key: 'customerPayments', store: STORES.CUSTOMER_PAYMENTS, label: 'Abonos de clientes' },
+  { key: 'loyaltyEntries', store: STORES.LOYALTY_ENTRIES, label: 'Movimientos de puntos' },
+];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Archive layout
+  schemaVersion: number; // Database version the data was exported from
+  createdAt: string;
+  checksum: string; // SHA-256 of the serialized data
+  data: BackupData;
+}
+
+export type RestoreMode = 'REPLACE' | 'MERGE';
+
+export const computeChecksum = async (data: BackupData): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(data)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: BackupData): Promise<BackupArchive> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: DB_VERSION,
+  createdAt: new Date().toISOString(),
+  checksum: await computeChecksum(data),
+  data,
+});
+
+export const downloadBackup = (archive: BackupArchive) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(archive)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `respaldo-buena-fe-${archive.createdAt.split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+type FieldType = 'string' | 'number' | 'array';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasFields = (record: Record<string, unknown>, fields: Record<string, FieldType>) =>
+  Object.keys(fields).every(field => fields[field] === 'array'
+    ? Array.isArray(record[field])
+    : typeof record[field] === fields[field] && (fields[field] !== 'number' || Number.isFinite(record[field])));
+
+// Required fields per record type; optional fields are left to the app, which already tolerates them missing
+const REQUIRED_FIELDS: Record<BackupCollection, Record<string, FieldType>> = {
+  products: { id: 'string', name: 'string', category: 'string', currentStock: 'number', minStock: 'number', price: 'number', cost: 'number' },
+  invoices: { id: 'string', type: 'string', date: 'string', items: 'array', totalAmount: 'number' },
+  stockMovements: { id: 'string', productId: 'string', type: 'string', quantity: 'number', date: 'string' },
+  backorders: { id: 'string', productId: 'string', invoiceId: 'string', quantity: 'number', status: 'string' },
+  promotions: { id: 'string', name: 'string', type: 'string', productIds: 'array', categories: 'array' },
+  cashSessions: { id: 'string', status: 'string', openedAt: 'string', openingFloat: 'number' },
+  suppliers: { id: 'string', name: 'string', productIds: 'array' },
+  purchaseOrders: { id: 'string', folio: 'number', status: 'string', lines: 'array', receipts: 'array' },
+  transfers: { id: 'string', folio: 'number', fromLocationId: 'string', toLocationId: 'string', lines: 'array' },
+  stockCounts: { id: 'string', folio: 'number', status: 'string', locationId: 'string', lines: 'array' },
+  users: { id: 'string', name: 'string', role: 'string', pinHash: 'string' },
+  customers: { id: 'string', name: 'string' },
+  customerPayments: { id: 'string', folio: 'number', customerId: 'string', date: 'string', amount: 'number', method: 'string' },
+  loyaltyEntries: { id: 'string', customerId: 'string', type: 'string', points: 'number', date: 'string' },
+};
+
+const INVOICE_ITEM_FIELDS: Record<string, FieldType> = {
+  productId: 'string', productName: 'string', quantity: 'number', unitPrice: 'number', total: 'number',
+};
+
+const INVOICE_TYPES = ['SALE', 'PURCHASE', 'CREDIT_NOTE'];
+
+// Problems with one collection of the archive, at most a few per collection so the list stays readable
+const validateCollection = (key: BackupCollection, label: string, records: unknown): string[] => {
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) return [`${label}: se esperaba una lista.`];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  records.forEach((record, index) => {
+    if (!isObject(record) || !hasFields(record, REQUIRED_FIELDS[key])) {
+      errors.push(`${label} #${index + 1}: faltan campos obligatorios o tienen un tipo incorrecto.`);
+      return;
+    }
+    if (ids.has(record.id as string)) errors.push(`${label}: el id ${record.id} está repetido.`);
+    ids.add(record.id as string);
+    if (key === 'invoices') {
+      if (!INVOICE_TYPES.includes(record.type as string)) errors.push(`Factura ${record.id}: tipo desconocido "${record.type}".`);
+      if (!(record.items as unknown[]).every(item => isObject(item) && hasFields(item, INVOICE_ITEM_FIELDS))) {
+        errors.push(`Factura ${record.id}: tiene líneas con datos inválidos.`);
+      }
+    }
+  });
+  return errors.length > 5 ? [...errors.slice(0, 5), `${label}: y ${errors.length - 5} errores más.`] : errors;
+};
+
+export interface ParsedBackup {
+  archive?: BackupArchive;
+  errors: string[];
+}
+
+// Reads an archive and checks its format, checksum and record shapes before anything is restored.
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { errors: ['El archivo no es un JSON válido.'] };
+  }
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT || !isObject(raw.data)) {
+    return { errors: ['El archivo no es un respaldo de Buena Fe.'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    return { errors: [`El respaldo es de una versión más nueva (${raw.version}) que esta aplicación.`] };
+  }
+
+  const data = raw.data as Record<string, unknown>;
+  const errors = BACKUP_COLLECTIONS.flatMap(c => validateCollection(c.key, c.label, data[c.key]));
+  if (!Array.isArray(data.products) || !Array.isArray(data.invoices)) {
+    errors.unshift('El respaldo no incluye productos y facturas.');
+  }
+  if (data.settings !== undefined && !isObject(data.settings)) errors.push('La configuración del respaldo es inválida.');
+  if (errors.length > 0) return { errors };
+
+  const archive = raw as unknown as BackupArchive;
+  if (await computeChecksum(archive.data) !== archive.checksum) {
+    return { errors: ['La suma de verificación no coincide: el archivo está dañado o fue modificado.'] };
+  }
+
+  // Collections added after the archive was made are restored as empty
+  BACKUP_COLLECTIONS.forEach(c => {
+    if (!archive.data[c.key]) (archive.data as unknown as Record<string, unknown>)[c.key] = [];
+  });
+  return { archive, errors: [] };
+};
+
+export interface CollectionDiff {
+  key: BackupCollection;
+  label: string;
+  added: number; // In the archive only
+  changed: number; // In both, with different content
+  unchanged: number;
+  removed: number; // Only in the current data; deleted by a replace, kept by a merge
+}
+
+export const diffBackup = (incoming: BackupData, current: BackupData): CollectionDiff[] =>
+  BACKUP_COLLECTIONS.map(({ key, label }) => {
+    const incomingRecords = incoming[key] as { id: string }[];
+    const currentRecords = current[key] as { id: string }[];
+    const currentById = new Map(currentRecords.map(r => [r.id, r]));
+    const incomingIds = new Set(incomingRecords.map(r => r.id));
+    let added = 0;
+    let changed = 0;
+    let unchanged = 0;
+    incomingRecords.forEach(record => {
+      const existing = currentById.get(record.id);
+      if (!existing) added++;
+      else if (JSON.stringify(existing) !== JSON.stringify(record)) changed++;
+      else unchanged++;
+    });
+    const removed = currentRecords.filter(r => !incomingIds.has(r.id)).length;
+    return { key, label, added, changed, unchanged, removed };
+  });
@@ -0,0 +1,143 @@
+import { CashSession, CustomerPayment, Invoice, Payment, PaymentMethod } from '../types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Efectivo',
+  DEBIT: 'Débito',
+  CREDIT: 'Crédito',
+  TRANSFER: 'Transferencia',
+  ACCOUNT: 'Fiado',
+  POINTS: 'Puntos',
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+export const getOpenSession = (sessions: CashSession[]) => sessions.find(s => s.status === 'OPEN');
+
+export const openSession = (openingFloat: number, user: string): CashSession => ({
+  id: crypto.randomUUID(),
+  status: 'OPEN',
+  openedAt: new Date().toISOString(),
+  openedBy: user,
+  openingFloat,
+});
+
+export interface Settlement {
+  payments: Payment[]; // Applied amounts per method, adding up to the total once fully paid
+  cashTendered: number;
+  change: number;
+  remaining: number;
+  error?: string;
+}
+
+// Turns what the customer handed over into applied payments. Only cash can exceed the total and give change.
+export const settlePayments = (total: number, tendered: Payment[]): Settlement => {
+  const sumOf = (list: Payment[]) => list.reduce((sum, p) => sum + Math.max(0, p.amount || 0), 0);
+  const nonCash = sumOf(tendered.filter(p => p.method !== 'CASH'));
+  const cashTendered = sumOf(tendered.filter(p => p.method === 'CASH'));
+  const paid = nonCash + cashTendered;
+  const change = nonCash > total ? 0 : Math.max(0, paid - total);
+
+  const byMethod = new Map<PaymentMethod, number>();
+  tendered
+    .filter(p => p.amount > 0)
+    .forEach(p => byMethod.set(p.method, (byMethod.get(p.method) || 0) + p.amount));
+  if (change > 0) byMethod.set('CASH', (byMethod.get('CASH') || 0) - change);
+
+  return {
+    payments: Array.from(byMethod.entries())
+      .filter(([, amount]) => amount > 0)
+      .map(([method, amount]) => ({ method, amount })),
+    cashTendered,
+    change,
+    remaining: Math.max(0, total - paid),
+    ...(nonCash > total ? { error: 'Solo el efectivo puede superar el total y dar vuelto.' } : {}),
+  };
+};
+
+export interface MethodTotals {
+  method: PaymentMethod;
+  sales: number;
+  refunds: number;
+  collections: number; // Customer payments towards their account
+  net: number;
+}
+
+export interface SessionSummary {
+  salesCount: number;
+  salesTotal: number;
+  refundsCount: number;
+  refundsTotal: number;
+  collectionsCount: number;
+  collectionsTotal: number;
+  netTotal: number;
+  netAmount: number;
+  taxAmount: number;
+  discountAmount: number;
+  byMethod: MethodTotals[];
+  expectedCash: number; // Opening float plus net cash
+}
+
+// Money movements of a session: every sale taken (voided or not), every refund given through credit notes
+// and every payment customers made towards their account.
+export const summarizeSession = (
+  session: CashSession,
+  invoices: Invoice[],
+  customerPayments: CustomerPayment[] = []
+): SessionSummary => {
+  const inSession = invoices.filter(inv => inv.cashSessionId === session.id);
+  const collections = customerPayments.filter(p => p.cashSessionId === session.id);
+  const sales = inSession.filter(inv => inv.type === 'SALE');
+  const refunds = inSession.filter(inv => inv.type === 'CREDIT_NOTE');
+
+  const byMethod = PAYMENT_METHODS.map(method => {
+    const total = (list: Invoice[]) => list.reduce(
+      (sum, inv) => sum + (inv.payments || []).filter(p => p.method === method).reduce((s, p) => s + p.amount, 0),
+      0
+    );
+    const salesAmount = total(sales);
+    const refundsAmount = total(refunds);
+    const collected = collections.filter(p => p.method === method).reduce((sum, p) => sum + p.amount, 0);
+    return { method, sales: salesAmount, refunds: refundsAmount, collections: collected, net: salesAmount - refundsAmount + collected };
+  });
+
+  const sum = (list: Invoice[], pick: (inv: Invoice) => number) => list.reduce((acc, inv) => acc + pick(inv), 0);
+  const salesTotal = sum(sales, inv => inv.totalAmount);
+  const refundsTotal = sum(refunds, inv => inv.totalAmount);
+  const cash = byMethod.find(m => m.method === 'CASH')!;
+
+  return {
+    salesCount: sales.length,
+    salesTotal,
+    refundsCount: refunds.length,
+    refundsTotal,
+    collectionsCount: collections.length,
+    collectionsTotal: collections.reduce((acc, p) => acc + p.amount, 0),
+    netTotal: salesTotal - refundsTotal,
+    netAmount: sum(sales, inv => inv.netAmount ?? inv.totalAmount) - sum(refunds, inv => inv.netAmount ?? inv.totalAmount),
+    taxAmount: sum(sales, inv => inv.taxAmount ?? 0) - sum(refunds, inv => inv.taxAmount ?? 0),
+    discountAmount: sum(sales, inv => inv.items.reduce((acc, i) => acc + (i.discountAmount || 0), 0)),
+    byMethod,
+    expectedCash: session.openingFloat + cash.net,
+  };
+};
+
+export const closeSession = (
+  session: CashSession,
+  invoices: Invoice[],
+  countedCash: number,
+  user: string,
+  notes?: string,
+  customerPayments: CustomerPayment[] = []
+): CashSession => {
+  const { expectedCash } = summarizeSession(session, invoices, customerPayments);
+  return {
+    ...session,
+    status: 'CLOSED',
+    closedAt: new Date().toISOString(),
+    closedBy: user,
+    expectedCash,
+    countedCash,
+    difference: countedCash - expectedCash,
+    ...(notes ? { notes } : {}),
+  };
+};
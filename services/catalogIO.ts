@@ -0,0 +1,289 @@
+import { Product } from '../types';
+import { normalizeBarcode, normalizeSku, validateProductCodes } from './productCodes';
+import { allowsFraction, roundQuantity } from './units';
+import { isKit } from './kits';
+
+export type CatalogField = 'name' | 'sku' | 'barcodes' | 'category' | 'price' | 'cost' | 'currentStock' | 'minStock';
+
+export interface CatalogColumn {
+  field: CatalogField;
+  header: string; // Header used on export and matched first on import
+  aliases: string[];
+  numeric: boolean;
+  required: boolean;
+}
+
+export const CATALOG_COLUMNS: CatalogColumn[] = [
+  { field: 'name', header: 'Nombre', aliases: ['producto', 'descripcion', 'name'], numeric: false, required: true },
+  { field: 'sku', header: 'SKU', aliases: ['codigo interno', 'codigo'], numeric: false, required: false },
+  { field: 'barcodes', header: 'Codigos de barras', aliases: ['codigo de barras', 'ean', 'barcode', 'barcodes'], numeric: false, required: false },
+  { field: 'category', header: 'Categoria', aliases: ['rubro', 'familia', 'category'], numeric: false, required: false },
+  { field: 'price', header: 'Precio', aliases: ['precio venta', 'price'], numeric: true, required: true },
+  { field: 'cost', header: 'Costo', aliases: ['precio costo', 'cost'], numeric: true, required: false },
+  { field: 'currentStock', header: 'Stock', aliases: ['stock actual', 'existencia', 'cantidad'], numeric: true, required: false },
+  { field: 'minStock', header: 'Stock minimo', aliases: ['minimo', 'stock min'], numeric: true, required: false },
+];
+
+const QUANTITY_FIELDS = ['currentStock', 'minStock'] as const;
+
+// Barcodes share a single cell on import and export
+const BARCODE_SEPARATOR = '|';
+
+// Column index per field; -1 means the field is not imported
+export type ColumnMapping = Record<CatalogField, number>;
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  CATALOG_COLUMNS.forEach(column => {
+    const candidates = [column.header, ...column.aliases].map(normalizeHeader);
+    mapping[column.field] = normalized.findIndex(h => candidates.includes(h));
+  });
+  return mapping;
+};
+
+// Minimal RFC 4180 parser. Spreadsheets in Spanish locales export with ';', so the delimiter is detected.
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const escapeCsv = (value: string) => /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(value => escapeCsv(String(value))).join(';')).join('\r\n');
+
+const isSpreadsheet = (fileName: string) => /\.(xlsx|xls|ods)$/i.test(fileName);
+
+// First sheet of a CSV or Excel file as rows of text cells. SheetJS is only loaded for Excel files.
+export const readCatalogFile = async (file: File): Promise<string[][]> => {
+  if (!isSpreadsheet(file.name)) {
+    // Strip the BOM Excel adds to UTF-8 CSVs
+    return parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  }
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows
+    .map(row => row.map(cell => String(cell ?? '')))
+    .filter(row => row.some(c => c.trim() !== ''));
+};
+
+export const catalogRows = (products: Product[]): (string | number)[][] => [
+  CATALOG_COLUMNS.map(c => c.header),
+  ...products.map(p => [
+    p.name,
+    p.sku || '',
+    (p.barcodes || []).join(BARCODE_SEPARATOR),
+    p.category,
+    p.price,
+    p.cost,
+    p.currentStock,
+    p.minStock,
+  ]),
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportCatalog = async (products: Product[], format: 'CSV' | 'XLSX') => {
+  const rows = catalogRows(products);
+  const date = new Date().toISOString().split('T')[0];
+  if (format === 'CSV') {
+    downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `catalogo-${date}.csv`);
+    return;
+  }
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Catalogo');
+  XLSX.writeFile(workbook, `catalogo-${date}.xlsx`);
+};
+
+// Accepts "1.200", "1200", "1.200,50", "0,250" and "1200.5". A lone comma is a decimal separator,
+// as spreadsheets in Spanish locales write it; commas only group thousands alongside a decimal point
+// or when repeated ("1,200.50", "1,200,000").
+export const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[$\s]/g, '');
+  if (cleaned === '') return null;
+  const commas = (cleaned.match(/,/g) || []).length;
+  const normalized = /^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(cleaned)
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned) && (commas > 1 || cleaned.includes('.'))
+      ? cleaned.replace(/,/g, '')
+      : commas === 1 && !cleaned.includes('.') ? cleaned.replace(',', '.') : cleaned;
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : null;
+};
+
+// "1,200" is 1.2 for a Spanish spreadsheet but 1200 for an English one
+export const isAmbiguousNumber = (value: string) => /^-?\d{1,3},\d{3}$/.test(value.replace(/[$\s]/g, ''));
+
+const MONEY_FIELDS: CatalogField[] = ['price', 'cost'];
+
+export type ImportAction = 'CREATE' | 'UPDATE' | 'UNCHANGED' | 'ERROR';
+
+export interface ImportRow {
+  rowNumber: number; // As shown in the spreadsheet, counting the header
+  action: ImportAction;
+  product?: Product; // The product as it will be saved
+  existing?: Product;
+  changes: string[]; // Labels of the fields an update modifies
+  errors: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  creates: number;
+  updates: number;
+  unchanged: number;
+  errors: number;
+}
+
+// Dry run of an import: validates every row and decides whether it creates or updates a product.
+// Existing products are matched by SKU first, then by name. Without `canEditPrices` only new products take a price.
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  products: Product[],
+  canEditPrices = true
+): ImportPreview => {
+  const seenNames = new Map<string, number>();
+  const seenSkus = new Map<string, number>();
+  const accepted: Product[] = [];
+
+  const result = rows.map((cells, index): ImportRow => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const read = (field: CatalogField) => mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : undefined;
+
+    const name = read('name') || '';
+    const sku = read('sku') ? normalizeSku(read('sku')!) : undefined;
+    if (!name) errors.push('Falta el nombre.');
+
+    // Required numbers only matter for new products; updates keep the current value
+    const missing: string[] = [];
+    const numbers: Partial<Pick<Product, 'price' | 'cost' | 'currentStock' | 'minStock'>> = {};
+    CATALOG_COLUMNS.filter(c => c.numeric).forEach(column => {
+      const raw = read(column.field);
+      if (raw === undefined || raw === '') {
+        if (column.required) missing.push(`Falta ${column.header.toLowerCase()}.`);
+        return;
+      }
+      // Prices are whole pesos, so guessing wrong would be off by a thousand without any warning
+      if (MONEY_FIELDS.includes(column.field) && isAmbiguousNumber(raw)) {
+        errors.push(`${column.header} "${raw}" es ambiguo: escríbelo sin separador (${raw.replace(/[$\s,]/g, '')}) o con punto de miles.`);
+        return;
+      }
+      const value = parseNumber(raw);
+      if (value === null) errors.push(`${column.header} "${raw}" no es un número.`);
+      else if (value < 0) errors.push(`${column.header} no puede ser negativo.`);
+      else numbers[column.field as keyof typeof numbers] = column.field === 'price' || column.field === 'cost' ? Math.round(value) : roundQuantity(value);
+    });
+
+    const nameKey = name.toLowerCase();
+    if (name && seenNames.has(nameKey)) errors.push(`Nombre repetido en la fila ${seenNames.get(nameKey)}.`);
+    if (sku && seenSkus.has(sku)) errors.push(`SKU repetido en la fila ${seenSkus.get(sku)}.`);
+    if (name) seenNames.set(nameKey, rowNumber);
+    if (sku) seenSkus.set(sku, rowNumber);
+
+    const existing = (sku ? products.find(p => p.sku && normalizeSku(p.sku) === sku) : undefined)
+      || products.find(p => p.name.trim().toLowerCase() === nameKey);
+    if (!existing) errors.push(...missing);
+    if (existing && isKit(existing) && numbers.currentStock) {
+      errors.push(`${existing.name} es un kit: no tiene stock propio, deja el stock vacío o en 0.`);
+    }
+    // Only weighed products hold fractions of a unit; new products are sold by unit
+    QUANTITY_FIELDS.forEach(field => {
+      const value = numbers[field];
+      if (value !== undefined && !allowsFraction(existing || {}) && !Number.isInteger(value)) {
+        errors.push(`${CATALOG_COLUMNS.find(c => c.field === field)!.header} debe ser un número entero: ${existing?.name || name} se vende por unidad.`);
+      }
+    });
+    if (existing && !canEditPrices && numbers.price !== undefined && numbers.price !== existing.price) {
+      errors.push('No tienes permiso para cambiar precios.');
+    }
+    if (existing && sku && existing.sku && normalizeSku(existing.sku) !== sku) {
+      errors.push(`${existing.name} ya existe con el SKU ${existing.sku}.`);
+    }
+
+    const barcodesCell = read('barcodes');
+    const barcodes = barcodesCell !== undefined
+      ? barcodesCell.split(/[|,\s]+/).map(normalizeBarcode).filter(Boolean)
+      : existing?.barcodes;
+
+    const product: Product = {
+      ...(existing || {
+        id: crypto.randomUUID(),
+        category: 'General',
+        currentStock: 0,
+        minStock: 5,
+        cost: 0,
+        price: 0,
+        lastRestocked: new Date().toISOString().split('T')[0],
+        stockPolicy: 'BLOCK' as const,
+      }),
+      name: name || existing?.name || '',
+      ...(read('category') ? { category: read('category')! } : {}),
+      ...(sku ? { sku } : {}),
+      ...(barcodes ? { barcodes } : {}),
+      ...numbers,
+    };
+
+    // Codes are checked against the catalogue minus the product itself, plus the rows accepted so far
+    errors.push(...validateProductCodes(product, [...products.filter(p => p.id !== product.id), ...accepted]));
+
+    if (errors.length > 0) return { rowNumber, action: 'ERROR', changes: [], errors, existing };
+
+    accepted.push(product);
+    if (!existing) return { rowNumber, action: 'CREATE', product, changes: [], errors };
+
+    const changes = CATALOG_COLUMNS
+      .filter(c => JSON.stringify(product[c.field] ?? '') !== JSON.stringify(existing[c.field] ?? ''))
+      .map(c => c.header);
+    return { rowNumber, action: changes.length > 0 ? 'UPDATE' : 'UNCHANGED', product, existing, changes, errors };
+  });
+
+  const count = (action: ImportAction) => result.filter(r => r.action === action).length;
+  return { rows: result, creates: count('CREATE'), updates: count('UPDATE'), unchanged: count('UNCHANGED'), errors: count('ERROR') };
+};
@@ -0,0 +1,123 @@
+import { CostingMethod, InvoiceItem, Product, StockMovement } from '../types';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  AVERAGE: 'Costo promedio ponderado',
+  FIFO: 'FIFO (primero en entrar, primero en salir)',
+};
+
+const roundCost = (value: number) => Math.round(value * 100) / 100;
+
+// What a purchase line really cost per unit, after its discounts, on the same tax basis as unitPrice
+export const purchaseUnitCost = (item: InvoiceItem) =>
+  item.quantity > 0 ? roundCost((item.quantity * item.unitPrice - (item.discountAmount || 0)) / item.quantity) : item.unitPrice;
+
+// Moving average after `quantity` units at `unitCost` enter (or, if negative, leave) a stock of `stock` at `average`.
+// When there is no stock left to average against, the new cost simply replaces the old one.
+export const nextAverageCost = (stock: number, average: number, quantity: number, unitCost: number): number => {
+  const remaining = stock + quantity;
+  if (quantity > 0 && stock <= 0) return roundCost(unitCost);
+  if (remaining <= 0) return average;
+  return roundCost((stock * average + quantity * unitCost) / remaining);
+};
+
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+  date: string;
+}
+
+export interface CostHistoryEntry {
+  movementId: string;
+  date: string;
+  quantity: number;
+  unitCost: number;
+  averageAfter: number;
+  invoiceId?: string;
+}
+
+export interface CostReplay {
+  stock: number;
+  averageCost: number;
+  layers: CostLayer[]; // FIFO layers still on hand, oldest first
+  history: CostHistoryEntry[]; // Every movement that carried a cost
+  averageByMovement: Map<string, number>; // Average cost right after each movement
+}
+
+// Takes units out of the FIFO layers. Purchase reversals remove their own layer first.
+const consumeLayers = (layers: CostLayer[], quantity: number, unitCost?: number) => {
+  let remaining = quantity;
+  if (unitCost !== undefined) {
+    for (let i = layers.length - 1; i >= 0 && remaining > 0; i--) {
+      if (layers[i].unitCost !== unitCost) continue;
+      const taken = Math.min(layers[i].quantity, remaining);
+      layers[i].quantity -= taken;
+      remaining -= taken;
+    }
+  }
+  for (let i = 0; i < layers.length && remaining > 0; i++) {
+    const taken = Math.min(layers[i].quantity, remaining);
+    layers[i].quantity -= taken;
+    remaining -= taken;
+  }
+  return { layers: layers.filter(l => l.quantity > 0), shortfall: remaining };
+};
+
+// Replays a product's ledger to rebuild its cost. Movements without a cost (sales, shrinkage, manual
+// adjustments) move units at the current average and never change it.
+export const replayCosts = (movements: StockMovement[], productId: string, fallbackCost: number): CostReplay => {
+  let stock = 0;
+  let average = fallbackCost;
+  let layers: CostLayer[] = [];
+  let deficit = 0; // Units sold below zero, settled by the next units that come in
+  const history: CostHistoryEntry[] = [];
+  const averageByMovement = new Map<string, number>();
+
+  movements
+    // Transfers move units between locations without changing what they cost
+    .filter(m => m.productId === productId && m.type !== 'TRANSFER')
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(m => {
+      const unitCost = m.unitCost ?? average;
+      if (m.quantity > 0) {
+        average = nextAverageCost(stock, average, m.quantity, unitCost);
+        const settled = Math.min(deficit, m.quantity);
+        deficit -= settled;
+        if (m.quantity > settled) layers.push({ quantity: m.quantity - settled, unitCost, date: m.date });
+      } else if (m.quantity < 0) {
+        if (m.unitCost !== undefined) average = nextAverageCost(stock, average, m.quantity, m.unitCost);
+        const result = consumeLayers(layers, -m.quantity, m.unitCost);
+        layers = result.layers;
+        deficit += result.shortfall;
+      }
+      stock += m.quantity;
+      averageByMovement.set(m.id, average);
+      if (m.unitCost !== undefined) {
+        history.push({ movementId: m.id, date: m.date, quantity: m.quantity, unitCost: m.unitCost, averageAfter: average, invoiceId: m.invoiceId });
+      }
+    });
+
+  return { stock, averageCost: average, layers, history, averageByMovement };
+};
+
+export interface ProductValuation {
+  product: Product;
+  value: number;
+  unitCost: number; // Value per unit on hand under the chosen method
+}
+
+// Value of the stock on hand. Negative stock is worth nothing rather than a negative amount.
+export const valueInventory = (products: Product[], movements: StockMovement[], method: CostingMethod): ProductValuation[] =>
+  products.map(product => {
+    const onHand = Math.max(product.currentStock, 0);
+    if (method === 'AVERAGE' || onHand === 0) {
+      return { product, value: onHand * product.cost, unitCost: product.cost };
+    }
+    const { layers } = replayCosts(movements, product.id, product.cost);
+    const layered = layers.reduce((sum, l) => sum + l.quantity, 0);
+    // Units the ledger can't trace to a costed entry are valued at the average
+    const value = layers.reduce((sum, l) => sum + l.quantity * l.unitCost, 0) + Math.max(onHand - layered, 0) * product.cost;
+    return { product, value: Math.round(value), unitCost: roundCost(value / onHand) };
+  });
+
+export const totalInventoryValue = (products: Product[], movements: StockMovement[], method: CostingMethod) =>
+  Math.round(valueInventory(products, movements, method).reduce((sum, v) => sum + v.value, 0));
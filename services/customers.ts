@@ -0,0 +1,211 @@
+import { Customer, CustomerPayment, Invoice, Payment } from '../types';
+import { isEffectiveInvoice } from './invoices';
+import { formatRut, isValidRut } from './suppliers';
+
+export const nextPaymentFolio = (payments: CustomerPayment[]) =>
+  payments.reduce((max, p) => Math.max(max, p.folio), 0) + 1;
+
+export const formatPaymentFolio = (payment: CustomerPayment) => `AB-${String(payment.folio).padStart(6, '0')}`;
+
+// Part of an invoice charged to the customer's account
+export const accountAmount = (payments: Payment[] | undefined) =>
+  (payments || []).filter(p => p.method === 'ACCOUNT').reduce((sum, p) => sum + p.amount, 0);
+
+// Sales charged on account that still count: a voided sale and its credit note cancel each other out
+const accountSales = (customerId: string, invoices: Invoice[]) =>
+  invoices.filter(inv => inv.type === 'SALE' && inv.customerId === customerId && isEffectiveInvoice(inv) && accountAmount(inv.payments) > 0);
+
+// What each customer owes: sales on account minus what they have paid
+export const getCustomerBalances = (invoices: Invoice[], payments: CustomerPayment[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  invoices
+    .filter(inv => inv.type === 'SALE' && inv.customerId && isEffectiveInvoice(inv))
+    .forEach(inv => balances.set(inv.customerId!, (balances.get(inv.customerId!) || 0) + accountAmount(inv.payments)));
+  payments.forEach(p => balances.set(p.customerId, (balances.get(p.customerId) || 0) - p.amount));
+  return balances;
+};
+
+export interface CreditCheck {
+  balance: number;
+  available?: number; // Missing for customers without a limit
+  exceeded: boolean;
+  message?: string;
+}
+
+// Whether charging `amount` more would take the customer over their limit. It is a warning, not a block:
+// the cashier knows the neighbor.
+export const checkCredit = (customer: Customer, balance: number, amount: number): CreditCheck => {
+  if (customer.creditLimit === undefined) return { balance, exceeded: false };
+  const available = customer.creditLimit - balance;
+  const exceeded = amount > available;
+  return {
+    balance,
+    available,
+    exceeded,
+    ...(exceeded ? {
+      message: `${customer.name} quedaría debiendo $${(balance + amount).toLocaleString()}, sobre su límite de $${customer.creditLimit.toLocaleString()}.`,
+    } : {}),
+  };
+};
+
+export interface CustomerInput {
+  name: string;
+  phone?: string;
+  rut?: string;
+  address?: string;
+  creditLimit?: number;
+  notes?: string;
+  active?: boolean;
+}
+
+export interface CustomerResult {
+  customer?: Customer;
+  error?: string;
+}
+
+export const saveCustomer = (input: CustomerInput, customers: Customer[], existing?: Customer): CustomerResult => {
+  const name = input.name.trim();
+  if (!name) return { error: 'Ingresa el nombre del cliente.' };
+  if (customers.some(c => c.id !== existing?.id && c.name.toLowerCase() === name.toLowerCase())) {
+    return { error: `Ya existe un cliente llamado ${name}.` };
+  }
+  const rut = input.rut?.trim();
+  if (rut && !isValidRut(rut)) return { error: 'El RUT no es válido.' };
+  if (input.creditLimit !== undefined && (!Number.isFinite(input.creditLimit) || input.creditLimit < 0)) {
+    return { error: 'El límite de crédito no puede ser negativo.' };
+  }
+
+  return {
+    customer: {
+      id: existing?.id || crypto.randomUUID(),
+      name,
+      ...(input.phone?.trim() ? { phone: input.phone.trim() } : {}),
+      ...(rut ? { rut: formatRut(rut) } : {}),
+      ...(input.address?.trim() ? { address: input.address.trim() } : {}),
+      ...(input.creditLimit !== undefined ? { creditLimit: input.creditLimit } : {}),
+      ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+      active: input.active ?? existing?.active ?? true,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    },
+  };
+};
+
+export interface PaymentInput {
+  customerId: string;
+  amount: number;
+  method: CustomerPayment['method'];
+  notes?: string;
+}
+
+export interface CustomerPaymentResult {
+  payment?: CustomerPayment;
+  error?: string;
+}
+
+// A receipt for money the customer brought in. Cash goes into the open register, so it needs one.
+export const createCustomerPayment = (
+  input: PaymentInput,
+  context: { balance: number; payments: CustomerPayment[]; cashSessionId?: string; user: string }
+): CustomerPaymentResult => {
+  if (!(input.amount > 0)) return { error: 'Ingresa el monto del abono.' };
+  if (input.amount > context.balance) {
+    return { error: `El abono supera la deuda del cliente ($${Math.max(0, context.balance).toLocaleString()}).` };
+  }
+  if (input.method === 'CASH' && !context.cashSessionId) return { error: 'Abre la caja para recibir abonos en efectivo.' };
+
+  return {
+    payment: {
+      id: crypto.randomUUID(),
+      folio: nextPaymentFolio(context.payments),
+      customerId: input.customerId,
+      date: new Date().toISOString(),
+      amount: input.amount,
+      method: input.method,
+      ...(input.method === 'CASH' ? { cashSessionId: context.cashSessionId } : {}),
+      user: context.user,
+      ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+    },
+  };
+};
+
+export interface StatementEntry {
+  id: string;
+  date: string;
+  description: string;
+  charge: number;
+  credit: number;
+  balance: number; // Running, after this entry
+}
+
+// Account statement of one customer, oldest first
+export const getCustomerStatement = (
+  customerId: string,
+  invoices: Invoice[],
+  payments: CustomerPayment[],
+  describeSale: (invoice: Invoice) => string
+): StatementEntry[] => {
+  const entries = [
+    ...accountSales(customerId, invoices).map(inv => ({
+      id: inv.id, date: inv.date, description: describeSale(inv), charge: accountAmount(inv.payments), credit: 0,
+    })),
+    ...payments.filter(p => p.customerId === customerId).map(p => ({
+      id: p.id, date: p.date, description: `Abono ${formatPaymentFolio(p)}`, charge: 0, credit: p.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.charge - entry.credit;
+    return { ...entry, balance };
+  });
+};
+
+export const AGING_BUCKETS = ['0-30 días', '31-60 días', '61-90 días', 'Más de 90 días'];
+
+const bucketOf = (days: number) => days <= 30 ? 0 : days <= 60 ? 1 : days <= 90 ? 2 : 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AgingRow {
+  customer: Customer;
+  balance: number;
+  buckets: number[]; // Owed per AGING_BUCKETS entry
+  oldestDays: number; // Age of the oldest unpaid sale
+  overLimit: boolean;
+}
+
+// Who owes what and for how long. Payments settle the oldest sales first, so what is left open
+// is aged by the date of the sales it came from.
+export const buildAgingReport = (
+  customers: Customer[],
+  invoices: Invoice[],
+  payments: CustomerPayment[],
+  today = new Date()
+): AgingRow[] =>
+  customers
+    .map(customer => {
+      let paid = payments.filter(p => p.customerId === customer.id).reduce((sum, p) => sum + p.amount, 0);
+      const buckets = AGING_BUCKETS.map(() => 0);
+      let oldestDays = 0;
+      accountSales(customer.id, invoices)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(inv => {
+          const amount = accountAmount(inv.payments);
+          const settled = Math.min(paid, amount);
+          paid -= settled;
+          if (amount - settled <= 0) return;
+          const days = Math.max(0, Math.floor((today.getTime() - new Date(inv.date).getTime()) / DAY_MS));
+          buckets[bucketOf(days)] += amount - settled;
+          oldestDays = Math.max(oldestDays, days);
+        });
+      const balance = buckets.reduce((sum, b) => sum + b, 0);
+      return {
+        customer,
+        balance,
+        buckets,
+        oldestDays,
+        overLimit: customer.creditLimit !== undefined && balance > customer.creditLimit,
+      };
+    })
+    .filter(row => row.balance > 0)
+    .sort((a, b) => b.oldestDays - a.oldestDays || b.balance - a.balance);
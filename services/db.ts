@@ -0,0 +1,194 @@
+import { Product, StockMovement } from '../types';
+import { DEFAULT_USER } from '../constants';
+
+const DB_NAME = 'buena-fe-inventario';
+
+export const STORES = {
+  PRODUCTS: 'products',
+  INVOICES: 'invoices',
+  SETTINGS: 'settings',
+  STOCK_MOVEMENTS: 'stockMovements',
+  BACKORDERS: 'backorders',
+  PROMOTIONS: 'promotions',
+  CASH_SESSIONS: 'cashSessions',
+  SUPPLIERS: 'suppliers',
+  PURCHASE_ORDERS: 'purchaseOrders',
+  TRANSFERS: 'transfers',
+  STOCK_COUNTS: 'stockCounts',
+  USERS: 'users',
+  CUSTOMERS: 'customers',
+  CUSTOMER_PAYMENTS: 'customerPayments',
+  LOYALTY_ENTRIES: 'loyaltyEntries',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Schema migrations. Entry N upgrades the database from version N to N + 1,
+// so new versions are added by appending to this list (never edit old entries).
+const MIGRATIONS: Migration[] = [
+  // v1: initial schema
+  (db) => {
+    db.createObjectStore(STORES.PRODUCTS, { keyPath: 'id' });
+    const invoices = db.createObjectStore(STORES.INVOICES, { keyPath: 'id' });
+    invoices.createIndex('date', 'date');
+    db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
+  },
+  // v2: stock ledger, backfilled with an opening balance for every existing product
+  (db, tx) => {
+    const movements = db.createObjectStore(STORES.STOCK_MOVEMENTS, { keyPath: 'id' });
+    movements.createIndex('productId', 'productId');
+    const date = new Date().toISOString();
+    tx.objectStore(STORES.PRODUCTS).getAll().onsuccess = (event) => {
+      const products = (event.target as IDBRequest<Product[]>).result;
+      products
+        .filter(p => p.currentStock !== 0)
+        .forEach(p => {
+          const opening: StockMovement = {
+            id: crypto.randomUUID(),
+            productId: p.id,
+            type: 'OPENING',
+            quantity: p.currentStock,
+            date,
+            user: DEFAULT_USER,
+            reason: 'Migración de stock existente',
+          };
+          movements.put(opening);
+        });
+    };
+  },
+  // v3: backorders for sales beyond available stock
+  (db) => {
+    const backorders = db.createObjectStore(STORES.BACKORDERS, { keyPath: 'id' });
+    backorders.createIndex('productId', 'productId');
+  },
+  // v4: sale promotions
+  (db) => {
+    db.createObjectStore(STORES.PROMOTIONS, { keyPath: 'id' });
+  },
+  // v5: cash register sessions
+  (db) => {
+    db.createObjectStore(STORES.CASH_SESSIONS, { keyPath: 'id' });
+  },
+  // v6: suppliers
+  (db) => {
+    db.createObjectStore(STORES.SUPPLIERS, { keyPath: 'id' });
+  },
+  // v7: purchase orders
+  (db) => {
+    db.createObjectStore(STORES.PURCHASE_ORDERS, { keyPath: 'id' });
+  },
+  // v8: stock transfers between locations
+  (db) => {
+    db.createObjectStore(STORES.TRANSFERS, { keyPath: 'id' });
+  },
+  // v9: physical stock counts
+  (db) => {
+    db.createObjectStore(STORES.STOCK_COUNTS, { keyPath: 'id' });
+  },
+  // v10: user accounts
+  (db) => {
+    db.createObjectStore(STORES.USERS, { keyPath: 'id' });
+  },
+  // v11: customer accounts and their payments
+  (db) => {
+    db.createObjectStore(STORES.CUSTOMERS, { keyPath: 'id' });
+    db.createObjectStore(STORES.CUSTOMER_PAYMENTS, { keyPath: 'id' });
+  },
+  // v12: loyalty points ledger
+  (db) => {
+    const entries = db.createObjectStore(STORES.LOYALTY_ENTRIES, { keyPath: 'id' });
+    entries.createIndex('customerId', 'customerId');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop our connection so it can proceed.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+  });
+
+  return dbPromise;
+};
+
+// Runs `work` inside a single transaction over the given stores and resolves once it commits.
+export const withTransaction = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = transactionDone(tx);
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export interface Repository<T extends { id: string }> {
+  getAll: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  put: (item: T) => Promise<void>;
+  putMany: (items: T[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const createRepository = <T extends { id: string }>(storeName: StoreName): Repository<T> => ({
+  getAll: () =>
+    withTransaction(storeName, 'readonly', tx => requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>)),
+  get: (id) =>
+    withTransaction(storeName, 'readonly', tx => requestToPromise(tx.objectStore(storeName).get(id) as IDBRequest<T | undefined>)),
+  put: (item) =>
+    withTransaction(storeName, 'readwrite', tx => { tx.objectStore(storeName).put(item); }),
+  putMany: (items) =>
+    withTransaction(storeName, 'readwrite', tx => {
+      const store = tx.objectStore(storeName);
+      items.forEach(item => store.put(item));
+    }),
+  remove: (id) =>
+    withTransaction(storeName, 'readwrite', tx => { tx.objectStore(storeName).delete(id); }),
+  clear: () =>
+    withTransaction(storeName, 'readwrite', tx => { tx.objectStore(storeName).clear(); }),
+});
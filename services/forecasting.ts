@@ -0,0 +1,247 @@
+import { Invoice, Product } from '../types';
+import { getEffectiveInvoices } from './invoices';
+import { expandKitItems } from './kits';
+
+export type ForecastMethod = 'MOVING_AVERAGE' | 'WEEKDAY_AVERAGE' | 'EXPONENTIAL' | 'HOLT_WINTERS';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  MOVING_AVERAGE: 'Promedio móvil (7 días)',
+  WEEKDAY_AVERAGE: 'Promedio por día de la semana',
+  EXPONENTIAL: 'Suavizado exponencial',
+  HOLT_WINTERS: 'Holt-Winters (tendencia y estacionalidad semanal)',
+};
+
+export const DEFAULT_FORECAST_METHOD: ForecastMethod = 'HOLT_WINTERS';
+
+// Days of sales history the models are fitted on, whatever range the chart shows
+export const FORECAST_HISTORY_DAYS = 90;
+
+const DAY_MS = 86400000;
+const SEASON = 7; // Weekly seasonality on a daily series
+const MOVING_WINDOW = 7;
+const WEEKDAY_WEEKS = 4;
+const ALPHA = 0.3; // Level smoothing
+const BETA = 0.05; // Trend smoothing
+const GAMMA = 0.2; // Seasonal smoothing
+const PHI = 0.9; // Trend damping, so a short-lived trend isn't extrapolated forever
+const Z_95 = 1.96;
+
+export interface DailyPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface ForecastPoint extends DailyPoint {
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastAccuracy {
+  mape: number | null; // Mean absolute percentage error, 0..1. Null when every actual in the holdout was zero
+  mae: number;
+  days: number;
+}
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+
+// One point per day from `from` to `to` (inclusive), zero where there is no entry
+export const dailySeries = (entries: DailyPoint[], from: string, to: string): DailyPoint[] => {
+  const totals = new Map<string, number>();
+  entries.forEach(e => totals.set(e.date, (totals.get(e.date) || 0) + e.value));
+  const series: DailyPoint[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    series.push({ date, value: totals.get(date) || 0 });
+  }
+  return series;
+};
+
+// Daily sales ending on `to`: amounts for the whole store, or units when a product is given. Voided sales are left out.
+export const salesHistory = (invoices: Invoice[], to: string, days: number, productId?: string): DailyPoint[] => {
+  const from = addDays(to, -(days - 1));
+  const entries = getEffectiveInvoices(invoices)
+    .filter(inv => inv.type === 'SALE' && inv.date >= from && inv.date <= to)
+    .map(inv => ({
+      date: inv.date,
+      value: productId
+        ? expandKitItems(inv.items).filter(i => i.productId === productId).reduce((sum, i) => sum + i.quantity, 0)
+        : inv.totalAmount,
+    }));
+  return dailySeries(entries, from, to);
+};
+
+interface FittedModel {
+  fitted: (number | null)[]; // One-step-ahead prediction for each day of the history
+  predict: (step: number) => number; // step 1 is the day after the history ends
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+const movingAverage = (values: number[]): FittedModel => ({
+  fitted: values.map((_, t) => (t === 0 ? null : mean(values.slice(Math.max(0, t - MOVING_WINDOW), t)))),
+  predict: () => mean(values.slice(-MOVING_WINDOW)),
+});
+
+// Same weekday over the last few weeks, using only days before `t`
+const weekdayAverage = (values: number[]): FittedModel => {
+  const sameWeekday = (t: number) => {
+    let i = t - SEASON;
+    while (i >= values.length) i -= SEASON;
+    const samples: number[] = [];
+    for (; i >= 0 && samples.length < WEEKDAY_WEEKS; i -= SEASON) samples.push(values[i]);
+    return samples;
+  };
+  return {
+    fitted: values.map((_, t) => {
+      const samples = sameWeekday(t);
+      return samples.length > 0 ? mean(samples) : null;
+    }),
+    predict: step => mean(sameWeekday(values.length - 1 + step)),
+  };
+};
+
+const exponential = (values: number[]): FittedModel => {
+  let level = values[0] ?? 0;
+  const fitted = values.map((y, t) => {
+    if (t === 0) return null;
+    const prediction = level;
+    level = ALPHA * y + (1 - ALPHA) * level;
+    return prediction;
+  });
+  return { fitted, predict: () => level };
+};
+
+const dampedTrend = (step: number) => {
+  let factor = 0;
+  for (let i = 1; i <= step; i++) factor += Math.pow(PHI, i);
+  return factor;
+};
+
+// Additive Holt-Winters with a damped trend. Needs two full weeks to initialise; shorter series fall back to
+// plain exponential smoothing.
+const holtWinters = (values: number[]): FittedModel => {
+  if (values.length < SEASON * 2) return exponential(values);
+
+  let level = mean(values.slice(0, SEASON));
+  let trend = (mean(values.slice(SEASON, SEASON * 2)) - level) / SEASON;
+  const seasonal = values.slice(0, SEASON).map(y => y - level);
+
+  const fitted = values.map((y, t) => {
+    if (t < SEASON) return null;
+    const s = seasonal[t % SEASON];
+    const prediction = level + PHI * trend + s;
+    const nextLevel = ALPHA * (y - s) + (1 - ALPHA) * (level + PHI * trend);
+    trend = BETA * (nextLevel - level) + (1 - BETA) * PHI * trend;
+    seasonal[t % SEASON] = GAMMA * (y - nextLevel) + (1 - GAMMA) * s;
+    level = nextLevel;
+    return prediction;
+  });
+
+  return {
+    fitted,
+    predict: step => level + dampedTrend(step) * trend + seasonal[(values.length - 1 + step) % SEASON],
+  };
+};
+
+const MODELS: Record<ForecastMethod, (values: number[]) => FittedModel> = {
+  MOVING_AVERAGE: movingAverage,
+  WEEKDAY_AVERAGE: weekdayAverage,
+  EXPONENTIAL: exponential,
+  HOLT_WINTERS: holtWinters,
+};
+
+// Projects `horizon` days after the history. The 95% band comes from the model's one-step-ahead errors on the
+// history and widens with the square root of the horizon. Demand can't go below zero, so neither can the forecast.
+export const forecastSeries = (history: DailyPoint[], horizon: number, method: ForecastMethod): ForecastPoint[] => {
+  if (history.length === 0) return [];
+  const values = history.map(p => p.value);
+  const model = MODELS[method](values);
+
+  const errors = model.fitted
+    .map((f, t) => (f === null ? null : values[t] - f))
+    .filter((e): e is number => e !== null);
+  const sigma = Math.sqrt(mean(errors.map(e => e * e)));
+
+  const lastDate = history[history.length - 1].date;
+  return Array.from({ length: horizon }, (_, i) => {
+    const step = i + 1;
+    const value = Math.max(0, model.predict(step));
+    const margin = Z_95 * sigma * Math.sqrt(step);
+    return {
+      date: addDays(lastDate, step),
+      value: roundValue(value),
+      lower: roundValue(Math.max(0, value - margin)),
+      upper: roundValue(value + margin),
+    };
+  });
+};
+
+// Holds back the last `holdout` days, forecasts them from the rest and compares with what actually happened.
+// Returns null when there isn't at least a week of history before the holdout.
+export const backtestForecast = (history: DailyPoint[], method: ForecastMethod, holdout = 7): ForecastAccuracy | null => {
+  if (history.length < holdout + SEASON) return null;
+  const training = history.slice(0, -holdout);
+  const actuals = history.slice(-holdout).map(p => p.value);
+  const predicted = forecastSeries(training, holdout, method).map(p => p.value);
+
+  const absoluteErrors = actuals.map((actual, i) => Math.abs(actual - predicted[i]));
+  // Days without sales have no percentage error, so MAPE only counts days that sold something
+  const percentageErrors = actuals
+    .map((actual, i) => (actual > 0 ? absoluteErrors[i] / actual : null))
+    .filter((e): e is number => e !== null);
+
+  return {
+    mape: percentageErrors.length > 0 ? mean(percentageErrors) : null,
+    mae: roundValue(mean(absoluteErrors)),
+    days: holdout,
+  };
+};
+
+export interface ProductForecast {
+  product: Product;
+  averageDaily: number; // Units per day over the history
+  forecastTotal: number; // Units expected over the horizon
+  accuracy: ForecastAccuracy | null;
+}
+
+// Daily units sold per product ending on `to`, from a single pass over the invoices. Voided sales are left out.
+export const productSalesHistories = (invoices: Invoice[], to: string, days: number): Map<string, DailyPoint[]> => {
+  const from = addDays(to, -(days - 1));
+  const entries = new Map<string, DailyPoint[]>();
+  getEffectiveInvoices(invoices)
+    .filter(inv => inv.type === 'SALE' && inv.date >= from && inv.date <= to)
+    .forEach(inv => expandKitItems(inv.items).forEach(item => {
+      const list = entries.get(item.productId) || [];
+      list.push({ date: inv.date, value: item.quantity });
+      entries.set(item.productId, list);
+    }));
+
+  const histories = new Map<string, DailyPoint[]>();
+  entries.forEach((list, productId) => histories.set(productId, dailySeries(list, from, to)));
+  return histories;
+};
+
+// Forecast and backtest for every product
+export const forecastProducts = (
+  products: Product[],
+  invoices: Invoice[],
+  to: string,
+  method: ForecastMethod,
+  horizon = 7
+): ProductForecast[] => {
+  const histories = productSalesHistories(invoices, to, FORECAST_HISTORY_DAYS);
+  const noSales = dailySeries([], addDays(to, -(FORECAST_HISTORY_DAYS - 1)), to);
+
+  return products.map(product => {
+    const history = histories.get(product.id) || noSales;
+    const forecast = forecastSeries(history, horizon, method);
+    return {
+      product,
+      averageDaily: roundValue(mean(history.map(p => p.value))),
+      forecastTotal: roundValue(forecast.reduce((sum, p) => sum + p.value, 0)),
+      accuracy: backtestForecast(history, method),
+    };
+  });
+};
@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { Product, Invoice, AiPrediction } from "../types";
+import { getEffectiveInvoices } from "./invoices";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -13,7 +14,7 @@ export const getInventoryPrediction = async (
   ).join('\n');
 
   // Filter last 15 invoices for context
-  const recentActivity = invoices.slice(-15).map(inv => {
+  const recentActivity = getEffectiveInvoices(invoices).slice(-15).map(inv => {
     return `${inv.date}: ${inv.type === 'SALE' ? 'Venta' : 'Compra/Reposición'} - Total: $${inv.totalAmount}. Items: ${inv.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}`;
   }).join('\n');
 
@@ -0,0 +1,49 @@
+import { Invoice, InvoiceType } from '../types';
+
+export const shortId = (id: string) => id.slice(0, 8).toUpperCase();
+
+// Folio shown on printed documents, falling back to the short id for records without one.
+export const formatFolio = (invoice: Invoice) =>
+  invoice.folio ? String(invoice.folio).padStart(6, '0') : shortId(invoice.id);
+
+export const nextFolio = (invoices: Invoice[], type: InvoiceType) =>
+  invoices.filter(inv => inv.type === type).reduce((max, inv) => Math.max(max, inv.folio || 0), 0) + 1;
+
+export const isVoided = (invoice: Invoice) => invoice.status === 'VOIDED';
+
+// Invoices that count towards totals: credit notes and the invoices they void cancel each other out.
+export const isEffectiveInvoice = (invoice: Invoice) => invoice.type !== 'CREDIT_NOTE' && !isVoided(invoice);
+
+export const getEffectiveInvoices = (invoices: Invoice[]) => invoices.filter(isEffectiveInvoice);
+
+export const canVoid = (invoice: Invoice) => invoice.type !== 'CREDIT_NOTE' && !isVoided(invoice);
+
+export interface VoidResult {
+  voided: Invoice;
+  creditNote: Invoice;
+}
+
+// Issues a credit note mirroring the original invoice and marks the original as voided.
+export const voidInvoice = (original: Invoice, reason: string): VoidResult => {
+  const creditNote: Invoice = {
+    id: crypto.randomUUID(),
+    type: 'CREDIT_NOTE',
+    date: new Date().toISOString().split('T')[0],
+    items: original.items.map(item => ({ ...item })),
+    totalAmount: original.totalAmount,
+    notes: reason,
+    status: 'ISSUED',
+    originalInvoiceId: original.id,
+    ...(original.supplierId ? { supplierId: original.supplierId } : {}),
+    ...(original.customerId ? { customerId: original.customerId } : {}),
+    // Refunds go back through the same payment methods
+    ...(original.payments ? { payments: original.payments.map(p => ({ ...p })) } : {}),
+  };
+  const voided: Invoice = {
+    ...original,
+    status: 'VOIDED',
+    creditNoteId: creditNote.id,
+    voidReason: reason,
+  };
+  return { voided, creditNote };
+};
@@ -0,0 +1,103 @@
+import { InvoiceItem, KitComponentLine, Product } from '../types';
+import { roundQuantity } from './units';
+
+export const isKit = (product: Pick<Product, 'components'>) => (product.components || []).length > 0;
+
+// What the components of one kit cost at their current average cost
+export const kitCost = (kit: Product, products: Product[]) =>
+  Math.round((kit.components || []).reduce(
+    (sum, c) => sum + c.quantity * (products.find(p => p.id === c.productId)?.cost || 0), 0));
+
+// Whole kits that can be put together from the components in stock
+export const kitAvailability = (kit: Product, products: Product[]) => {
+  const counts = (kit.components || []).map(c => {
+    const stock = products.find(p => p.id === c.productId)?.currentStock || 0;
+    return Math.floor(Math.max(0, stock) / c.quantity);
+  });
+  return counts.length > 0 ? Math.min(...counts) : 0;
+};
+
+// Composition of a kit for a sale line. Its revenue is split in proportion to what the components
+// would have sold for separately.
+export const kitComponentLines = (kit: Product, products: Product[]): KitComponentLine[] => {
+  const parts = (kit.components || [])
+    .map(c => ({ c, product: products.find(p => p.id === c.productId) }))
+    .filter((part): part is { c: typeof part.c; product: Product } => part.product !== undefined);
+  const listValue = parts.reduce((sum, { c, product }) => sum + c.quantity * product.price, 0);
+  return parts.map(({ c, product }) => ({
+    productId: product.id,
+    productName: product.name,
+    quantity: c.quantity,
+    unitCost: product.cost,
+    revenueShare: listValue > 0 ? (c.quantity * product.price) / listValue : 1 / parts.length,
+  }));
+};
+
+// Units of each stocked product the lines take, with kits broken into their components
+export const componentDemand = (lines: { productId: string; quantity: number }[], products: Product[]): Map<string, number> => {
+  const demand = new Map<string, number>();
+  const add = (productId: string, quantity: number) => demand.set(productId, roundQuantity((demand.get(productId) || 0) + quantity));
+  lines.forEach(line => {
+    const product = products.find(p => p.id === line.productId);
+    if (product && isKit(product)) {
+      product.components!.forEach(c => add(c.productId, line.quantity * c.quantity));
+    } else {
+      add(line.productId, line.quantity);
+    }
+  });
+  return demand;
+};
+
+// Splits `amount` by the shares; the last part absorbs the rounding difference
+const splitAmount = (amount: number, shares: number[]) => {
+  let remaining = amount;
+  return shares.map((share, i) => {
+    const part = i === shares.length - 1 ? remaining : Math.round(amount * share);
+    remaining -= part;
+    return part;
+  });
+};
+
+// Sale lines as they affect each product: a kit line becomes one line per component, carrying its share of
+// the kit's revenue, taxes and discounts. Product-level analytics use this so kit sales count as sales of
+// what was actually taken off the shelf.
+export const expandKitItems = (items: InvoiceItem[]): InvoiceItem[] =>
+  items.flatMap(item => {
+    if (!item.components || item.components.length === 0) return [item];
+    const shares = item.components.map(c => c.revenueShare);
+    const totals = splitAmount(item.total, shares);
+    const nets = item.netAmount !== undefined ? splitAmount(item.netAmount, shares) : undefined;
+    const taxes = item.taxAmount !== undefined ? splitAmount(item.taxAmount, shares) : undefined;
+    const discounts = item.discountAmount ? splitAmount(item.discountAmount, shares) : undefined;
+    return item.components.map((c, i) => {
+      const quantity = roundQuantity(item.quantity * c.quantity);
+      return {
+        productId: c.productId,
+        productName: c.productName,
+        quantity,
+        unitPrice: Math.round((item.quantity * item.unitPrice * c.revenueShare) / quantity),
+        total: totals[i],
+        unitCost: c.unitCost,
+        ...(item.taxRate !== undefined ? { taxRate: item.taxRate } : {}),
+        ...(nets ? { netAmount: nets[i] } : {}),
+        ...(taxes ? { taxAmount: taxes[i] } : {}),
+        ...(discounts ? { discountAmount: discounts[i] } : {}),
+      };
+    });
+  });
+
+// Validation errors for a kit's composition
+export const validateKit = (kit: Partial<Product>, products: Product[]): string[] => {
+  const errors: string[] = [];
+  (kit.components || []).forEach((c, i, all) => {
+    const product = products.find(p => p.id === c.productId);
+    if (!product) {
+      errors.push('Selecciona el producto de cada componente.');
+      return;
+    }
+    if (product.id === kit.id || isKit(product)) errors.push(`${product.name} no puede ser componente de este kit.`);
+    if (!(c.quantity > 0)) errors.push(`La cantidad de ${product.name} en el kit debe ser mayor a cero.`);
+    if (all.findIndex(other => other.productId === c.productId) !== i) errors.push(`${product.name} está repetido en el kit.`);
+  });
+  return errors;
+};
@@ -0,0 +1,109 @@
+import { LocationSettings, Product, StockMovement, StockTransfer } from '../types';
+import { MAIN_LOCATION_ID } from '../constants';
+import { createMovement } from './stockLedger';
+import { formatQuantity, getUnit, roundQuantity } from './units';
+
+export const movementLocation = (movement: Pick<StockMovement, 'locationId'>) => movement.locationId || MAIN_LOCATION_ID;
+
+export const locationName = (settings: LocationSettings, locationId?: string) =>
+  settings.locations.find(l => l.id === (locationId || MAIN_LOCATION_ID))?.name || 'Ubicación eliminada';
+
+// Stock per product and location, from the ledger
+export type LocationBalances = Map<string, Map<string, number>>;
+
+export const getLocationBalances = (movements: StockMovement[]): LocationBalances => {
+  const balances: LocationBalances = new Map();
+  movements.forEach(m => {
+    const byLocation = balances.get(m.productId) || new Map<string, number>();
+    const locationId = movementLocation(m);
+    byLocation.set(locationId, roundQuantity((byLocation.get(locationId) || 0) + m.quantity));
+    balances.set(m.productId, byLocation);
+  });
+  return balances;
+};
+
+export const stockAt = (balances: LocationBalances, productId: string, locationId: string) =>
+  balances.get(productId)?.get(locationId) || 0;
+
+// The catalogue as seen from one location: currentStock is what that location holds
+export const productsAtLocation = (products: Product[], balances: LocationBalances, locationId: string): Product[] =>
+  products.map(p => ({ ...p, currentStock: stockAt(balances, p.id, locationId) }));
+
+// Locations that posting `movements` would leave below zero, e.g. voiding a purchase whose units were already sold
+export const findNegativeBalances = (
+  movements: StockMovement[],
+  ledger: StockMovement[],
+  products: Product[],
+  settings: LocationSettings
+): string[] => {
+  const balances = getLocationBalances([...ledger, ...movements]);
+  const seen = new Set<string>();
+  return movements
+    .filter(m => m.quantity < 0)
+    .flatMap(m => {
+      const locationId = movementLocation(m);
+      const key = `${m.productId}:${locationId}`;
+      const balance = stockAt(balances, m.productId, locationId);
+      if (seen.has(key) || balance >= 0) return [];
+      seen.add(key);
+      const product = products.find(p => p.id === m.productId);
+      const unit = product ? getUnit(product) : 'UNIT';
+      return [`${product?.name || 'Producto eliminado'}: ${locationName(settings, locationId)} quedaría con ${formatQuantity(balance, unit)}.`];
+    });
+};
+
+export const nextTransferFolio = (transfers: StockTransfer[]) =>
+  transfers.reduce((max, t) => Math.max(max, t.folio), 0) + 1;
+
+export const formatTransferFolio = (transfer: StockTransfer) => `TR-${String(transfer.folio).padStart(6, '0')}`;
+
+export interface TransferInput {
+  fromLocationId: string;
+  toLocationId: string;
+  lines: { productId: string; quantity: number }[];
+  notes?: string;
+}
+
+export interface TransferResult {
+  transfer?: StockTransfer;
+  movements?: StockMovement[];
+  error?: string;
+}
+
+// A transfer can only move what the origin holds
+export const createTransfer = (
+  input: TransferInput,
+  context: { products: Product[]; movements: StockMovement[]; transfers: StockTransfer[]; user: string }
+): TransferResult => {
+  if (input.fromLocationId === input.toLocationId) return { error: 'El origen y el destino deben ser distintos.' };
+  const lines = input.lines.filter(l => l.productId);
+  if (lines.length === 0) return { error: 'Agrega al menos un producto.' };
+  if (lines.some(l => !(l.quantity > 0))) return { error: 'Las cantidades deben ser mayores a cero.' };
+  if (new Set(lines.map(l => l.productId)).size !== lines.length) return { error: 'Hay productos repetidos en el traslado.' };
+
+  const balances = getLocationBalances(context.movements);
+  for (const line of lines) {
+    const product = context.products.find(p => p.id === line.productId);
+    if (!product) return { error: 'Hay productos que ya no existen en el catálogo.' };
+    const available = stockAt(balances, product.id, input.fromLocationId);
+    if (line.quantity > available) return { error: `${product.name}: solo hay ${available} en el origen.` };
+  }
+
+  const date = new Date().toISOString();
+  const transfer: StockTransfer = {
+    id: crypto.randomUUID(),
+    folio: nextTransferFolio(context.transfers),
+    date,
+    fromLocationId: input.fromLocationId,
+    toLocationId: input.toLocationId,
+    lines: lines.map(l => ({ productId: l.productId, productName: context.products.find(p => p.id === l.productId)!.name, quantity: l.quantity })),
+    user: context.user,
+    ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+  };
+  const reason = `Traslado ${formatTransferFolio(transfer)}`;
+  const movements = transfer.lines.flatMap(line => [
+    createMovement({ productId: line.productId, type: 'TRANSFER', quantity: -line.quantity, user: context.user, reason, date, locationId: transfer.fromLocationId, transferId: transfer.id }),
+    createMovement({ productId: line.productId, type: 'TRANSFER', quantity: line.quantity, user: context.user, reason, date, locationId: transfer.toLocationId, transferId: transfer.id }),
+  ]);
+  return { transfer, movements };
+};
@@ -0,0 +1,167 @@
+import { Product, StockMovement } from '../types';
+import { MAIN_LOCATION_ID } from '../constants';
+import { createMovement } from './stockLedger';
+import { movementLocation } from './locations';
+import { roundQuantity } from './units';
+
+// Lots expiring within this many days are flagged
+export const NEAR_EXPIRY_DAYS = 7;
+
+const DAY_MS = 86400000;
+
+export interface LotBalance {
+  productId: string;
+  lot: string;
+  locationId: string; // Where the units are; a lot split by a transfer has a balance per location
+  expiryDate?: string;
+  quantity: number;
+  receivedAt: string; // ISO timestamp of the lot's first entry
+}
+
+export type ExpiryStatus = 'EXPIRED' | 'NEAR' | 'OK' | 'NONE';
+
+export const EXPIRY_STATUS_LABELS: Record<ExpiryStatus, string> = {
+  EXPIRED: 'Vencido',
+  NEAR: 'Por vencer',
+  OK: 'Vigente',
+  NONE: 'Sin vencimiento',
+};
+
+export const daysUntilExpiry = (expiryDate: string, today: string) =>
+  Math.round((Date.parse(expiryDate) - Date.parse(today)) / DAY_MS);
+
+export const getExpiryStatus = (lot: Pick<LotBalance, 'expiryDate'>, today: string): ExpiryStatus => {
+  if (!lot.expiryDate) return 'NONE';
+  const days = daysUntilExpiry(lot.expiryDate, today);
+  if (days < 0) return 'EXPIRED';
+  return days <= NEAR_EXPIRY_DAYS ? 'NEAR' : 'OK';
+};
+
+// First expired, first out: earliest expiry first, lots without expiry last, then oldest received
+const byFefo = (a: LotBalance, b: LotBalance) =>
+  (a.expiryDate || '9999-12-31').localeCompare(b.expiryDate || '9999-12-31') || a.receivedAt.localeCompare(b.receivedAt);
+
+const lotKey = (productId: string, lot: string, locationId: string) => `${productId}\u0000${lot}\u0000${locationId}`;
+
+// Adds a movement that carries a lot to the balance of that lot at the movement's location
+const addToLot = (lots: Map<string, LotBalance>, m: StockMovement) => {
+  const locationId = movementLocation(m);
+  const key = lotKey(m.productId, m.lot!, locationId);
+  const current = lots.get(key);
+  if (current) current.quantity = roundQuantity(current.quantity + m.quantity);
+  else lots.set(key, { productId: m.productId, lot: m.lot!, locationId, expiryDate: m.expiryDate, quantity: m.quantity, receivedAt: m.date });
+};
+
+const sumLots = (movements: StockMovement[]): Map<string, LotBalance> => {
+  const lots = new Map<string, LotBalance>();
+  [...movements]
+    .filter(m => m.lot)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(m => addToLot(lots, m));
+  return lots;
+};
+
+// Lots with stock left, in FEFO order. A product's stock beyond its lots is unassigned (opening stock,
+// purchases recorded without a lot, manual adjustments).
+export const getLotBalances = (movements: StockMovement[], productId?: string): LotBalance[] =>
+  Array.from(sumLots(productId ? movements.filter(m => m.productId === productId) : movements).values())
+    .filter(lot => lot.quantity > 0)
+    .sort(byFefo);
+
+export const unassignedStock = (product: Product, lots: LotBalance[]) =>
+  roundQuantity(product.currentStock - lots.filter(l => l.productId === product.id).reduce((sum, l) => sum + l.quantity, 0));
+
+// Takes a movement's units from the product's lots at its location, oldest expiry first
+const takeFromLots = (m: StockMovement, lots: Map<string, LotBalance>): StockMovement[] => {
+  const locationId = movementLocation(m);
+  const available = Array.from(lots.values())
+    .filter(l => l.productId === m.productId && l.locationId === locationId && l.quantity > 0)
+    .sort(byFefo);
+  if (available.length === 0) return [m];
+
+  let remaining = -m.quantity;
+  const parts: StockMovement[] = [];
+  available.forEach(lot => {
+    if (remaining === 0) return;
+    const taken = Math.min(lot.quantity, remaining);
+    lot.quantity = roundQuantity(lot.quantity - taken);
+    remaining = roundQuantity(remaining - taken);
+    parts.push({
+      ...m,
+      id: parts.length === 0 ? m.id : crypto.randomUUID(),
+      quantity: -taken,
+      lot: lot.lot,
+      ...(lot.expiryDate ? { expiryDate: lot.expiryDate } : {}),
+    });
+  });
+  if (remaining > 0) parts.push({ ...m, id: crypto.randomUUID(), quantity: -remaining });
+  return parts;
+};
+
+// Splits units leaving stock without a lot (sales, shrinkage, adjustments, transfers out) across the lots the
+// product has at that location in FEFO order, so lot balances follow what was physically taken. Whatever the
+// lots can't cover stays unassigned. The receiving leg of a transfer takes the same lots as the leg that left.
+export const allocateFefo = (movements: StockMovement[], ledger: StockMovement[]): StockMovement[] => {
+  const lots = sumLots(ledger);
+  const transferred = new Map<string, StockMovement[]>();
+  const transferKey = (m: StockMovement) => `${m.transferId}\u0000${m.productId}`;
+
+  return movements.flatMap(m => {
+    if (m.lot) {
+      addToLot(lots, m);
+      return [m];
+    }
+    if (m.type === 'TRANSFER' && m.quantity > 0 && transferred.has(transferKey(m))) {
+      const parts = transferred.get(transferKey(m))!.map((out, i): StockMovement => ({
+        ...m,
+        id: i === 0 ? m.id : crypto.randomUUID(),
+        quantity: -out.quantity,
+        ...(out.lot ? { lot: out.lot } : {}),
+        ...(out.expiryDate ? { expiryDate: out.expiryDate } : {}),
+      }));
+      parts.filter(part => part.lot).forEach(part => addToLot(lots, part));
+      return parts;
+    }
+    if (m.quantity >= 0) return [m];
+
+    const split = takeFromLots(m, lots);
+    if (m.type === 'TRANSFER') transferred.set(transferKey(m), split);
+    return split;
+  });
+};
+
+// Takes what is left of a lot out of stock. The units are valued at the current average cost so the loss
+// can be reported; that value leaves the average unchanged.
+export const writeOffLot = (lot: LotBalance, product: Product, user: string, reason: string): StockMovement =>
+  createMovement({
+    productId: lot.productId,
+    type: 'EXPIRY',
+    quantity: -lot.quantity,
+    user,
+    reason,
+    unitCost: product.cost,
+    lot: lot.lot,
+    ...(lot.expiryDate ? { expiryDate: lot.expiryDate } : {}),
+    ...(lot.locationId !== MAIN_LOCATION_ID ? { locationId: lot.locationId } : {}),
+  });
+
+// Cost of the stock written off as expired since `from` (inclusive, YYYY-MM-DD)
+export const expiryLosses = (movements: StockMovement[], from = '') =>
+  Math.round(movements
+    .filter(m => m.type === 'EXPIRY' && m.date >= from)
+    .reduce((sum, m) => sum - m.quantity * (m.unitCost || 0), 0));
+
+export interface ExpiryAlert {
+  product: Product;
+  lot: LotBalance;
+  status: ExpiryStatus;
+  days: number;
+}
+
+// Lots with stock that are expired or about to, soonest first
+export const getExpiryAlerts = (products: Product[], movements: StockMovement[], today: string): ExpiryAlert[] =>
+  getLotBalances(movements)
+    .map(lot => ({ lot, status: getExpiryStatus(lot, today), product: products.find(p => p.id === lot.productId) }))
+    .filter((a): a is { lot: LotBalance; status: ExpiryStatus; product: Product } =>
+      !!a.product && (a.status === 'EXPIRED' || a.status === 'NEAR'))
+    .map(a => ({ ...a, days: daysUntilExpiry(a.lot.expiryDate!, today) }));
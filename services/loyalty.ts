@@ -0,0 +1,181 @@
+import { Invoice, LoyaltyEntry, LoyaltyEntryType, LoyaltySettings, Product } from '../types';
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyEntryType, string> = {
+  EARN: 'Acumulación',
+  REDEEM: 'Canje',
+  EXPIRE: 'Vencimiento',
+  REVERSAL: 'Reversa por anulación',
+};
+
+// Points needed to pay an amount; a fraction of a point rounds up
+export const pointsForAmount = (amount: number, settings: LoyaltySettings) =>
+  Math.ceil(amount / settings.pointValue);
+
+export const pointsValue = (points: number, settings: LoyaltySettings) => points * settings.pointValue;
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result.toISOString();
+};
+
+const expiryFrom = (date: Date, settings: LoyaltySettings) =>
+  settings.expiryMonths > 0 ? { expiresAt: addMonths(date, settings.expiryMonths) } : {};
+
+const paidWithPoints = (invoice: Invoice) =>
+  (invoice.payments || []).filter(p => p.method === 'POINTS').reduce((sum, p) => sum + p.amount, 0);
+
+// Points a sale earns: spending outside the excluded categories, less the part paid with points
+export const pointsEarned = (
+  items: Invoice['items'],
+  totalAmount: number,
+  pointsPaid: number,
+  products: Product[],
+  settings: LoyaltySettings
+): number => {
+  if (!settings.enabled || settings.amountPerPoint <= 0 || totalAmount <= 0) return 0;
+  const excluded = new Set(settings.excludedCategories);
+  const eligible = items
+    .filter(item => !excluded.has(products.find(p => p.id === item.productId)?.category || ''))
+    .reduce((sum, item) => sum + item.total, 0);
+  const paidShare = Math.min(1, pointsPaid / totalAmount);
+  return Math.floor(eligible * (1 - paidShare) / settings.amountPerPoint);
+};
+
+// Ledger entries of a sale to a known customer: points spent on it and points it earned
+export const loyaltyEntriesForSale = (
+  invoice: Invoice,
+  products: Product[],
+  settings: LoyaltySettings,
+  user: string
+): LoyaltyEntry[] => {
+  if (invoice.type !== 'SALE' || !invoice.customerId) return [];
+  const now = new Date();
+  const base = { customerId: invoice.customerId, date: now.toISOString(), invoiceId: invoice.id, user };
+  const entries: LoyaltyEntry[] = [];
+
+  const redeemed = paidWithPoints(invoice);
+  if (redeemed > 0) {
+    entries.push({ ...base, id: crypto.randomUUID(), type: 'REDEEM', points: -pointsForAmount(redeemed, settings) });
+  }
+  const earned = pointsEarned(invoice.items, invoice.totalAmount, redeemed, products, settings);
+  if (earned > 0) {
+    entries.push({ ...base, id: crypto.randomUUID(), type: 'EARN', points: earned, ...expiryFrom(now, settings) });
+  }
+  return entries;
+};
+
+// Undoes what a voided sale earned and gives back what it spent. Returned points start a new expiry period.
+export const reverseLoyalty = (
+  entries: LoyaltyEntry[],
+  invoiceId: string,
+  creditNoteId: string,
+  settings: LoyaltySettings,
+  user: string
+): LoyaltyEntry[] => {
+  const now = new Date();
+  return entries
+    .filter(e => e.invoiceId === invoiceId && (e.type === 'EARN' || e.type === 'REDEEM'))
+    .map(e => ({
+      id: crypto.randomUUID(),
+      customerId: e.customerId,
+      type: 'REVERSAL' as const,
+      points: -e.points,
+      date: now.toISOString(),
+      invoiceId: creditNoteId,
+      ...(e.points < 0 ? expiryFrom(now, settings) : {}),
+      user,
+    }));
+};
+
+interface PointLot {
+  entry: LoyaltyEntry;
+  remaining: number;
+}
+
+const byDate = (a: LoyaltyEntry, b: LoyaltyEntry) => a.date.localeCompare(b.date);
+
+const isExpired = (lot: PointLot, asOf: string) => !!lot.entry.expiresAt && lot.entry.expiresAt <= asOf;
+
+// Replays a customer's ledger: points are spent oldest first, skipping those already expired when spent.
+// Spending beyond the balance (a reversed sale whose points were used) is a deficit paid by later points.
+const replayLots = (entries: LoyaltyEntry[], customerId: string) => {
+  const lots: PointLot[] = [];
+  let deficit = 0;
+  entries
+    .filter(e => e.customerId === customerId)
+    .sort(byDate)
+    .forEach(entry => {
+      if (entry.points > 0) {
+        const covered = Math.min(deficit, entry.points);
+        deficit -= covered;
+        lots.push({ entry, remaining: entry.points - covered });
+        return;
+      }
+      if (entry.type === 'EXPIRE') {
+        const lot = lots.find(l => l.entry.id === entry.lotId);
+        if (lot) lot.remaining = Math.max(0, lot.remaining + entry.points);
+        return;
+      }
+      let pending = -entry.points;
+      lots.filter(lot => lot.remaining > 0 && !isExpired(lot, entry.date)).forEach(lot => {
+        const taken = Math.min(pending, lot.remaining);
+        lot.remaining -= taken;
+        pending -= taken;
+      });
+      deficit += pending;
+    });
+  return { lots, deficit };
+};
+
+// Points a customer can spend right now
+export const getPointsBalance = (entries: LoyaltyEntry[], customerId: string, now = new Date()): number => {
+  const { lots, deficit } = replayLots(entries, customerId);
+  const asOf = now.toISOString();
+  return lots.filter(lot => !isExpired(lot, asOf)).reduce((sum, lot) => sum + lot.remaining, 0) - deficit;
+};
+
+// Points expiring within the next `days`, so the cashier can suggest using them
+export const getPointsExpiringSoon = (entries: LoyaltyEntry[], customerId: string, days = 30, now = new Date()): number => {
+  const asOf = now.toISOString();
+  const limit = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  return replayLots(entries, customerId).lots
+    .filter(lot => lot.remaining > 0 && !isExpired(lot, asOf) && isExpired(lot, limit))
+    .reduce((sum, lot) => sum + lot.remaining, 0);
+};
+
+// EXPIRE entries for every lot that lapsed with points left, dated when it lapsed. Recorded on startup
+// so statements show the expiry; balances already leave expired points out.
+export const expirePoints = (entries: LoyaltyEntry[], user: string, now = new Date()): LoyaltyEntry[] => {
+  const asOf = now.toISOString();
+  const customerIds = Array.from(new Set(entries.map(e => e.customerId)));
+  return customerIds.flatMap(customerId =>
+    replayLots(entries, customerId).lots
+      .filter(lot => lot.remaining > 0 && isExpired(lot, asOf))
+      .map(lot => ({
+        id: crypto.randomUUID(),
+        customerId,
+        type: 'EXPIRE' as const,
+        points: -lot.remaining,
+        date: lot.entry.expiresAt!,
+        lotId: lot.entry.id,
+        user,
+      }))
+  );
+};
+
+export interface PointsStatementEntry extends LoyaltyEntry {
+  balance: number; // Running, after this entry
+}
+
+// Chronological points ledger of one customer with the running balance
+export const getPointsStatement = (entries: LoyaltyEntry[], customerId: string): PointsStatementEntry[] => {
+  let balance = 0;
+  return entries
+    .filter(e => e.customerId === customerId)
+    .sort(byDate)
+    .map(entry => {
+      balance += entry.points;
+      return { ...entry, balance };
+    });
+};
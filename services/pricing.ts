@@ -0,0 +1,81 @@
+import { Product, Promotion, InvoiceItem, Discount, TaxSettings } from '../types';
+import { buildInvoiceItem } from './tax';
+import { findBestPromotion } from './promotions';
+import { isKit, kitComponentLines, kitCost } from './kits';
+
+// A cart line as entered at the counter, before promotions, discounts and taxes.
+export interface CartLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: Discount;
+  packName?: string; // Entered in packs; quantity and unitPrice are still per base unit
+  packFactor?: number;
+}
+
+export interface PricingContext {
+  type: 'SALE' | 'PURCHASE';
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+  invoiceDiscount?: Discount;
+  now: Date;
+}
+
+// Pesos taken off `base` by a percentage or fixed-amount discount, never more than `base`.
+export const discountValue = (discount: Discount | undefined, base: number): number => {
+  if (!discount || !(discount.value > 0) || base <= 0) return 0;
+  const value = discount.type === 'PERCENT'
+    ? Math.round(base * Math.min(100, discount.value) / 100)
+    : Math.round(discount.value);
+  return Math.min(base, value);
+};
+
+export const describeDiscount = (discount: Discount) =>
+  discount.type === 'PERCENT' ? `${discount.value}%` : `$${discount.value.toLocaleString()}`;
+
+// Applies, in order: the best promotion (sales only), the line discount, and the invoice
+// discount prorated over the lines; taxes are then calculated on what remains.
+export const priceCart = (lines: CartLine[], products: Product[], context: PricingContext): InvoiceItem[] => {
+  const stages = lines
+    .map(line => ({ line, product: products.find(p => p.id === line.productId) }))
+    .filter((stage): stage is { line: CartLine; product: Product } => stage.product !== undefined)
+    .map(({ line, product }) => {
+      const gross = Math.round(line.quantity * line.unitPrice);
+      const promotion = context.type === 'SALE'
+        ? findBestPromotion(context.promotions, product, line.quantity, line.unitPrice, context.now)
+        : null;
+      const afterPromotion = gross - (promotion?.discount || 0);
+      const lineDiscount = discountValue(line.discount, afterPromotion);
+      return { line, product, promotion, lineDiscount, amount: afterPromotion - lineDiscount };
+    });
+
+  const base = stages.reduce((sum, s) => sum + s.amount, 0);
+  const invoiceDiscount = discountValue(context.invoiceDiscount, base);
+  let remaining = invoiceDiscount;
+
+  return stages.map((stage, i) => {
+    // The last line absorbs the rounding difference; a cart that nets to zero has nothing to prorate
+    const share = base <= 0 || invoiceDiscount === 0
+      ? 0
+      : i === stages.length - 1
+        ? Math.min(remaining, stage.amount)
+        : Math.min(remaining, stage.amount, Math.round(invoiceDiscount * stage.amount / base));
+    remaining -= share;
+
+    const { line, product, promotion } = stage;
+    const totalDiscount = (promotion?.discount || 0) + stage.lineDiscount + share;
+    // A kit costs what its components cost now
+    const kit = isKit(product) ? { ...product, cost: kitCost(product, products) } : null;
+    return {
+      ...buildInvoiceItem(kit || product, line.quantity, line.unitPrice, context.type, context.taxSettings, totalDiscount),
+      ...(kit ? { components: kitComponentLines(kit, products) } : {}),
+      ...(line.discount ? { manualDiscount: line.discount } : {}),
+      ...(line.packName && line.packFactor ? { packName: line.packName, packFactor: line.packFactor } : {}),
+      ...(promotion ? {
+        promotionId: promotion.promotion.id,
+        promotionName: promotion.promotion.name,
+        promotionDiscount: promotion.discount,
+      } : {}),
+    };
+  });
+};
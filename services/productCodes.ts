@@ -0,0 +1,93 @@
+import { Product, ProductPack } from '../types';
+
+export const normalizeSku = (sku: string) => sku.trim().toUpperCase();
+
+export const normalizeBarcode = (code: string) => code.replace(/\s+/g, '');
+
+// EAN-8, UPC-A, EAN-13 and GTIN-14 share the same mod-10 check digit.
+export const isValidBarcode = (code: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+// Validation errors for a product's SKU and barcodes against the rest of the catalogue.
+export const validateProductCodes = (product: Partial<Product>, products: Product[]): string[] => {
+  const errors: string[] = [];
+  const others = products.filter(p => p.id !== product.id);
+  const sku = product.sku ? normalizeSku(product.sku) : '';
+  const barcodes = product.barcodes || [];
+  const packBarcodes = (product.packs || []).map(p => p.barcode).filter((code): code is string => !!code);
+  const allCodes = (p: Partial<Product>) => [...(p.barcodes || []), ...(p.packs || []).map(pack => pack.barcode || '')];
+
+  if (sku) {
+    const owner = others.find(p => p.sku && normalizeSku(p.sku) === sku);
+    if (owner) errors.push(`El SKU ${sku} ya está asignado a ${owner.name}.`);
+  }
+
+  barcodes.forEach((code, i) => {
+    if (!isValidBarcode(code)) {
+      errors.push(`El código ${code} no es un EAN/UPC válido (revisa el dígito verificador).`);
+    }
+    if (barcodes.indexOf(code) !== i) {
+      errors.push(`El código ${code} está repetido.`);
+    }
+    const owner = others.find(p => allCodes(p).includes(code));
+    if (owner) errors.push(`El código ${code} ya está asignado a ${owner.name}.`);
+  });
+
+  // A pack has its own code, different from the unit's
+  packBarcodes.forEach((code, i) => {
+    if (!isValidBarcode(code)) {
+      errors.push(`El código ${code} del empaque no es un EAN/UPC válido.`);
+    }
+    if (barcodes.includes(code) || packBarcodes.indexOf(code) !== i) {
+      errors.push(`El código ${code} está repetido.`);
+    }
+    const owner = others.find(p => allCodes(p).includes(code));
+    if (owner) errors.push(`El código ${code} ya está asignado a ${owner.name}.`);
+  });
+
+  return errors;
+};
+
+// Looks a scanned or typed code up by barcode first, then by SKU.
+export const findProductByCode = (products: Product[], code: string): Product | undefined => {
+  const barcode = normalizeBarcode(code);
+  const sku = normalizeSku(code);
+  return products.find(p => p.barcodes?.includes(barcode))
+    || products.find(p => p.sku && normalizeSku(p.sku) === sku);
+};
+
+export interface CodeMatch {
+  product: Product;
+  pack?: ProductPack; // When the code is printed on a pack rather than the unit
+}
+
+// Like findProductByCode, but also recognises the barcodes of packs
+export const findByCode = (products: Product[], code: string): CodeMatch | undefined => {
+  const product = findProductByCode(products, code);
+  if (product) return { product };
+  const barcode = normalizeBarcode(code);
+  for (const p of products) {
+    const pack = p.packs?.find(pack => pack.barcode === barcode);
+    if (pack) return { product: p, pack };
+  }
+  return undefined;
+};
+
+export interface ScanInput {
+  code: string;
+  quantity: number;
+}
+
+// Supports the usual POS "quantity*code" prefix, e.g. "3*7801000000075" or "0,5*7801000000075" for weighed products.
+export const parseScanInput = (input: string): ScanInput => {
+  const match = input.trim().match(/^(\d+(?:[.,]\d+)?)\s*\*\s*(.+)$/);
+  if (match) return { quantity: Number(match[1].replace(',', '.')), code: match[2].trim() };
+  return { quantity: 1, code: input.trim() };
+};
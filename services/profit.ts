@@ -0,0 +1,108 @@
+import { Invoice, InvoiceItem, Product, TaxSettings } from '../types';
+import { getEffectiveInvoices } from './invoices';
+import { getLineTaxes } from './tax';
+import { expandKitItems } from './kits';
+
+export interface LineCost {
+  cost: number; // Net of tax, like the revenue it is compared with
+  estimated: boolean; // The line predates cost snapshots and uses the product's current cost
+}
+
+// Cost of the goods sold on a sale line, from the cost snapshot taken when it was sold.
+export const lineCostOfSales = (item: InvoiceItem, products: Product[], settings: TaxSettings): LineCost => {
+  const snapshot = item.unitCost ?? products.find(p => p.id === item.productId)?.cost ?? 0;
+  const rate = getLineTaxes(item, products, settings).rate;
+  const unitCost = settings.costsIncludeTax ? snapshot / (1 + rate) : snapshot;
+  return { cost: Math.round(item.quantity * unitCost), estimated: item.unitCost === undefined };
+};
+
+export interface ProfitLine {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number; // Net sales, tax excluded
+  cogs: number;
+  grossProfit: number;
+  margin: number; // Gross profit over revenue, 0..1
+}
+
+export type ProfitPeriod = 'DAY' | 'MONTH';
+
+export interface ProfitReport extends Omit<ProfitLine, 'key' | 'label' | 'quantity'> {
+  period: ProfitPeriod;
+  byPeriod: ProfitLine[];
+  byCategory: ProfitLine[];
+  byProduct: ProfitLine[];
+  estimatedLines: number;
+}
+
+type Totals = Pick<ProfitLine, 'quantity' | 'revenue' | 'cogs'>;
+
+const toLine = (key: string, label: string, totals: Totals): ProfitLine => {
+  const grossProfit = totals.revenue - totals.cogs;
+  return { key, label, ...totals, grossProfit, margin: totals.revenue > 0 ? grossProfit / totals.revenue : 0 };
+};
+
+const addTo = (groups: Map<string, Totals>, key: string, values: Totals) => {
+  const current = groups.get(key) || { quantity: 0, revenue: 0, cogs: 0 };
+  groups.set(key, {
+    quantity: current.quantity + values.quantity,
+    revenue: current.revenue + values.revenue,
+    cogs: current.cogs + values.cogs,
+  });
+};
+
+const byProfit = (a: ProfitLine, b: ProfitLine) => b.grossProfit - a.grossProfit;
+
+// Gross margin of the sales dated between `from` and `to` (inclusive, YYYY-MM-DD). Voided sales are left out.
+// Ranges up to two months are broken down by day, longer ones by month.
+export const buildProfitReport = (
+  invoices: Invoice[],
+  from: string,
+  to: string,
+  products: Product[],
+  settings: TaxSettings
+): ProfitReport => {
+  const days = (new Date(to).getTime() - new Date(from).getTime()) / 86400000;
+  const period: ProfitPeriod = days <= 62 ? 'DAY' : 'MONTH';
+  const periods = new Map<string, Totals>();
+  const categories = new Map<string, Totals>();
+  const productTotals = new Map<string, Totals>();
+  const productNames = new Map<string, string>();
+  let estimatedLines = 0;
+
+  getEffectiveInvoices(invoices)
+    .filter(inv => inv.type === 'SALE' && inv.date >= from && inv.date <= to)
+    .forEach(inv => {
+      expandKitItems(inv.items).forEach(item => {
+        const { cost, estimated } = lineCostOfSales(item, products, settings);
+        if (estimated) estimatedLines++;
+        const values = { quantity: item.quantity, revenue: getLineTaxes(item, products, settings).netAmount, cogs: cost };
+        const product = products.find(p => p.id === item.productId);
+        addTo(periods, period === 'DAY' ? inv.date : inv.date.slice(0, 7), values);
+        addTo(categories, product?.category || 'Sin categoría', values);
+        addTo(productTotals, item.productId, values);
+        productNames.set(item.productId, product?.name || item.productName);
+      });
+    });
+
+  const totals = Array.from(periods.values()).reduce(
+    (sum, t) => ({ quantity: sum.quantity + t.quantity, revenue: sum.revenue + t.revenue, cogs: sum.cogs + t.cogs }),
+    { quantity: 0, revenue: 0, cogs: 0 }
+  );
+  const total = toLine('total', 'Total', totals);
+
+  return {
+    revenue: total.revenue,
+    cogs: total.cogs,
+    grossProfit: total.grossProfit,
+    margin: total.margin,
+    period,
+    byPeriod: Array.from(periods.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([periodKey, t]) => toLine(periodKey, periodKey, t)),
+    byCategory: Array.from(categories.entries()).map(([category, t]) => toLine(category, category, t)).sort(byProfit),
+    byProduct: Array.from(productTotals.entries()).map(([id, t]) => toLine(id, productNames.get(id)!, t)).sort(byProfit),
+    estimatedLines,
+  };
+};
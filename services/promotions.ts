@@ -0,0 +1,118 @@
+import { Product, Promotion, Invoice } from '../types';
+import { isEffectiveInvoice } from './invoices';
+
+export const DAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+const toTime = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Whether the promotion's validity dates, weekdays and daily time window include `now`.
+export const isPromotionActive = (promotion: Promotion, now: Date): boolean => {
+  if (!promotion.active) return false;
+  const today = toLocalDate(now);
+  if (promotion.startDate && today < promotion.startDate) return false;
+  if (promotion.endDate && today > promotion.endDate) return false;
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(now.getDay())) return false;
+  if (promotion.startTime || promotion.endTime) {
+    const time = toTime(now);
+    if (promotion.startTime && time < promotion.startTime) return false;
+    if (promotion.endTime && time >= promotion.endTime) return false;
+  }
+  return true;
+};
+
+export const appliesToProduct = (promotion: Promotion, product: Product): boolean => {
+  if (promotion.productIds.length === 0 && promotion.categories.length === 0) return true;
+  return promotion.productIds.includes(product.id) || promotion.categories.includes(product.category);
+};
+
+// Discount the promotion gives on a cart line, in the same basis as the unit price.
+export const promotionDiscount = (promotion: Promotion, quantity: number, unitPrice: number): number => {
+  if (promotion.type === 'BUY_X_PAY_Y') {
+    const buy = promotion.buyQuantity || 0;
+    const pay = promotion.payQuantity || 0;
+    if (buy <= 0 || pay < 0 || pay >= buy) return 0;
+    const freeUnits = Math.floor(quantity / buy) * (buy - pay);
+    return freeUnits * unitPrice;
+  }
+  return Math.round(quantity * unitPrice * Math.min(100, Math.max(0, promotion.percent || 0)) / 100);
+};
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discount: number;
+}
+
+// Promotions don't stack: each line gets the single one that saves the customer the most.
+export const findBestPromotion = (
+  promotions: Promotion[],
+  product: Product,
+  quantity: number,
+  unitPrice: number,
+  now: Date
+): AppliedPromotion | null => {
+  let best: AppliedPromotion | null = null;
+  promotions
+    .filter(p => isPromotionActive(p, now) && appliesToProduct(p, product))
+    .forEach(promotion => {
+      const discount = promotionDiscount(promotion, quantity, unitPrice);
+      if (discount > 0 && (!best || discount > best.discount)) best = { promotion, discount };
+    });
+  return best;
+};
+
+export const describePromotion = (promotion: Promotion): string => {
+  const rule = promotion.type === 'BUY_X_PAY_Y'
+    ? `Lleva ${promotion.buyQuantity} paga ${promotion.payQuantity}`
+    : `${promotion.percent}% dcto.`;
+  const schedule = [
+    promotion.daysOfWeek && promotion.daysOfWeek.length > 0 ? promotion.daysOfWeek.map(d => DAY_LABELS[d]).join(', ') : '',
+    promotion.startTime || promotion.endTime ? `${promotion.startTime || '00:00'}-${promotion.endTime || '24:00'}` : '',
+  ].filter(Boolean).join(' ');
+  return schedule ? `${rule} · ${schedule}` : rule;
+};
+
+export interface PromotionPerformance {
+  promotionId: string;
+  promotionName: string;
+  invoices: number;
+  units: number;
+  revenue: number; // What was charged on the promoted lines
+  discount: number; // What the promotion gave away
+}
+
+// Usage of each promotion on sales since `from` (YYYY-MM-DD), ignoring voided sales.
+export const summarizePromotionPerformance = (invoices: Invoice[], from?: string): PromotionPerformance[] => {
+  const byPromotion = new Map<string, PromotionPerformance & { invoiceIds: Set<string> }>();
+
+  invoices
+    .filter(inv => inv.type === 'SALE' && isEffectiveInvoice(inv) && (!from || inv.date >= from))
+    .forEach(inv => {
+      inv.items
+        .filter(item => item.promotionId)
+        .forEach(item => {
+          const entry = byPromotion.get(item.promotionId!) || {
+            promotionId: item.promotionId!,
+            promotionName: item.promotionName || 'Promoción',
+            invoices: 0,
+            units: 0,
+            revenue: 0,
+            discount: 0,
+            invoiceIds: new Set<string>(),
+          };
+          entry.invoiceIds.add(inv.id);
+          entry.invoices = entry.invoiceIds.size;
+          entry.units += item.quantity;
+          entry.revenue += item.total;
+          entry.discount += item.promotionDiscount || 0;
+          byPromotion.set(item.promotionId!, entry);
+        });
+    });
+
+  return Array.from(byPromotion.values())
+    .map(({ invoiceIds, ...performance }) => performance)
+    .sort((a, b) => b.revenue - a.revenue);
+};
@@ -0,0 +1,183 @@
+import { Invoice, Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, PurchaseReceiptLine, TaxSettings } from '../types';
+import { nextFolio } from './invoices';
+import { priceCart } from './pricing';
+import { summarizeItems } from './tax';
+import { isValidQuantity } from './units';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Borrador',
+  SENT: 'Enviada',
+  PARTIAL: 'Recibida parcial',
+  RECEIVED: 'Recibida',
+  CANCELLED: 'Cancelada',
+};
+
+export const nextOrderFolio = (orders: PurchaseOrder[]) =>
+  orders.reduce((max, order) => Math.max(max, order.folio), 0) + 1;
+
+export const formatOrderFolio = (order: PurchaseOrder) => `OC-${String(order.folio).padStart(6, '0')}`;
+
+export const orderTotal = (order: PurchaseOrder) =>
+  order.lines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0);
+
+export const pendingQuantity = (line: PurchaseOrderLine) => Math.max(0, line.quantityOrdered - line.quantityReceived);
+
+export const canEditOrder = (order: PurchaseOrder) => order.status === 'DRAFT';
+export const canSendOrder = (order: PurchaseOrder) => order.status === 'DRAFT' && order.lines.length > 0;
+export const canReceiveOrder = (order: PurchaseOrder) => order.status === 'SENT' || order.status === 'PARTIAL';
+export const canCancelOrder = (order: PurchaseOrder) => order.status === 'DRAFT' || order.status === 'SENT';
+
+// Orders still waiting for goods
+export const isOpenOrder = (order: PurchaseOrder) => order.status === 'SENT' || order.status === 'PARTIAL';
+
+export const sendOrder = (order: PurchaseOrder): PurchaseOrder => ({
+  ...order,
+  status: 'SENT',
+  sentAt: new Date().toISOString(),
+});
+
+export const cancelOrder = (order: PurchaseOrder): PurchaseOrder => ({
+  ...order,
+  status: 'CANCELLED',
+  closedAt: new Date().toISOString(),
+});
+
+// A partially received order whose remaining units will never arrive
+export const closeOrderShort = (order: PurchaseOrder): PurchaseOrder => ({
+  ...order,
+  status: 'RECEIVED',
+  closedAt: new Date().toISOString(),
+});
+
+export interface ReceiveInput {
+  productId: string;
+  received: number;
+  note?: string;
+  lot?: string;
+  expiryDate?: string; // YYYY-MM-DD
+}
+
+export interface ReceiveResult {
+  order?: PurchaseOrder;
+  invoice?: Invoice;
+  error?: string;
+}
+
+// Registers a delivery: the purchase invoice covers only the units that arrived, at the ordered cost.
+// The order is closed when nothing is pending, or when `closeShort` says the rest won't come.
+export const receiveOrder = (
+  order: PurchaseOrder,
+  input: ReceiveInput[],
+  closeShort: boolean,
+  context: { products: Product[]; invoices: Invoice[]; taxSettings: TaxSettings; user: string; locationId?: string }
+): ReceiveResult => {
+  if (!canReceiveOrder(order)) return { error: 'La orden no está pendiente de recepción.' };
+  if (input.some(i => !(i.received >= 0))) return { error: 'Las cantidades recibidas no pueden ser negativas.' };
+  const arrived = input.filter(i => i.received > 0);
+  if (arrived.length === 0) return { error: 'Ingresa al menos una cantidad recibida.' };
+  const fractional = context.products.find(p => arrived.some(i => i.productId === p.id && !isValidQuantity(p, i.received)));
+  if (fractional) return { error: `${fractional.name} se recibe en unidades enteras.` };
+  const missingExpiry = arrived.find(i => !i.expiryDate && context.products.find(p => p.id === i.productId)?.tracksExpiry);
+  if (missingExpiry) {
+    return { error: `Ingresa la fecha de vencimiento de ${context.products.find(p => p.id === missingExpiry.productId)!.name}.` };
+  }
+
+  const priced = priceCart(
+    arrived.map(i => ({
+      productId: i.productId,
+      quantity: i.received,
+      unitPrice: order.lines.find(l => l.productId === i.productId)?.unitCost ?? 0,
+    })),
+    context.products,
+    { type: 'PURCHASE', promotions: [], taxSettings: context.taxSettings, now: new Date() }
+  );
+  if (priced.length !== arrived.length) return { error: 'Hay productos de la orden que ya no existen en el catálogo.' };
+
+  const items = priced.map(item => {
+    const entry = arrived.find(i => i.productId === item.productId);
+    return {
+      ...item,
+      ...(entry?.lot?.trim() ? { lot: entry.lot.trim() } : {}),
+      ...(entry?.expiryDate ? { expiryDate: entry.expiryDate } : {}),
+    };
+  });
+
+  const date = new Date().toISOString();
+  const invoice: Invoice = {
+    id: crypto.randomUUID(),
+    type: 'PURCHASE',
+    date: date.split('T')[0],
+    folio: nextFolio(context.invoices, 'PURCHASE'),
+    items,
+    ...summarizeItems(items),
+    ...(order.supplierId ? { supplierId: order.supplierId } : {}),
+    purchaseOrderId: order.id,
+    notes: `Recepción de ${formatOrderFolio(order)}`,
+    ...(context.locationId ? { locationId: context.locationId } : {}),
+  };
+
+  const receiptLines: PurchaseReceiptLine[] = order.lines.map(line => {
+    const entry = input.find(i => i.productId === line.productId);
+    return {
+      productId: line.productId,
+      expected: pendingQuantity(line),
+      received: entry?.received || 0,
+      ...(entry?.note?.trim() ? { note: entry.note.trim() } : {}),
+    };
+  });
+  const lines = order.lines.map(line => ({
+    ...line,
+    quantityReceived: line.quantityReceived + (input.find(i => i.productId === line.productId)?.received || 0),
+  }));
+  const complete = lines.every(line => pendingQuantity(line) === 0);
+
+  return {
+    invoice,
+    order: {
+      ...order,
+      lines,
+      receipts: [...order.receipts, { id: crypto.randomUUID(), date, invoiceId: invoice.id, lines: receiptLines, user: context.user }],
+      status: complete || closeShort ? 'RECEIVED' : 'PARTIAL',
+      ...(complete || closeShort ? { closedAt: date } : {}),
+    },
+  };
+};
+
+// Voiding a receipt's invoice takes its units back off the order, which reopens for receiving.
+export const revertReceipt = (order: PurchaseOrder, invoiceId: string): PurchaseOrder | undefined => {
+  const receipt = order.receipts.find(r => r.invoiceId === invoiceId);
+  if (!receipt) return undefined;
+  const receipts = order.receipts.filter(r => r.id !== receipt.id);
+  return {
+    ...order,
+    closedAt: undefined,
+    receipts,
+    lines: order.lines.map(line => ({
+      ...line,
+      quantityReceived: line.quantityReceived - (receipt.lines.find(l => l.productId === line.productId)?.received || 0),
+    })),
+    status: receipts.length > 0 ? 'PARTIAL' : 'SENT',
+  };
+};
+
+export interface OrderDiscrepancy {
+  productId: string;
+  productName: string;
+  ordered: number;
+  received: number;
+  difference: number; // Received minus ordered
+  notes: string[];
+}
+
+// Lines of a closed order (or any order with notes) where what arrived differs from what was ordered
+export const getDiscrepancies = (order: PurchaseOrder): OrderDiscrepancy[] =>
+  order.lines
+    .map(line => ({
+      productId: line.productId,
+      productName: line.productName,
+      ordered: line.quantityOrdered,
+      received: line.quantityReceived,
+      difference: line.quantityReceived - line.quantityOrdered,
+      notes: order.receipts.flatMap(r => r.lines.filter(l => l.productId === line.productId && l.note).map(l => l.note!)),
+    }))
+    .filter(d => (order.status === 'RECEIVED' && d.difference !== 0) || d.difference > 0 || d.notes.length > 0);
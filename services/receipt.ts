@@ -0,0 +1,157 @@
+import { Invoice, InvoiceType, PaperWidth, ReceiptSettings } from '../types';
+import { PAYMENT_METHOD_LABELS } from './cashRegister';
+import { formatFolio } from './invoices';
+import { formatRate, summarizeSubtotal } from './tax';
+import { describeItemQuantity } from './units';
+
+export const RECEIPT_TITLES: Record<InvoiceType, string> = {
+  SALE: 'COMPROBANTE DE VENTA',
+  PURCHASE: 'COMPROBANTE DE COMPRA',
+  CREDIT_NOTE: 'NOTA DE CRÉDITO',
+};
+
+// Characters per line in the printer's default font
+export const RECEIPT_COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  quantityLabel: string; // "3", "1,25 kg" or "2 × Caja x4 (8 un.)"
+  unitPrice: number;
+  total: number;
+  discount: number;
+  promotionName?: string;
+}
+
+export interface Receipt {
+  storeName: string;
+  headerLines: string[];
+  title: string;
+  folio: string;
+  date: string;
+  reference?: string; // Credit notes: the document they void
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  netAmount: number;
+  taxes: { label: string; amount: number }[];
+  total: number;
+  payments: { label: string; amount: number }[];
+  cashTendered?: number;
+  change?: number;
+  footer: string;
+}
+
+export const formatMoney = (amount: number) => `$${amount.toLocaleString('es-CL')}`;
+
+// Everything printed on a ticket, independent of the output format.
+export const buildReceipt = (invoice: Invoice, invoices: Invoice[], settings: ReceiptSettings): Receipt => {
+  const { subtotal, discountAmount } = summarizeSubtotal(invoice.items);
+  const taxByRate = new Map<number, number>();
+  invoice.items
+    .filter(item => item.taxRate !== undefined && item.taxRate > 0)
+    .forEach(item => taxByRate.set(item.taxRate!, (taxByRate.get(item.taxRate!) || 0) + (item.taxAmount ?? 0)));
+  const original = invoice.originalInvoiceId ? invoices.find(i => i.id === invoice.originalInvoiceId) : undefined;
+
+  return {
+    storeName: settings.storeName,
+    headerLines: settings.headerLines.split('\n').map(l => l.trim()).filter(Boolean),
+    title: RECEIPT_TITLES[invoice.type],
+    folio: formatFolio(invoice),
+    date: invoice.date,
+    ...(original ? { reference: `Anula ${RECEIPT_TITLES[original.type].toLowerCase()} N° ${formatFolio(original)}` } : {}),
+    lines: invoice.items.map(item => ({
+      name: item.productName,
+      quantity: item.quantity,
+      quantityLabel: item.packName || (item.unit && item.unit !== 'UNIT') ? describeItemQuantity(item) : String(item.quantity),
+      unitPrice: item.unitPrice,
+      total: item.total,
+      discount: item.discountAmount || 0,
+      promotionName: item.promotionName,
+    })),
+    subtotal,
+    discount: discountAmount,
+    netAmount: invoice.netAmount ?? invoice.totalAmount,
+    taxes: Array.from(taxByRate.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([rate, amount]) => ({ label: `IVA ${formatRate(rate)}`, amount })),
+    total: invoice.totalAmount,
+    payments: (invoice.payments || []).map(p => ({ label: PAYMENT_METHOD_LABELS[p.method], amount: p.amount })),
+    ...(invoice.cashTendered ? { cashTendered: invoice.cashTendered } : {}),
+    ...(invoice.change ? { change: invoice.change } : {}),
+    footer: settings.footer,
+  };
+};
+
+const center = (text: string, width: number) => {
+  const clipped = text.slice(0, width);
+  return ' '.repeat(Math.floor((width - clipped.length) / 2)) + clipped;
+};
+
+// Left text and right-aligned amount on one line, wrapping the text if they don't fit
+const columns = (left: string, right: string, width: number): string[] => {
+  if (left.length + right.length + 1 <= width) return [left + ' '.repeat(width - left.length - right.length) + right];
+  return [left.slice(0, width), ' '.repeat(Math.max(0, width - right.length)) + right];
+};
+
+// Monospaced plain-text version of the ticket, sized for the roll width.
+export const renderReceiptText = (receipt: Receipt, paperWidth: PaperWidth): string => {
+  const width = RECEIPT_COLUMNS[paperWidth];
+  const rule = '-'.repeat(width);
+  const out: string[] = [
+    center(receipt.storeName, width),
+    ...receipt.headerLines.map(line => center(line, width)),
+    rule,
+    center(receipt.title, width),
+    center(`N° ${receipt.folio}`, width),
+    center(receipt.date, width),
+    ...(receipt.reference ? [center(receipt.reference, width)] : []),
+    rule,
+  ];
+
+  receipt.lines.forEach(line => {
+    out.push(line.name.slice(0, width));
+    out.push(...columns(`  ${line.quantityLabel} x ${formatMoney(line.unitPrice)}`, formatMoney(line.total), width));
+    if (line.discount > 0) out.push(...columns(`  Dcto.${line.promotionName ? ` ${line.promotionName}` : ''}`, `-${formatMoney(line.discount)}`, width));
+  });
+
+  out.push(rule);
+  if (receipt.discount > 0) {
+    out.push(...columns('Subtotal', formatMoney(receipt.subtotal), width));
+    out.push(...columns('Descuentos', `-${formatMoney(receipt.discount)}`, width));
+  }
+  out.push(...columns('Neto', formatMoney(receipt.netAmount), width));
+  receipt.taxes.forEach(tax => out.push(...columns(tax.label, formatMoney(tax.amount), width)));
+  out.push(...columns('TOTAL', formatMoney(receipt.total), width));
+
+  if (receipt.payments.length > 0) {
+    out.push(rule);
+    receipt.payments.forEach(p => out.push(...columns(p.label, formatMoney(p.amount), width)));
+    if (receipt.cashTendered) out.push(...columns('Efectivo recibido', formatMoney(receipt.cashTendered), width));
+    if (receipt.change) out.push(...columns('Vuelto', formatMoney(receipt.change), width));
+  }
+
+  if (receipt.footer) out.push(rule, ...receipt.footer.split('\n').map(line => center(line.trim(), width)));
+  return out.join('\n');
+};
+
+// Code page 858 bytes for the non-ASCII characters a Spanish ticket uses
+const CP858: Record<string, number> = {
+  'á': 0xa0, 'é': 0x82, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ü': 0x81, 'ñ': 0xa4,
+  'Á': 0xb5, 'É': 0x90, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9, 'Ü': 0x9a, 'Ñ': 0xa5,
+  '¿': 0xa8, '¡': 0xad, '°': 0xf8,
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Raw bytes for an ESC/POS thermal printer: reset, select code page 858, text, feed and cut.
+export const toEscPos = (text: string): Uint8Array => {
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 19];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    bytes.push(code < 0x80 ? code : CP858[char] ?? 0x3f);
+  }
+  bytes.push(0x0a, ESC, 0x64, 4, GS, 0x56, 0x42, 3);
+  return new Uint8Array(bytes);
+};
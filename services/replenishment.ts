@@ -0,0 +1,105 @@
+import { Invoice, Product, PurchaseOrder, ReplenishmentSettings, Supplier } from '../types';
+import { addDays, dailySeries, productSalesHistories } from './forecasting';
+import { isOpenOrder, pendingQuantity } from './purchaseOrders';
+import { isKit } from './kits';
+
+// Standard normal quantiles for the service levels offered in settings
+export const SERVICE_LEVELS = [
+  { level: 0.9, z: 1.282 },
+  { level: 0.95, z: 1.645 },
+  { level: 0.98, z: 2.054 },
+  { level: 0.99, z: 2.326 },
+];
+
+const zScore = (level: number) =>
+  SERVICE_LEVELS.reduce((best, s) => (Math.abs(s.level - level) < Math.abs(best.level - level) ? s : best)).z;
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+export interface ReplenishmentLine {
+  product: Product;
+  supplier?: Supplier;
+  dailyDemand: number; // Average units sold per day over the sales window
+  demandDeviation: number; // Standard deviation of daily units sold
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  orderQuantity: number; // Economic order quantity; 0 when there is no demand or cost to base it on
+  onOrder: number; // Still pending on sent or partially received purchase orders
+  position: number; // Stock on hand plus on order
+  daysOfCover: number | null; // How long the position lasts at the current demand; null without demand
+  reorderNow: boolean;
+  suggestedQuantity: number;
+}
+
+export interface MinStockChange {
+  productId: string;
+  minStock: number;
+}
+
+// The quickest supplier that carries the product
+export const preferredSupplier = (product: Product, suppliers: Supplier[]): Supplier | undefined =>
+  suppliers
+    .filter(s => s.productIds.includes(product.id))
+    .sort((a, b) => a.leadTimeDays - b.leadTimeDays)[0];
+
+export const quantityOnOrder = (productId: string, orders: PurchaseOrder[]) =>
+  orders
+    .filter(isOpenOrder)
+    .reduce((sum, o) => sum + o.lines.filter(l => l.productId === productId).reduce((s, l) => s + pendingQuantity(l), 0), 0);
+
+// Reorder point = demand over the lead time + safety stock, where safety stock covers demand variability
+// at the configured service level: z · σ(daily demand) · √lead time.
+// Order quantity is the economic order quantity √(2 · yearly demand · order cost / yearly holding cost per unit).
+// A product is flagged when its stock plus what is already on order has fallen to the reorder point.
+export const buildReplenishmentPlan = (
+  products: Product[],
+  invoices: Invoice[],
+  suppliers: Supplier[],
+  orders: PurchaseOrder[],
+  settings: ReplenishmentSettings,
+  today: string
+): ReplenishmentLine[] => {
+  const histories = productSalesHistories(invoices, today, settings.salesWindowDays);
+  const noSales = dailySeries([], addDays(today, -(settings.salesWindowDays - 1)), today);
+  const z = zScore(settings.serviceLevel);
+
+  return products.filter(product => !isKit(product)).map(product => {
+    const history = histories.get(product.id) || noSales;
+    const values = history.map(p => p.value);
+    const dailyDemand = values.reduce((a, b) => a + b, 0) / values.length;
+    const demandDeviation = Math.sqrt(values.reduce((sum, v) => sum + (v - dailyDemand) ** 2, 0) / values.length);
+
+    const supplier = preferredSupplier(product, suppliers);
+    const leadTimeDays = supplier ? supplier.leadTimeDays : settings.defaultLeadTimeDays;
+    const safetyStock = Math.ceil(z * demandDeviation * Math.sqrt(leadTimeDays));
+    const reorderPoint = Math.ceil(dailyDemand * leadTimeDays) + safetyStock;
+
+    const yearlyDemand = dailyDemand * 365;
+    const holdingCost = settings.holdingRate * product.cost;
+    const orderQuantity = yearlyDemand > 0 && holdingCost > 0
+      ? Math.ceil(Math.sqrt((2 * yearlyDemand * settings.orderCost) / holdingCost))
+      : 0;
+
+    const onOrder = quantityOnOrder(product.id, orders);
+    const position = product.currentStock + onOrder;
+    const reorderNow = dailyDemand > 0 && position <= reorderPoint;
+
+    return {
+      product,
+      supplier,
+      dailyDemand: roundValue(dailyDemand),
+      demandDeviation: roundValue(demandDeviation),
+      leadTimeDays,
+      safetyStock,
+      reorderPoint,
+      orderQuantity,
+      onOrder,
+      position,
+      daysOfCover: dailyDemand > 0 ? Math.max(0, Math.floor(position / dailyDemand)) : null,
+      reorderNow,
+      // At least enough to climb back above the reorder point
+      suggestedQuantity: reorderNow ? Math.max(orderQuantity, reorderPoint - position + 1) : 0,
+    };
+  });
+};
@@ -0,0 +1,161 @@
+import { Product, Invoice, StockMovement, Backorder, StoreSettings, Promotion, CashSession, Supplier, PurchaseOrder, StockTransfer, StockCount, UserAccount, Customer, CustomerPayment, LoyaltyEntry } from '../types';
+import { INITIAL_PRODUCTS, MOCK_INVOICES, DEFAULT_USER, DEFAULT_SETTINGS } from '../constants';
+import { STORES, StoreName, createRepository, withTransaction, requestToPromise } from './db';
+import { createMovement } from './stockLedger';
+import { BACKUP_COLLECTIONS, BackupData, RestoreMode } from './backup';
+
+export const productRepository = createRepository<Product>(STORES.PRODUCTS);
+export const invoiceRepository = createRepository<Invoice>(STORES.INVOICES);
+export const stockMovementRepository = createRepository<StockMovement>(STORES.STOCK_MOVEMENTS);
+export const backorderRepository = createRepository<Backorder>(STORES.BACKORDERS);
+export const promotionRepository = createRepository<Promotion>(STORES.PROMOTIONS);
+export const cashSessionRepository = createRepository<CashSession>(STORES.CASH_SESSIONS);
+export const supplierRepository = createRepository<Supplier>(STORES.SUPPLIERS);
+export const purchaseOrderRepository = createRepository<PurchaseOrder>(STORES.PURCHASE_ORDERS);
+export const transferRepository = createRepository<StockTransfer>(STORES.TRANSFERS);
+export const stockCountRepository = createRepository<StockCount>(STORES.STOCK_COUNTS);
+export const userRepository = createRepository<UserAccount>(STORES.USERS);
+export const customerRepository = createRepository<Customer>(STORES.CUSTOMERS);
+export const customerPaymentRepository = createRepository<CustomerPayment>(STORES.CUSTOMER_PAYMENTS);
+export const loyaltyEntryRepository = createRepository<LoyaltyEntry>(STORES.LOYALTY_ENTRIES);
+
+interface SettingRecord<T> {
+  key: string;
+  value: T;
+}
+
+export const getSetting = async <T>(key: string): Promise<T | undefined> => {
+  const record = await withTransaction(STORES.SETTINGS, 'readonly', tx =>
+    requestToPromise(tx.objectStore(STORES.SETTINGS).get(key) as IDBRequest<SettingRecord<T> | undefined>)
+  );
+  return record?.value;
+};
+
+export const setSetting = <T>(key: string, value: T): Promise<void> =>
+  withTransaction(STORES.SETTINGS, 'readwrite', tx => {
+    tx.objectStore(STORES.SETTINGS).put({ key, value } as SettingRecord<T>);
+  });
+
+const INITIALIZED_KEY = 'initialized';
+const SETTINGS_KEY = 'storeSettings';
+
+// Stored settings may predate newer sections or fields, so each section is layered over its defaults.
+export const mergeSettings = (stored?: Partial<StoreSettings>): StoreSettings => {
+  const merged = { ...DEFAULT_SETTINGS } as Record<string, unknown>;
+  Object.entries(stored || {}).forEach(([key, value]) => {
+    const defaults = merged[key];
+    merged[key] = defaults && typeof defaults === 'object' && !Array.isArray(defaults)
+      ? { ...defaults, ...(value as object) }
+      : value;
+  });
+  return merged as unknown as StoreSettings;
+};
+
+export const saveSettings = (settings: StoreSettings) => setSetting(SETTINGS_KEY, settings);
+
+export interface StoreData {
+  initialized: boolean;
+  products: Product[];
+  invoices: Invoice[];
+  stockMovements: StockMovement[];
+  backorders: Backorder[];
+  promotions: Promotion[];
+  cashSessions: CashSession[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  transfers: StockTransfer[];
+  stockCounts: StockCount[];
+  users: UserAccount[];
+  customers: Customer[];
+  customerPayments: CustomerPayment[];
+  loyaltyEntries: LoyaltyEntry[];
+  settings: StoreSettings;
+}
+
+export const loadStoreData = async (): Promise<StoreData> => {
+  const [initialized, settings, products, invoices, stockMovements, backorders, promotions, cashSessions, suppliers, purchaseOrders, transfers, stockCounts, users, customers, customerPayments, loyaltyEntries] = await Promise.all([
+    getSetting<boolean>(INITIALIZED_KEY),
+    getSetting<Partial<StoreSettings>>(SETTINGS_KEY),
+    productRepository.getAll(),
+    invoiceRepository.getAll(),
+    stockMovementRepository.getAll(),
+    backorderRepository.getAll(),
+    promotionRepository.getAll(),
+    cashSessionRepository.getAll(),
+    supplierRepository.getAll(),
+    purchaseOrderRepository.getAll(),
+    transferRepository.getAll(),
+    stockCountRepository.getAll(),
+    userRepository.getAll(),
+    customerRepository.getAll(),
+    customerPaymentRepository.getAll(),
+    loyaltyEntryRepository.getAll(),
+  ]);
+  return {
+    initialized: Boolean(initialized),
+    products,
+    invoices: invoices.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+    stockMovements: stockMovements.sort((a, b) => a.date.localeCompare(b.date)),
+    backorders,
+    promotions,
+    cashSessions: cashSessions.sort((a, b) => a.openedAt.localeCompare(b.openedAt)),
+    suppliers: suppliers.sort((a, b) => a.name.localeCompare(b.name)),
+    purchaseOrders: purchaseOrders.sort((a, b) => a.folio - b.folio),
+    transfers: transfers.sort((a, b) => a.folio - b.folio),
+    stockCounts: stockCounts.sort((a, b) => a.folio - b.folio),
+    users: users.sort((a, b) => a.name.localeCompare(b.name)),
+    customers: customers.sort((a, b) => a.name.localeCompare(b.name)),
+    customerPayments: customerPayments.sort((a, b) => a.folio - b.folio),
+    loyaltyEntries: loyaltyEntries.sort((a, b) => a.date.localeCompare(b.date)),
+    settings: mergeSettings(settings),
+  };
+};
+
+// First run: either load the demo catalogue and invoice history or start with an empty store.
+export const initializeStore = async (withDemoData: boolean): Promise<StoreData> => {
+  const products = withDemoData ? INITIAL_PRODUCTS : [];
+  const invoices = withDemoData ? MOCK_INVOICES : [];
+  const stockMovements = products
+    .filter(p => p.currentStock !== 0)
+    .map(p => createMovement({ productId: p.id, type: 'OPENING', quantity: p.currentStock, user: DEFAULT_USER, unitCost: p.cost }));
+
+  const stores = [STORES.PRODUCTS, STORES.INVOICES, STORES.STOCK_MOVEMENTS, STORES.BACKORDERS, STORES.PROMOTIONS, STORES.CASH_SESSIONS, STORES.SUPPLIERS, STORES.PURCHASE_ORDERS, STORES.TRANSFERS, STORES.STOCK_COUNTS, STORES.USERS, STORES.CUSTOMERS, STORES.CUSTOMER_PAYMENTS, STORES.LOYALTY_ENTRIES];
+  await withTransaction([...stores, STORES.SETTINGS], 'readwrite', tx => {
+    stores.forEach(name => tx.objectStore(name).clear());
+    products.forEach(p => tx.objectStore(STORES.PRODUCTS).put(p));
+    invoices.forEach(i => tx.objectStore(STORES.INVOICES).put(i));
+    stockMovements.forEach(m => tx.objectStore(STORES.STOCK_MOVEMENTS).put(m));
+    tx.objectStore(STORES.SETTINGS).put({ key: INITIALIZED_KEY, value: true });
+  });
+
+  return { initialized: true, products, invoices, stockMovements, backorders: [], promotions: [], cashSessions: [], suppliers: [], purchaseOrders: [], transfers: [], stockCounts: [], users: [], customers: [], customerPayments: [], loyaltyEntries: [], settings: DEFAULT_SETTINGS };
+};
+
+export type RecordChanges = Partial<Record<StoreName, { id: string }[]>>;
+
+// Writes records to several stores in one transaction, e.g. an invoice with its stock movements.
+export const saveRecords = (changes: RecordChanges): Promise<void> => {
+  const storeNames = (Object.keys(changes) as StoreName[]).filter(name => changes[name]!.length > 0);
+  if (storeNames.length === 0) return Promise.resolve();
+  return withTransaction(storeNames, 'readwrite', tx => {
+    storeNames.forEach(name => {
+      const store = tx.objectStore(name);
+      changes[name]!.forEach(record => store.put(record));
+    });
+  });
+};
+
+// Writes a validated backup in one transaction. A replace wipes every store first; a merge upserts by id
+// and keeps the current settings.
+export const restoreBackup = (data: BackupData, mode: RestoreMode): Promise<void> => {
+  const stores = BACKUP_COLLECTIONS.map(c => c.store);
+  return withTransaction([...stores, STORES.SETTINGS], 'readwrite', tx => {
+    BACKUP_COLLECTIONS.forEach(({ key, store }) => {
+      const objectStore = tx.objectStore(store);
+      if (mode === 'REPLACE') objectStore.clear();
+      data[key].forEach(record => objectStore.put(record));
+    });
+    if (mode === 'REPLACE') tx.objectStore(STORES.SETTINGS).put({ key: SETTINGS_KEY, value: mergeSettings(data.settings) });
+    tx.objectStore(STORES.SETTINGS).put({ key: INITIALIZED_KEY, value: true });
+  });
+};
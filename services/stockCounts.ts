@@ -0,0 +1,173 @@
+import { Product, StockCount, StockCountLine, StockCountStatus, StockMovement, VarianceReason } from '../types';
+import { createMovement } from './stockLedger';
+import { getLocationBalances, stockAt } from './locations';
+import { isKit } from './kits';
+import { roundQuantity } from './units';
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  OPEN: 'En curso',
+  POSTED: 'Contabilizada',
+  CANCELLED: 'Cancelada',
+};
+
+export const VARIANCE_REASON_LABELS: Record<VarianceReason, string> = {
+  SHRINKAGE: 'Merma',
+  DAMAGE: 'Daño',
+  COUNT_ERROR: 'Error de conteo',
+};
+
+export const VARIANCE_REASONS = Object.keys(VARIANCE_REASON_LABELS) as VarianceReason[];
+
+export const nextCountFolio = (counts: StockCount[]) =>
+  counts.reduce((max, c) => Math.max(max, c.folio), 0) + 1;
+
+export const formatCountFolio = (count: StockCount) => `TI-${String(count.folio).padStart(6, '0')}`;
+
+// Counted minus expected; uncounted lines have no variance yet
+export const lineVariance = (line: StockCountLine) =>
+  line.counted === undefined ? 0 : roundQuantity(line.counted - line.expected);
+
+export interface StartCountInput {
+  locationId: string;
+  category?: string; // Missing for a full count
+  notes?: string;
+}
+
+export interface StockCountResult {
+  count?: StockCount;
+  movements?: StockMovement[];
+  error?: string;
+}
+
+// Freezes the expected quantity of every product in scope. Sales during the count keep moving stock,
+// so posting adjusts by the variance instead of overwriting the balance.
+export const startCount = (
+  input: StartCountInput,
+  context: { products: Product[]; movements: StockMovement[]; counts: StockCount[]; user: string }
+): StockCountResult => {
+  if (context.counts.some(c => c.status === 'OPEN' && c.locationId === input.locationId)) {
+    return { error: 'Ya hay una toma de inventario en curso en esta ubicación.' };
+  }
+  const products = context.products.filter(p => !isKit(p) && (!input.category || p.category === input.category));
+  if (products.length === 0) return { error: 'No hay productos para contar.' };
+
+  const balances = getLocationBalances(context.movements);
+  const count: StockCount = {
+    id: crypto.randomUUID(),
+    folio: nextCountFolio(context.counts),
+    status: 'OPEN',
+    locationId: input.locationId,
+    ...(input.category ? { category: input.category } : {}),
+    startedAt: new Date().toISOString(),
+    lines: [...products]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(p => ({ productId: p.id, productName: p.name, expected: stockAt(balances, p.id, input.locationId), unitCost: p.cost })),
+    user: context.user,
+    ...(input.notes?.trim() ? { notes: input.notes.trim() } : {}),
+  };
+  return { count };
+};
+
+export const updateCountLine = (count: StockCount, productId: string, changes: Partial<Pick<StockCountLine, 'counted' | 'reason'>>): StockCount => ({
+  ...count,
+  lines: count.lines.map(line => {
+    if (line.productId !== productId) return line;
+    const updated = { ...line, ...changes };
+    // Clearing a field removes it rather than storing undefined
+    (Object.keys(changes) as (keyof typeof changes)[]).forEach(key => {
+      if (changes[key] === undefined) delete updated[key];
+    });
+    return updated;
+  }),
+});
+
+// Scanning the same product again adds to what was already counted
+export const addCountedQuantity = (count: StockCount, productId: string, quantity: number): StockCount => {
+  const line = count.lines.find(l => l.productId === productId);
+  return updateCountLine(count, productId, { counted: roundQuantity((line?.counted || 0) + quantity) });
+};
+
+export interface CountSummary {
+  counted: number; // Lines counted
+  pending: number;
+  withVariance: number;
+  surplusValue: number;
+  shortageValue: number; // Positive amount of the missing units
+  netValue: number;
+}
+
+export const summarizeCount = (count: StockCount): CountSummary =>
+  count.lines.reduce((summary, line) => {
+    if (line.counted === undefined) return { ...summary, pending: summary.pending + 1 };
+    const variance = lineVariance(line);
+    const value = Math.round(variance * line.unitCost);
+    return {
+      counted: summary.counted + 1,
+      pending: summary.pending,
+      withVariance: summary.withVariance + (variance !== 0 ? 1 : 0),
+      surplusValue: summary.surplusValue + Math.max(0, value),
+      shortageValue: summary.shortageValue + Math.max(0, -value),
+      netValue: summary.netValue + value,
+    };
+  }, { counted: 0, pending: 0, withVariance: 0, surplusValue: 0, shortageValue: 0, netValue: 0 });
+
+// Every product must be counted and every variance explained before the adjustments are posted.
+// Missing units written off as shrinkage or damage are SHRINKAGE movements; the rest are adjustments.
+export const postCount = (count: StockCount, user: string): StockCountResult => {
+  if (count.status !== 'OPEN') return { error: 'La toma de inventario ya está cerrada.' };
+  const pending = count.lines.filter(l => l.counted === undefined);
+  if (pending.length > 0) return { error: `Faltan ${pending.length} productos por contar.` };
+  const unexplained = count.lines.find(l => lineVariance(l) !== 0 && !l.reason);
+  if (unexplained) return { error: `Indica el motivo de la diferencia de ${unexplained.productName}.` };
+
+  const postedAt = new Date().toISOString();
+  const posted: StockCount = { ...count, status: 'POSTED', postedAt };
+  const movements = count.lines
+    .filter(line => lineVariance(line) !== 0)
+    .map(line => {
+      const variance = lineVariance(line);
+      return createMovement({
+        productId: line.productId,
+        type: variance < 0 && line.reason !== 'COUNT_ERROR' ? 'SHRINKAGE' : 'ADJUSTMENT',
+        quantity: variance,
+        user,
+        reason: `Toma de inventario ${formatCountFolio(count)}: ${VARIANCE_REASON_LABELS[line.reason!]}`,
+        date: postedAt,
+        locationId: count.locationId,
+        countId: count.id,
+      });
+    });
+  return { count: posted, movements };
+};
+
+export const cancelCount = (count: StockCount): StockCount => ({ ...count, status: 'CANCELLED' });
+
+export interface ShrinkageRow {
+  month: string; // YYYY-MM
+  units: Record<VarianceReason, number>;
+  value: Record<VarianceReason, number>; // Signed: missing units are negative
+  netValue: number;
+}
+
+const emptyByReason = (): Record<VarianceReason, number> => ({ SHRINKAGE: 0, DAMAGE: 0, COUNT_ERROR: 0 });
+
+// Posted count variances per month and reason, oldest first
+export const buildShrinkageReport = (counts: StockCount[]): ShrinkageRow[] => {
+  const rows = new Map<string, ShrinkageRow>();
+  counts
+    .filter(c => c.status === 'POSTED' && c.postedAt)
+    .forEach(count => {
+      const month = count.postedAt!.slice(0, 7);
+      const row = rows.get(month) || { month, units: emptyByReason(), value: emptyByReason(), netValue: 0 };
+      count.lines.forEach(line => {
+        const variance = lineVariance(line);
+        if (variance === 0 || !line.reason) return;
+        const value = Math.round(variance * line.unitCost);
+        row.units[line.reason] = roundQuantity(row.units[line.reason] + variance);
+        row.value[line.reason] += value;
+        row.netValue += value;
+      });
+      rows.set(month, row);
+    });
+  return Array.from(rows.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
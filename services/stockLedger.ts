@@ -0,0 +1,166 @@
+import { Product, StockMovement, StockMovementType, Invoice, InvoiceItem } from '../types';
+import { shortId } from './invoices';
+import { nextAverageCost, purchaseUnitCost } from './costing';
+import { roundQuantity } from './units';
+
+export const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  OPENING: 'Saldo inicial',
+  SALE: 'Venta',
+  PURCHASE: 'Compra',
+  ADJUSTMENT: 'Ajuste manual',
+  RETURN: 'Devolución',
+  SHRINKAGE: 'Merma',
+  EXPIRY: 'Baja por vencimiento',
+  TRANSFER: 'Traslado',
+};
+
+interface MovementInput {
+  productId: string;
+  type: StockMovementType;
+  quantity: number;
+  user: string;
+  reason?: string;
+  invoiceId?: string;
+  date?: string;
+  unitCost?: number;
+  lot?: string;
+  expiryDate?: string;
+  locationId?: string;
+  transferId?: string;
+  countId?: string;
+}
+
+export const createMovement = ({ date, ...input }: MovementInput): StockMovement => ({
+  id: crypto.randomUUID(),
+  date: date || new Date().toISOString(),
+  ...input,
+});
+
+const byDate = (a: StockMovement, b: StockMovement) => a.date.localeCompare(b.date);
+
+// Ledger balance per product id.
+export const getLedgerBalances = (movements: StockMovement[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  movements.forEach(m => balances.set(m.productId, roundQuantity((balances.get(m.productId) || 0) + m.quantity)));
+  return balances;
+};
+
+export interface KardexEntry extends StockMovement {
+  balance: number;
+}
+
+// Chronological movements of one product with the running balance after each one.
+export const buildKardex = (movements: StockMovement[], productId: string): KardexEntry[] => {
+  let balance = 0;
+  return movements
+    .filter(m => m.productId === productId)
+    .sort(byDate)
+    .map(m => {
+      balance = roundQuantity(balance + m.quantity);
+      return { ...m, balance };
+    });
+};
+
+// Applies new movements to the cached stock and moving average cost of the affected products.
+export const applyMovements = (products: Product[], movements: StockMovement[]): Product[] =>
+  products.map(p => {
+    const own = movements.filter(m => m.productId === p.id);
+    if (own.length === 0) return p;
+    let currentStock = p.currentStock;
+    let cost = p.cost;
+    own.forEach(m => {
+      if (m.unitCost !== undefined) cost = nextAverageCost(currentStock, cost, m.quantity, m.unitCost);
+      currentStock = roundQuantity(currentStock + m.quantity);
+    });
+    const restocked = own.find(m => m.type === 'PURCHASE');
+    return {
+      ...p,
+      currentStock,
+      cost,
+      lastRestocked: restocked ? restocked.date.split('T')[0] : p.lastRestocked,
+    };
+  });
+
+// Lot of a purchase line. Without a lot number, the expiry date itself identifies the lot.
+const purchaseLot = (item: InvoiceItem): Pick<StockMovement, 'lot' | 'expiryDate'> => {
+  const lot = item.lot?.trim() || item.expiryDate;
+  return {
+    ...(lot ? { lot } : {}),
+    ...(item.expiryDate ? { expiryDate: item.expiryDate } : {}),
+  };
+};
+
+// Stock movements caused by an invoice. Sales record the full quantity sold, even beyond
+// available stock: whether that is allowed is decided by the product's stock policy upfront.
+// Kits have no stock of their own, so a kit sold takes its components out instead.
+export const movementsForInvoice = (invoice: Invoice, user: string): StockMovement[] =>
+  invoice.items.flatMap(item => {
+    if (invoice.type === 'SALE' && item.components?.length) {
+      return item.components.map(c => createMovement({
+        productId: c.productId,
+        type: 'SALE',
+        quantity: -roundQuantity(item.quantity * c.quantity),
+        user,
+        invoiceId: invoice.id,
+        reason: `Factura ${shortId(invoice.id)} (kit ${item.productName})`,
+        ...(invoice.locationId ? { locationId: invoice.locationId } : {}),
+      }));
+    }
+    return [createMovement({
+      productId: item.productId,
+      type: invoice.type === 'SALE' ? 'SALE' : 'PURCHASE',
+      quantity: invoice.type === 'SALE' ? -item.quantity : item.quantity,
+      user,
+      invoiceId: invoice.id,
+      reason: `Factura ${shortId(invoice.id)}`,
+      ...(invoice.locationId ? { locationId: invoice.locationId } : {}),
+      ...(invoice.type === 'PURCHASE' ? { unitCost: purchaseUnitCost(item) } : {}),
+      ...(invoice.type === 'PURCHASE' ? purchaseLot(item) : {}),
+    })];
+  });
+
+// Movements that exactly undo the given ones, e.g. those of a voided invoice.
+export const reverseMovements = (movements: StockMovement[], user: string, reason: string, invoiceId?: string): StockMovement[] =>
+  movements.map(m => createMovement({
+    productId: m.productId,
+    type: 'RETURN',
+    quantity: -m.quantity,
+    user,
+    reason,
+    invoiceId,
+    ...(m.unitCost !== undefined ? { unitCost: m.unitCost } : {}),
+    ...(m.lot ? { lot: m.lot } : {}),
+    ...(m.expiryDate ? { expiryDate: m.expiryDate } : {}),
+    ...(m.locationId ? { locationId: m.locationId } : {}),
+  }));
+
+export interface LedgerReconciliation {
+  products: Product[];
+  // Opening entries created for products that had no movements yet
+  openingMovements: StockMovement[];
+  // Products whose cached currentStock disagreed with the ledger and were corrected
+  corrected: Product[];
+}
+
+// Makes the ledger the source of truth for Product.currentStock.
+export const reconcileWithLedger = (products: Product[], movements: StockMovement[], user: string): LedgerReconciliation => {
+  const balances = getLedgerBalances(movements);
+  const openingMovements: StockMovement[] = [];
+  const corrected: Product[] = [];
+
+  const reconciled = products.map(p => {
+    const balance = balances.get(p.id);
+    if (balance === undefined) {
+      if (p.currentStock !== 0) {
+        openingMovements.push(createMovement({ productId: p.id, type: 'OPENING', quantity: p.currentStock, user, unitCost: p.cost }));
+      }
+      return p;
+    }
+    if (balance === p.currentStock) return p;
+    const fixed = { ...p, currentStock: balance };
+    corrected.push(fixed);
+    return fixed;
+  });
+
+  return { products: reconciled, openingMovements, corrected };
+};
@@ -0,0 +1,106 @@
+import { Product, StockPolicy, Invoice, InvoiceItem, Backorder } from '../types';
+import { componentDemand } from './kits';
+import { formatQuantity, getUnit } from './units';
+import { movementLocation } from './locations';
+
+export const STOCK_POLICY_LABELS: Record<StockPolicy, string> = {
+  BLOCK: 'Bloquear venta sin stock',
+  WARN: 'Advertir y permitir',
+  BACKORDER: 'Permitir stock negativo (pedido pendiente)',
+};
+
+export const getStockPolicy = (product: Product): StockPolicy => product.stockPolicy || 'BLOCK';
+
+export type StockCheckSeverity = 'OK' | 'ERROR' | 'WARNING' | 'BACKORDER';
+
+export interface StockCheck {
+  productId: string;
+  productName: string;
+  requested: number;
+  available: number;
+  shortage: number;
+  severity: StockCheckSeverity;
+  message?: string;
+}
+
+// Checks a requested sale quantity (the whole cart line, not just the increment) against stock.
+export const checkStock = (product: Product, requested: number): StockCheck => {
+  const available = Math.max(0, product.currentStock);
+  const shortage = Math.max(0, requested - available);
+  const base = { productId: product.id, productName: product.name, requested, available, shortage };
+  // Quantities are in the product's base unit, whatever pack the line was entered in
+  const amount = (quantity: number) => formatQuantity(quantity, getUnit(product));
+
+  if (shortage === 0) return { ...base, severity: 'OK' };
+
+  switch (getStockPolicy(product)) {
+    case 'BLOCK':
+      return {
+        ...base,
+        severity: 'ERROR',
+        message: available === 0
+          ? `${product.name} no tiene stock disponible.`
+          : `${product.name}: solo hay ${amount(available)} disponibles y se solicitan ${amount(requested)}.`,
+      };
+    case 'WARN':
+      return {
+        ...base,
+        severity: 'WARNING',
+        message: `${product.name}: se venderán ${amount(shortage)} más de lo registrado en stock (${amount(available)}).`,
+      };
+    case 'BACKORDER':
+      return {
+        ...base,
+        severity: 'BACKORDER',
+        message: `${product.name}: ${amount(shortage)} quedarán como pedido pendiente.`,
+      };
+  }
+};
+
+// Problems with a sale cart, one per product that would exceed stock. Kits are checked on their components.
+export const checkCartStock = (items: InvoiceItem[], products: Product[]): StockCheck[] =>
+  Array.from(componentDemand(items, products).entries())
+    .map(([productId, quantity]) => {
+      const product = products.find(p => p.id === productId);
+      return product ? checkStock(product, quantity) : null;
+    })
+    .filter((check): check is StockCheck => check !== null && check.severity !== 'OK');
+
+// Backorders for the units of a sale that exceed the stock of BACKORDER products.
+// `products` is the catalogue as seen from the invoice's location
+export const createBackorders = (invoice: Invoice, products: Product[]): Backorder[] =>
+  checkCartStock(invoice.items, products)
+    .filter(check => check.severity === 'BACKORDER')
+    .map(check => ({
+      id: crypto.randomUUID(),
+      productId: check.productId,
+      productName: check.productName,
+      invoiceId: invoice.id,
+      ...(invoice.locationId ? { locationId: invoice.locationId } : {}),
+      quantity: check.shortage,
+      date: new Date().toISOString(),
+      status: 'OPEN',
+    }));
+
+// Closes the oldest open backorders of a location that its stock now covers; `products` is the catalogue
+// as seen from that location. Returns only the ones that changed.
+export const fulfillBackorders = (backorders: Backorder[], products: Product[], locationId: string): Backorder[] => {
+  const closedAt = new Date().toISOString();
+  const fulfilled: Backorder[] = [];
+
+  products.forEach(product => {
+    const open = backorders
+      .filter(b => b.productId === product.id && b.status === 'OPEN' && movementLocation(b) === locationId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    // Negative stock is what is still owed to customers
+    const owed = Math.max(0, -product.currentStock);
+    let pending = open.reduce((sum, b) => sum + b.quantity, 0);
+    for (const backorder of open) {
+      if (pending <= owed) break;
+      fulfilled.push({ ...backorder, status: 'FULFILLED', closedAt });
+      pending -= backorder.quantity;
+    }
+  });
+
+  return fulfilled;
+};
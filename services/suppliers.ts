@@ -0,0 +1,98 @@
+import { Invoice, Product, Supplier } from '../types';
+import { isEffectiveInvoice } from './invoices';
+
+const cleanRut = (rut: string) => rut.replace(/[^0-9kK]/g, '').toUpperCase();
+
+// Chilean RUT: body plus a mod-11 check digit (K stands for 10).
+export const isValidRut = (rut: string): boolean => {
+  const clean = cleanRut(rut);
+  if (!/^\d{7,8}[0-9K]$/.test(clean)) return false;
+  const body = clean.slice(0, -1);
+  let factor = 2;
+  let sum = 0;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += Number(body[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+  const expected = 11 - (sum % 11);
+  const digit = expected === 11 ? '0' : expected === 10 ? 'K' : String(expected);
+  return digit === clean.slice(-1);
+};
+
+export const formatRut = (rut: string): string => {
+  const clean = cleanRut(rut);
+  if (clean.length < 2) return clean;
+  const body = clean.slice(0, -1).replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+  return `${body}-${clean.slice(-1)}`;
+};
+
+export const describePaymentTerms = (days: number) => days > 0 ? `${days} días` : 'Contado';
+
+// Effective purchase invoices from a supplier, newest first
+export const getSupplierPurchases = (supplierId: string, invoices: Invoice[]): Invoice[] =>
+  invoices
+    .filter(inv => inv.type === 'PURCHASE' && inv.supplierId === supplierId && isEffectiveInvoice(inv))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+export interface SupplierCatalogEntry {
+  product: Product;
+  lastCost?: number; // Unit price of the most recent purchase from this supplier
+  lastPurchaseDate?: string;
+  purchasedQuantity: number;
+}
+
+// Products the supplier is known to sell: the ones listed on the supplier plus anything bought from them.
+export const getSupplierCatalog = (supplier: Supplier, products: Product[], invoices: Invoice[]): SupplierCatalogEntry[] => {
+  const purchases = getSupplierPurchases(supplier.id, invoices);
+  const productIds = new Set<string>(supplier.productIds);
+  purchases.forEach(inv => inv.items.forEach(item => productIds.add(item.productId)));
+
+  return Array.from(productIds)
+    .map(productId => products.find(p => p.id === productId))
+    .filter((product): product is Product => product !== undefined)
+    .map(product => {
+      const lastPurchase = purchases.find(inv => inv.items.some(i => i.productId === product.id));
+      const lastItem = lastPurchase?.items.find(i => i.productId === product.id);
+      return {
+        product,
+        lastCost: lastItem?.unitPrice,
+        lastPurchaseDate: lastPurchase?.date,
+        purchasedQuantity: purchases.reduce(
+          (sum, inv) => sum + inv.items.filter(i => i.productId === product.id).reduce((s, i) => s + i.quantity, 0),
+          0
+        ),
+      };
+    })
+    .sort((a, b) => a.product.name.localeCompare(b.product.name));
+};
+
+export interface SupplierSpendPoint {
+  month: string; // YYYY-MM
+  total: number;
+  invoices: number;
+}
+
+// Monthly spend with a supplier over the last `months` months, including months without purchases.
+export const getSupplierSpendByMonth = (supplierId: string, invoices: Invoice[], months = 12): SupplierSpendPoint[] => {
+  const now = new Date();
+  const points: SupplierSpendPoint[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    points.push({ month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`, total: 0, invoices: 0 });
+  }
+  getSupplierPurchases(supplierId, invoices).forEach(inv => {
+    const point = points.find(p => p.month === inv.date.slice(0, 7));
+    if (point) {
+      point.total += inv.totalAmount;
+      point.invoices += 1;
+    }
+  });
+  return points;
+};
+
+// Adds the products of a purchase to the supplier's catalogue. Returns undefined when nothing changed.
+export const addPurchasedProducts = (supplier: Supplier, invoice: Invoice): Supplier | undefined => {
+  const missing = invoice.items.map(i => i.productId).filter(id => !supplier.productIds.includes(id));
+  if (missing.length === 0) return undefined;
+  return { ...supplier, productIds: [...supplier.productIds, ...new Set(missing)] };
+};
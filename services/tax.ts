@@ -0,0 +1,152 @@
+import { Product, Invoice, InvoiceItem, TaxRate, TaxSettings } from '../types';
+
+const EXEMPT: TaxRate = { id: 'exento', name: 'Exento', rate: 0 };
+
+// Product override first, then its category, then the store default.
+export const getTaxRate = (product: Product, settings: TaxSettings): TaxRate => {
+  const rateId = product.taxRateId || settings.categoryRates[product.category] || settings.defaultRateId;
+  return settings.rates.find(r => r.id === rateId)
+    || settings.rates.find(r => r.id === settings.defaultRateId)
+    || EXEMPT;
+};
+
+export const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+export interface TaxAmounts {
+  netAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+// Pesos have no cents, so the tax is rounded per line and the net is whatever remains.
+export const calculateLineTaxes = (amount: number, rate: number, includesTax: boolean): TaxAmounts => {
+  if (includesTax) {
+    const netAmount = Math.round(amount / (1 + rate));
+    return { netAmount, taxAmount: amount - netAmount, total: amount };
+  }
+  const taxAmount = Math.round(amount * rate);
+  return { netAmount: amount, taxAmount, total: amount + taxAmount };
+};
+
+export const pricesIncludeTax = (type: 'SALE' | 'PURCHASE', settings: TaxSettings) =>
+  type === 'SALE' ? settings.pricesIncludeTax : settings.costsIncludeTax;
+
+// Taxes are calculated on the line amount after discounts.
+export const buildInvoiceItem = (
+  product: Product,
+  quantity: number,
+  unitPrice: number,
+  type: 'SALE' | 'PURCHASE',
+  settings: TaxSettings,
+  discountAmount = 0
+): InvoiceItem => {
+  const { rate } = getTaxRate(product, settings);
+  return {
+    productId: product.id,
+    productName: product.name,
+    quantity,
+    unitPrice,
+    ...(product.unit && product.unit !== 'UNIT' ? { unit: product.unit } : {}),
+    taxRate: rate,
+    ...(discountAmount > 0 ? { discountAmount } : {}),
+    ...(type === 'SALE' ? { unitCost: product.cost } : {}),
+    // Weighed quantities can give fractions of a peso
+    ...calculateLineTaxes(Math.round(quantity * unitPrice) - discountAmount, rate, pricesIncludeTax(type, settings)),
+  };
+};
+
+export const summarizeItems = (items: InvoiceItem[]) => ({
+  netAmount: items.reduce((sum, i) => sum + (i.netAmount ?? i.total), 0),
+  taxAmount: items.reduce((sum, i) => sum + (i.taxAmount ?? 0), 0),
+  totalAmount: items.reduce((sum, i) => sum + i.total, 0),
+});
+
+// Amount before any discount, on the same basis as the unit prices.
+export const summarizeSubtotal = (items: InvoiceItem[]) => ({
+  subtotal: items.reduce((sum, i) => sum + i.quantity * i.unitPrice, 0),
+  discountAmount: items.reduce((sum, i) => sum + (i.discountAmount || 0), 0),
+});
+
+// Line amounts for reporting. Lines saved before taxes existed are treated as tax-inclusive
+// at the product's current rate.
+export const getLineTaxes = (item: InvoiceItem, products: Product[], settings: TaxSettings): TaxAmounts & { rate: number } => {
+  if (item.taxRate !== undefined && item.netAmount !== undefined && item.taxAmount !== undefined) {
+    return { rate: item.taxRate, netAmount: item.netAmount, taxAmount: item.taxAmount, total: item.total };
+  }
+  const product = products.find(p => p.id === item.productId);
+  const rate = product ? getTaxRate(product, settings).rate : 0;
+  return { rate, ...calculateLineTaxes(item.total, rate, true) };
+};
+
+export interface TaxBucket {
+  rate: number;
+  netAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface TaxSide {
+  byRate: TaxBucket[];
+  netAmount: number;
+  taxAmount: number;
+  total: number;
+  documents: number;
+}
+
+export interface TaxReport {
+  from: string;
+  to: string;
+  sales: TaxSide; // Débito fiscal
+  purchases: TaxSide; // Crédito fiscal
+  taxPayable: number;
+}
+
+const emptySide = (): TaxSide => ({ byRate: [], netAmount: 0, taxAmount: 0, total: 0, documents: 0 });
+
+const addToSide = (side: TaxSide, line: TaxAmounts & { rate: number }, sign: number) => {
+  let bucket = side.byRate.find(b => b.rate === line.rate);
+  if (!bucket) {
+    bucket = { rate: line.rate, netAmount: 0, taxAmount: 0, total: 0 };
+    side.byRate.push(bucket);
+  }
+  bucket.netAmount += sign * line.netAmount;
+  bucket.taxAmount += sign * line.taxAmount;
+  bucket.total += sign * line.total;
+  side.netAmount += sign * line.netAmount;
+  side.taxAmount += sign * line.taxAmount;
+  side.total += sign * line.total;
+};
+
+// Monthly-declaration style summary: every document issued in the range counts, and credit
+// notes issued in the range subtract from the side of the invoice they reverse.
+export const buildTaxReport = (
+  invoices: Invoice[],
+  from: string,
+  to: string,
+  products: Product[],
+  settings: TaxSettings
+): TaxReport => {
+  const sales = emptySide();
+  const purchases = emptySide();
+
+  invoices
+    .filter(inv => inv.date >= from && inv.date <= to)
+    .forEach(inv => {
+      let side: TaxSide | undefined;
+      let sign = 1;
+      if (inv.type === 'CREDIT_NOTE') {
+        const original = invoices.find(i => i.id === inv.originalInvoiceId);
+        side = original?.type === 'PURCHASE' ? purchases : sales;
+        sign = -1;
+      } else {
+        side = inv.type === 'SALE' ? sales : purchases;
+      }
+      side.documents += 1;
+      inv.items.forEach(item => addToSide(side!, getLineTaxes(item, products, settings), sign));
+    });
+
+  sales.byRate.sort((a, b) => b.rate - a.rate);
+  purchases.byRate.sort((a, b) => b.rate - a.rate);
+
+  return { from, to, sales, purchases, taxPayable: sales.taxAmount - purchases.taxAmount };
+};
@@ -0,0 +1,49 @@
+import { Product, ProductPack, UnitOfMeasure } from '../types';
+
+export const UNIT_LABELS: Record<UnitOfMeasure, string> = {
+  UNIT: 'Unidad',
+  KG: 'Kilogramo (a granel)',
+  G: 'Gramo',
+  L: 'Litro (a granel)',
+};
+
+export const UNIT_SYMBOLS: Record<UnitOfMeasure, string> = {
+  UNIT: 'un.',
+  KG: 'kg',
+  G: 'g',
+  L: 'L',
+};
+
+export const getUnit = (product: Pick<Product, 'unit'>): UnitOfMeasure => product.unit || 'UNIT';
+
+// Weighed and measured products can be sold in fractions; units and grams can't
+export const allowsFraction = (product: Pick<Product, 'unit'>) => getUnit(product) === 'KG' || getUnit(product) === 'L';
+
+// Quantities are kept to the gram / millilitre so repeated sums don't drift
+export const roundQuantity = (quantity: number) => Math.round(quantity * 1000) / 1000;
+
+export const quantityStep = (product: Pick<Product, 'unit'>) => (allowsFraction(product) ? 0.001 : 1);
+
+export const isValidQuantity = (product: Pick<Product, 'unit'>, quantity: number) =>
+  quantity > 0 && (allowsFraction(product) || Number.isInteger(quantity));
+
+export const formatQuantity = (quantity: number, unit: UnitOfMeasure = 'UNIT') =>
+  `${quantity.toLocaleString('es-CL', { maximumFractionDigits: 3 })} ${UNIT_SYMBOLS[unit]}`;
+
+// Packs are always whole; the result is in base units
+export const toBaseQuantity = (quantity: number, pack?: ProductPack) => roundQuantity(quantity * (pack?.factor || 1));
+
+// "2 × Caja x4 (8 un.)" for lines entered in packs, "1,25 kg" otherwise
+export const describeItemQuantity = (item: { quantity: number; unit?: UnitOfMeasure; packName?: string; packFactor?: number }) =>
+  item.packName && item.packFactor
+    ? `${roundQuantity(item.quantity / item.packFactor)} × ${item.packName} (${formatQuantity(item.quantity, item.unit)})`
+    : formatQuantity(item.quantity, item.unit);
+
+export const validatePacks = (packs: ProductPack[]): string[] => {
+  const errors: string[] = [];
+  packs.forEach(pack => {
+    if (!pack.name.trim()) errors.push('Cada empaque necesita un nombre.');
+    if (!(pack.factor > 1)) errors.push(`El empaque ${pack.name || 'sin nombre'} debe contener más de una unidad base.`);
+  });
+  return errors;
+};
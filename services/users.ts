@@ -0,0 +1,112 @@
+import { Invoice, UserAccount, UserRole } from '../types';
+import { isVoided } from './invoices';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: 'Dueño',
+  MANAGER: 'Encargado',
+  CASHIER: 'Cajero',
+};
+
+export const USER_ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+export type Permission = 'MANAGE_PRODUCTS' | 'EDIT_PRICES' | 'VOID_INVOICES' | 'MANAGE_CREDIT' | 'MANAGE_SETTINGS' | 'MANAGE_USERS' | 'MANAGE_BACKUPS';
+
+// Roles allowed to do each guarded action; selling, receiving and counting are open to everyone
+const PERMISSIONS: Record<Permission, UserRole[]> = {
+  MANAGE_PRODUCTS: ['OWNER', 'MANAGER'],
+  EDIT_PRICES: ['OWNER'], // Managers keep the catalogue up to date; owners set what it sells for
+  VOID_INVOICES: ['OWNER', 'MANAGER'],
+  MANAGE_CREDIT: ['OWNER', 'MANAGER'], // Customer credit limits
+  MANAGE_SETTINGS: ['OWNER', 'MANAGER'],
+  MANAGE_USERS: ['OWNER'],
+  MANAGE_BACKUPS: ['OWNER'], // A restore replaces every record, accounts included
+};
+
+export const can = (user: UserAccount | null | undefined, permission: Permission) =>
+  !!user && user.active && PERMISSIONS[permission].includes(user.role);
+
+export const initials = (name: string) =>
+  name.trim().split(/\s+/).slice(0, 2).map(word => word[0]?.toUpperCase() || '').join('');
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+export const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (user: UserAccount, pin: string) => (await hashPin(pin, user.id)) === user.pinHash;
+
+export interface UserInput {
+  name: string;
+  role: UserRole;
+  pin?: string; // Required for new users; keeps the current PIN when missing on an edit
+  active?: boolean;
+}
+
+export interface UserResult {
+  user?: UserAccount;
+  error?: string;
+}
+
+// Creates or updates an account. The store must always keep an active owner who can manage users.
+export const saveUser = async (input: UserInput, users: UserAccount[], existing?: UserAccount): Promise<UserResult> => {
+  const name = input.name.trim();
+  if (!name) return { error: 'Ingresa el nombre del usuario.' };
+  if (users.some(u => u.id !== existing?.id && u.name.toLowerCase() === name.toLowerCase())) {
+    return { error: `Ya existe un usuario llamado ${name}.` };
+  }
+  if ((!existing || input.pin) && !isValidPin(input.pin || '')) return { error: 'El PIN debe tener entre 4 y 6 dígitos.' };
+
+  const active = input.active ?? existing?.active ?? true;
+  if (existing?.role === 'OWNER' && existing.active && (input.role !== 'OWNER' || !active)) {
+    const otherOwners = users.filter(u => u.id !== existing.id && u.role === 'OWNER' && u.active);
+    if (otherOwners.length === 0) return { error: 'Debe quedar al menos un dueño activo.' };
+  }
+
+  const id = existing?.id || crypto.randomUUID();
+  return {
+    user: {
+      id,
+      name,
+      role: input.role,
+      pinHash: input.pin ? await hashPin(input.pin, id) : existing!.pinHash,
+      active,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+    },
+  };
+};
+
+// Who an invoice is attributed to
+export const stampUser = (invoice: Invoice, user: UserAccount | null | undefined): Invoice =>
+  user ? { ...invoice, userId: user.id, userName: user.name } : invoice;
+
+export interface UserSalesRow {
+  userId: string; // Empty for invoices issued before accounts existed
+  userName: string;
+  sales: number;
+  total: number;
+  averageTicket: number;
+  voided: number; // Sales of the period later voided, excluded from the totals
+}
+
+// Sales per cashier between two dates (YYYY-MM-DD, inclusive), highest total first
+export const buildSalesByUser = (invoices: Invoice[], from: string, to: string): UserSalesRow[] => {
+  const rows = new Map<string, UserSalesRow>();
+  invoices
+    .filter(i => i.type === 'SALE' && i.date.slice(0, 10) >= from && i.date.slice(0, 10) <= to)
+    .forEach(invoice => {
+      const userId = invoice.userId || '';
+      const row = rows.get(userId) || { userId, userName: invoice.userName || 'Sin usuario', sales: 0, total: 0, averageTicket: 0, voided: 0 };
+      if (isVoided(invoice)) {
+        row.voided++;
+      } else {
+        row.sales++;
+        row.total += invoice.totalAmount;
+      }
+      rows.set(userId, row);
+    });
+  return Array.from(rows.values())
+    .map(row => ({ ...row, averageTicket: row.sales > 0 ? Math.round(row.total / row.sales) : 0 }))
+    .sort((a, b) => b.total - a.total);
+};
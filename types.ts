@@ -1,4 +1,17 @@
 
+// What happens when a sale asks for more units than are in stock
+export type StockPolicy = 'BLOCK' | 'WARN' | 'BACKORDER';
+
+export type UnitOfMeasure = 'UNIT' | 'KG' | 'G' | 'L';
+
+// A package holding several base units, e.g. a case of four six-packs
+export interface ProductPack {
+  id: string;
+  name: string;
+  factor: number; // Base units per pack
+  barcode?: string;
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -6,18 +19,72 @@ export interface Product {
   currentStock: number;
   minStock: number;
   price: number; // Selling price
-  cost: number; // Buying price (cost)
+  cost: number; // Moving weighted average of what was paid per unit
   lastRestocked: string;
+  stockPolicy?: StockPolicy; // Defaults to BLOCK
+  sku?: string; // Internal code, unique across the catalogue
+  barcodes?: string[]; // EAN/UPC codes printed on the packaging
+  taxRateId?: string; // Overrides the rate of the product's category
+  tracksExpiry?: boolean; // Perishable: purchases must record an expiry date
+  unit?: UnitOfMeasure; // Defaults to UNIT. Stock, price and cost are all per unit of measure
+  packs?: ProductPack[];
+  components?: KitComponent[]; // Kits have no stock of their own: selling one consumes its components
+}
+
+export interface KitComponent {
+  productId: string;
+  quantity: number; // Per kit, in the component's unit
+}
+
+// A kit component as sold, so stock and analytics don't depend on later changes to the kit
+export interface KitComponentLine {
+  productId: string;
+  productName: string;
+  quantity: number; // Per kit
+  unitCost: number;
+  revenueShare: number; // Fraction of the kit's revenue attributed to this component, 0..1
+}
+
+export type DiscountType = 'PERCENT' | 'AMOUNT';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percentage (0-100) or pesos
 }
 
-export type InvoiceType = 'SALE' | 'PURCHASE';
+export type InvoiceType = 'SALE' | 'PURCHASE' | 'CREDIT_NOTE';
+
+export type InvoiceStatus = 'ISSUED' | 'VOIDED';
 
 export interface InvoiceItem {
   productId: string;
   productName: string;
   quantity: number;
-  unitPrice: number;
-  total: number;
+  unitPrice: number; // As entered: tax-inclusive or not according to TaxSettings
+  total: number; // Tax included
+  taxRate?: number; // Fraction applied to this line, e.g. 0.19
+  netAmount?: number;
+  taxAmount?: number;
+  discountAmount?: number; // Promotion, line and invoice discounts, on the same basis as unitPrice
+  manualDiscount?: Discount;
+  promotionId?: string;
+  promotionName?: string;
+  promotionDiscount?: number; // Part of discountAmount given by the promotion
+  unitCost?: number; // Sales: Product.cost when sold, on the same tax basis as Product.cost
+  lot?: string; // Purchases: lot number printed on the packaging
+  expiryDate?: string; // Purchases: YYYY-MM-DD
+  unit?: UnitOfMeasure; // Only for products not sold by the unit
+  packName?: string; // Entered in packs; quantity and unitPrice are still per base unit
+  packFactor?: number;
+  components?: KitComponentLine[]; // Sales of kits
+}
+
+// ACCOUNT: charged to the customer's balance (fiado); POINTS: paid with the customer's loyalty points
+export type PaymentMethod = 'CASH' | 'DEBIT' | 'CREDIT' | 'TRANSFER' | 'ACCOUNT' | 'POINTS';
+
+export interface Payment {
+  method: PaymentMethod;
+  amount: number;
 }
 
 export interface Invoice {
@@ -25,10 +92,320 @@ export interface Invoice {
   type: InvoiceType;
   date: string;
   items: InvoiceItem[];
-  totalAmount: number;
+  totalAmount: number; // Tax included
+  netAmount?: number;
+  taxAmount?: number;
+  discount?: Discount; // Invoice-level discount, prorated into the lines' discountAmount
+  notes?: string;
+  status?: InvoiceStatus; // Missing on older records, which are ISSUED
+  originalInvoiceId?: string; // Credit notes: the invoice they reverse
+  creditNoteId?: string; // Voided invoices: the credit note that reversed them
+  voidReason?: string;
+  payments?: Payment[]; // Sales and their credit notes: amount applied per method, adds up to totalAmount
+  cashTendered?: number; // Cash handed over by the customer, before change
+  change?: number;
+  cashSessionId?: string; // Register session the money went into or came out of
+  folio?: number; // Sequential per document type; older records only have the id
+  supplierId?: string; // Purchases
+  purchaseOrderId?: string; // Purchases received against an order
+  locationId?: string; // Sales: where the goods left from; purchases: where they were received
+  userId?: string; // Who issued it; missing on older records
+  userName?: string; // Snapshot, so reports keep the name of deleted users
+  customerId?: string; // Sales: required when part is charged on account; credit notes copy it
+}
+
+export type StockMovementType = 'OPENING' | 'SALE' | 'PURCHASE' | 'ADJUSTMENT' | 'RETURN' | 'SHRINKAGE' | 'EXPIRY' | 'TRANSFER';
+
+// Append-only stock ledger entry (kardex). Product.currentStock is the running sum of these.
+export interface StockMovement {
+  id: string;
+  productId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: positive adds stock, negative removes it
+  date: string; // ISO timestamp
+  user: string;
+  reason?: string;
+  invoiceId?: string;
+  unitCost?: number; // Cost per unit of the units this movement brings in (or takes back out, for purchase reversals and expiry write-offs)
+  lot?: string; // Lot the units belong to; stock without a lot is unassigned
+  expiryDate?: string; // Of the lot, YYYY-MM-DD
+  locationId?: string; // Where the units are; missing means the main location
+  transferId?: string;
+  countId?: string; // Stock count that posted this adjustment
+}
+
+// Moves stock between two locations. Each line becomes a pair of TRANSFER movements that leave the
+// product's total stock unchanged.
+export interface StockTransfer {
+  id: string;
+  folio: number;
+  date: string; // ISO timestamp
+  fromLocationId: string;
+  toLocationId: string;
+  lines: TransferLine[];
+  user: string;
+  notes?: string;
+}
+
+export interface TransferLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+export type StockCountStatus = 'OPEN' | 'POSTED' | 'CANCELLED';
+
+// Why a counted quantity differs from the expected one
+export type VarianceReason = 'SHRINKAGE' | 'DAMAGE' | 'COUNT_ERROR';
+
+export interface StockCountLine {
+  productId: string;
+  productName: string;
+  expected: number; // Stock at the location when the count started
+  counted?: number; // Missing until the product is counted
+  unitCost: number; // Cost when the count started, to value the variance
+  reason?: VarianceReason;
+}
+
+// A physical stock take of one location, whole catalogue or one category. Posting it turns the
+// variances into ledger adjustments.
+export interface StockCount {
+  id: string;
+  folio: number;
+  status: StockCountStatus;
+  locationId: string;
+  category?: string; // Missing for a full count
+  startedAt: string; // ISO timestamp
+  postedAt?: string;
+  lines: StockCountLine[];
+  user: string;
+  notes?: string;
+}
+
+export type BackorderStatus = 'OPEN' | 'FULFILLED' | 'CANCELLED';
+
+// Units sold without stock under the BACKORDER policy, owed until a purchase covers them
+export interface Backorder {
+  id: string;
+  productId: string;
+  productName: string;
+  invoiceId: string;
+  locationId?: string; // Where the units are owed; missing means the main location
+  quantity: number;
+  date: string; // ISO timestamp
+  status: BackorderStatus;
+  closedAt?: string;
+}
+
+export type PromotionType = 'BUY_X_PAY_Y' | 'PERCENT_OFF';
+
+// Rule evaluated automatically on sale carts. Category discounts and happy hours are
+// PERCENT_OFF promotions scoped by category or by time window.
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  productIds: string[]; // Empty together with categories means every product
+  categories: string[];
+  buyQuantity?: number; // BUY_X_PAY_Y: "lleva 3 paga 2" is buy 3, pay 2
+  payQuantity?: number;
+  percent?: number; // PERCENT_OFF
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;
+  startTime?: string; // HH:MM, daily window
+  endTime?: string;
+  daysOfWeek?: number[]; // 0 = Sunday; empty means every day
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  rut?: string; // Chilean tax id, stored formatted (12.345.678-9)
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  leadTimeDays: number; // From order to delivery
+  paymentTermsDays: number; // 0 = cash on delivery
+  productIds: string[]; // Products this supplier sells
+  notes?: string;
+}
+
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIAL' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productName: string;
+  quantityOrdered: number;
+  quantityReceived: number; // Sum over the order's receipts
+  unitCost: number;
+}
+
+export interface PurchaseReceiptLine {
+  productId: string;
+  expected: number; // Quantity still pending when the delivery arrived
+  received: number;
+  note?: string; // Why the delivery differs from what was pending
+}
+
+// One delivery received against an order; the purchase invoice holds what entered stock.
+export interface PurchaseReceipt {
+  id: string;
+  date: string;
+  invoiceId: string;
+  lines: PurchaseReceiptLine[];
+  user: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  folio: number;
+  supplierId?: string;
+  status: PurchaseOrderStatus;
+  createdAt: string;
+  sentAt?: string;
+  expectedDate?: string; // YYYY-MM-DD
+  closedAt?: string; // Fully received, closed short or cancelled
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseReceipt[];
+  notes?: string;
+}
+
+// Neighborhood customer who may buy on account
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  rut?: string; // Stored formatted, like suppliers
+  address?: string;
+  creditLimit?: number; // Maximum balance owed; missing means no limit
+  notes?: string;
+  active: boolean;
+  createdAt: string;
+}
+
+// Money received from a customer to pay down their balance
+export interface CustomerPayment {
+  id: string;
+  folio: number;
+  customerId: string;
+  date: string;
+  amount: number;
+  method: Exclude<PaymentMethod, 'ACCOUNT' | 'POINTS'>;
+  cashSessionId?: string; // Cash collections go into the open register
+  user: string;
   notes?: string;
 }
 
+export type LoyaltyEntryType = 'EARN' | 'REDEEM' | 'EXPIRE' | 'REVERSAL';
+
+// Append-only points ledger entry. A customer's points are the sum of theirs, minus what has expired.
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  type: LoyaltyEntryType;
+  points: number; // Positive adds, negative takes away
+  date: string;
+  invoiceId?: string; // Sale that earned or spent them, or the credit note that reversed it
+  expiresAt?: string; // Points added; missing means they never expire
+  lotId?: string; // EXPIRE: the entry whose points lapsed
+  user: string;
+}
+
+export type UserRole = 'OWNER' | 'MANAGER' | 'CASHIER';
+
+// Local account for switching who operates the store. The PIN is only stored hashed.
+export interface UserAccount {
+  id: string;
+  name: string;
+  role: UserRole;
+  pinHash: string; // SHA-256 of the PIN salted with the id
+  active: boolean;
+  createdAt: string;
+}
+
+export type CashSessionStatus = 'OPEN' | 'CLOSED';
+
+// A cash register shift, from the opening float to the closing count.
+export interface CashSession {
+  id: string;
+  status: CashSessionStatus;
+  openedAt: string; // ISO timestamp
+  openedBy: string;
+  openingFloat: number;
+  closedAt?: string;
+  closedBy?: string;
+  expectedCash?: number; // Frozen at closing
+  countedCash?: number;
+  difference?: number; // counted - expected: positive is over, negative is short
+  notes?: string;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // Fraction, e.g. 0.19 for 19%
+}
+
+export interface TaxSettings {
+  rates: TaxRate[];
+  defaultRateId: string;
+  categoryRates: Record<string, string>; // Category name -> tax rate id
+  pricesIncludeTax: boolean; // Product.price entered with tax included
+  costsIncludeTax: boolean; // Product.cost entered with tax included
+}
+
+export type PaperWidth = 58 | 80;
+
+export interface ReceiptSettings {
+  storeName: string;
+  headerLines: string; // RUT, address, phone... one per line
+  footer: string;
+  paperWidth: PaperWidth; // Thermal roll width in mm
+}
+
+export type CostingMethod = 'AVERAGE' | 'FIFO';
+
+export interface CostingSettings {
+  method: CostingMethod; // How stock on hand is valued; Product.cost is always the moving average
+}
+
+export interface ReplenishmentSettings {
+  serviceLevel: number; // Chance of not running out during a lead time, e.g. 0.95
+  salesWindowDays: number; // Recent sales used to measure demand
+  orderCost: number; // Fixed cost of placing one order, for the economic order quantity
+  holdingRate: number; // Yearly cost of keeping stock, as a fraction of unit cost
+  defaultLeadTimeDays: number; // For products without a supplier
+}
+
+export interface StockLocation {
+  id: string;
+  name: string;
+}
+
+export interface LocationSettings {
+  locations: StockLocation[]; // Always includes MAIN_LOCATION_ID
+  saleLocationId: string; // Default for sales
+  receivingLocationId: string; // Default for purchases
+}
+
+export interface LoyaltySettings {
+  enabled: boolean; // Stops earning; points already earned can still be redeemed
+  amountPerPoint: number; // Pesos spent to earn one point
+  pointValue: number; // Pesos one point is worth when redeemed
+  excludedCategories: string[]; // Spending on these earns nothing, e.g. Alcohol
+  expiryMonths: number; // 0 = points never expire
+}
+
+export interface StoreSettings {
+  tax: TaxSettings;
+  receipt: ReceiptSettings;
+  costing: CostingSettings;
+  replenishment: ReplenishmentSettings;
+  locations: LocationSettings;
+  loyalty: LoyaltySettings;
+}
+
 export interface AiPrediction {
   analysis: string;
   predictions: {
@@ -48,5 +425,16 @@ export enum ViewState {
   DASHBOARD = 'DASHBOARD',
   INVENTORY = 'INVENTORY',
   BILLING = 'BILLING',
-  ANALYTICS = 'ANALYTICS'
+  ANALYTICS = 'ANALYTICS',
+  PROMOTIONS = 'PROMOTIONS',
+  CASH_REGISTER = 'CASH_REGISTER',
+  SUPPLIERS = 'SUPPLIERS',
+  PURCHASE_ORDERS = 'PURCHASE_ORDERS',
+  REPLENISHMENT = 'REPLENISHMENT',
+  LOTS = 'LOTS',
+  TRANSFERS = 'TRANSFERS',
+  STOCK_COUNTS = 'STOCK_COUNTS',
+  CUSTOMERS = 'CUSTOMERS',
+  REPORTS = 'REPORTS',
+  SETTINGS = 'SETTINGS'
 }